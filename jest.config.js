@@ -0,0 +1,11 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  globals: {
+    'ts-jest': {
+      // The build targets ES modules, but jest loads CommonJS
+      tsconfig: { module: 'commonjs' },
+    },
+  },
+};
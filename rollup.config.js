@@ -1,33 +1,57 @@
 import typescript from 'rollup-plugin-typescript2';
 import pkg from './package.json';
 
-export default {
-  input: 'src/index.ts',
-  output: [
-    {
-      file: pkg.main,
-      format: 'cjs',
-    },
-    {
-      file: pkg.module,
-      format: 'es',
-    },
-    {
-      name: '@lifebac/intakeq',
-      file: pkg.browser,
-      format: 'umd',
-      globals: {
-        axios: 'axios',
+const external = [
+  ...Object.keys(pkg.dependencies || {}),
+  ...Object.keys(pkg.peerDependencies || {}),
+];
+
+export default [
+  {
+    input: 'src/index.ts',
+    output: [
+      {
+        file: pkg.main,
+        format: 'cjs',
+      },
+      {
+        file: pkg.module,
+        format: 'es',
+      },
+      {
+        name: '@lifebac/intakeq',
+        file: pkg.browser,
+        format: 'umd',
+        globals: {
+          axios: 'axios',
+        },
+      },
+    ],
+    external,
+    plugins: [
+      typescript({
+        typescript: require('typescript'),
+      }),
+    ],
+  },
+  // The fake backend and cassettes, kept out of the main bundle
+  {
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing.js',
+        format: 'cjs',
+      },
+      {
+        file: 'dist/testing.esm.js',
+        format: 'es',
       },
-    },
-  ],
-  external: [
-    ...Object.keys(pkg.dependencies || {}),
-    ...Object.keys(pkg.peerDependencies || {}),
-  ],
-  plugins: [
-    typescript({
-      typescript: require('typescript'),
-    }),
-  ],
-};
+    ],
+    external: [...external, 'fs', 'http', 'path'],
+    plugins: [
+      typescript({
+        typescript: require('typescript'),
+      }),
+    ],
+  },
+];
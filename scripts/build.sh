@@ -24,8 +24,9 @@ for i in $(find "$DIST_DIRECTORY" -type f -name "*.d.ts"); do
     mv $i "$TEMP_DIRECTORY/$DIRECTORY"
 done
 
-# Generate single TS Declaration file
+# Generate single TS Declaration files, for the main and testing entry points
 dts-bundle --configJson ./dts-bundle.json
+dts-bundle --name @lifebac/intakeq/testing --main temp-dec/testing/index.d.ts --out ../../dist/testing.d.ts
 
 # Remove temp folders
 rm -rf $TEMP_DIRECTORY
@@ -0,0 +1,256 @@
+import {
+  RescheduleIncompleteError,
+  SchedulingConflictError,
+} from '../common/errors';
+import { TransportRequest } from '../http/interfaces';
+import { IntakeQApi } from '../index';
+import {
+  buildAppointment,
+  buildClient,
+  buildLocation,
+  buildPractitioner,
+  buildService,
+  toUnix,
+} from '../testing/builders';
+import { IntakeQFake } from '../testing/fake';
+import { CreateAppointmentRequest } from './interfaces';
+
+const location = buildLocation();
+const service = buildService({ Duration: 60 });
+const sam = buildPractitioner({ FirstName: 'Sam' });
+const alex = buildPractitioner({ FirstName: 'Alex' });
+const client = buildClient();
+
+function setup() {
+  const appointment = buildAppointment(
+    { StartDate: toUnix('2024-06-03T10:00:00Z') },
+    { client, practitioner: sam, service, location }
+  );
+  const fake = new IntakeQFake({
+    seed: {
+      locations: [location],
+      services: [service],
+      practitioners: [sam, alex],
+      clients: [client],
+      appointments: [appointment],
+    },
+  });
+  const api = new IntakeQApi('test', { transport: fake, retry: false });
+  return { fake, api, appointment };
+}
+
+function booking(
+  start: string,
+  overrides: Partial<CreateAppointmentRequest> = {}
+): CreateAppointmentRequest {
+  return {
+    UtcDateTime: toUnix(start),
+    PractitionerId: sam.Id,
+    ClientId: client.ClientId,
+    ServiceId: service.Id,
+    LocationId: Number(location.Id),
+    Status: 'Confirmed',
+    SendClientEmailNotification: false,
+    ReminderType: 'OptOut',
+    ...overrides,
+  };
+}
+
+describe('AppointmentApi conflict checks', () => {
+  it('refuses to book over another appointment', async () => {
+    const { fake, api, appointment } = setup();
+
+    const error = await api.Appointment.create(
+      booking('2024-06-03T10:30:00Z'),
+      { conflictCheck: 'throw' }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchedulingConflictError);
+    expect(error.conflicts).toEqual([
+      expect.objectContaining({
+        appointment: expect.objectContaining({ Id: appointment.Id }),
+        reasons: ['practitioner'],
+        overlapMinutes: 30,
+      }),
+    ]);
+    expect(fake.appointments).toHaveLength(1);
+  });
+
+  it('books anyway and reports the conflicts when asked to warn', async () => {
+    const { fake, api } = setup();
+    const onConflicts = jest.fn();
+
+    await api.Appointment.create(booking('2024-06-03T10:30:00Z'), {
+      conflictCheck: 'warn',
+      onConflicts,
+    });
+
+    expect(onConflicts).toHaveBeenCalledTimes(1);
+    expect(fake.appointments).toHaveLength(2);
+  });
+
+  it('writes nothing to the console without onConflicts', async () => {
+    const { fake, api } = setup();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      await api.Appointment.create(booking('2024-06-03T10:30:00Z'), {
+        conflictCheck: 'warn',
+      });
+
+      expect(fake.appointments).toHaveLength(2);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('keeps buffers free around appointments', async () => {
+    const { api } = setup();
+
+    const plain = await api.Appointment.checkConflicts(
+      booking('2024-06-03T11:00:00Z')
+    );
+    const buffered = await api.Appointment.checkConflicts(
+      booking('2024-06-03T11:00:00Z'),
+      { bufferMinutes: 15 }
+    );
+
+    expect(plain.conflicts).toEqual([]);
+    expect(buffered.conflicts).toHaveLength(1);
+    expect(buffered.end).toEqual(new Date('2024-06-03T12:00:00Z'));
+  });
+
+  it('looks at other practitioners only for the same client', async () => {
+    const { api } = setup();
+    const withAlex = booking('2024-06-03T10:00:00Z', {
+      PractitionerId: alex.Id,
+    });
+
+    expect((await api.Appointment.checkConflicts(withAlex)).conflicts).toEqual(
+      []
+    );
+    expect(
+      (await api.Appointment.checkConflicts(withAlex, { checkClient: true }))
+        .conflicts[0].reasons
+    ).toEqual(['client']);
+  });
+
+  it('lets services that allow overlap share the time', async () => {
+    const { api } = setup();
+
+    const result = await api.Appointment.checkConflicts(
+      booking('2024-06-03T10:00:00Z'),
+      { allowOverlap: [service.Id] }
+    );
+
+    expect(result.conflicts).toEqual([]);
+  });
+});
+
+describe('AppointmentApi.reschedule', () => {
+  it('moves the appointment in place', async () => {
+    const { fake, api, appointment } = setup();
+
+    const result = await api.Appointment.reschedule(
+      appointment.Id,
+      new Date('2024-06-03T14:00:00Z'),
+      { timeZone: 'UTC' }
+    );
+
+    expect(result.recreated).toBe(false);
+    expect(result.before.StartDate).toBe(appointment.StartDate);
+    expect(result.after.StartDate).toBe(toUnix('2024-06-03T14:00:00Z'));
+    expect(fake.appointments).toHaveLength(1);
+  });
+
+  it('refuses times outside business hours', async () => {
+    const { api, appointment } = setup();
+
+    await expect(
+      api.Appointment.reschedule(
+        appointment.Id,
+        new Date('2024-06-08T10:00:00Z'),
+        { timeZone: 'UTC' }
+      )
+    ).rejects.toThrow('outside business hours');
+  });
+
+  it('throws for an overlapping appointment and leaves it unchanged', async () => {
+    const { fake, api, appointment } = setup();
+    const other = buildAppointment(
+      { StartDate: toUnix('2024-06-03T14:30:00Z') },
+      { practitioner: sam, service, location }
+    );
+    fake.seed({ appointments: [other] });
+
+    const error = await api.Appointment.reschedule(
+      appointment.Id,
+      new Date('2024-06-03T14:00:00Z'),
+      { timeZone: 'UTC' }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchedulingConflictError);
+    expect(error.conflicts[0].appointment.Id).toBe(other.Id);
+    expect(fake.appointments[0].StartDate).toBe(appointment.StartDate);
+  });
+
+  it('books again with another practitioner and cancels the original', async () => {
+    const { fake, api, appointment } = setup();
+
+    const result = await api.Appointment.reschedule(
+      appointment.Id,
+      new Date('2024-06-04T10:00:00Z'),
+      { timeZone: 'UTC', practitionerId: alex.Id }
+    );
+
+    expect(result.recreated).toBe(true);
+    expect(result.after.PractitionerId).toBe(alex.Id);
+    expect(fake.appointments.find(({ Id }) => Id === appointment.Id)).toEqual(
+      expect.objectContaining({ Status: 'Canceled' })
+    );
+    expect(
+      fake.requests.map(({ method, path }) => `${method} ${path}`)
+    ).toEqual(
+      expect.arrayContaining([
+        'POST appointments',
+        'POST appointments/cancellation',
+      ])
+    );
+  });
+
+  it('keeps both appointments when the original cannot be canceled', async () => {
+    const { fake, appointment } = setup();
+    const transport = {
+      send: (request: TransportRequest) =>
+        request.url.endsWith('/appointments/cancellation')
+          ? Promise.resolve({ status: 500, headers: {}, data: null })
+          : fake.send(request),
+    };
+    const api = new IntakeQApi('test', { transport, retry: false });
+
+    const error = await api.Appointment.reschedule(
+      appointment.Id,
+      new Date('2024-06-04T10:00:00Z'),
+      { timeZone: 'UTC', practitionerId: alex.Id }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RescheduleIncompleteError);
+    expect(error.status).toBe(500);
+    expect(error.before.Id).toBe(appointment.Id);
+    expect(error.after.PractitionerId).toBe(alex.Id);
+    expect(fake.appointments).toHaveLength(2);
+  });
+
+  it('refuses canceled appointments', async () => {
+    const { fake, api, appointment } = setup();
+    fake.appointments[0].Status = 'Canceled';
+
+    await expect(
+      api.Appointment.reschedule(
+        appointment.Id,
+        new Date('2024-06-03T14:00:00Z'),
+        { timeZone: 'UTC' }
+      )
+    ).rejects.toThrow('is Canceled and cannot be rescheduled');
+  });
+});
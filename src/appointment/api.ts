@@ -1,48 +1,134 @@
-import { AxiosInstance } from 'axios';
+import { HttpClient } from '../http/client';
+import { RequestOptions } from '../http/interfaces';
 import {
   Appointment,
   ListAppointmentsRequest,
   GetSettingsResponse,
   CreateAppointmentRequest,
   UpdateAppointmentRequest,
+  HydratedAppointment,
+  AvailabilityOptions,
+  ConflictCheckResult,
+  ConflictOptions,
+  SaveAppointmentOptions,
+  SeriesOptions,
+  RescheduleOptions,
+  RescheduleResult,
+  AppointmentConflict,
 } from './interfaces';
+import {
+  appointmentSpan,
+  AvailabilityService,
+  BLOCKING_STATUSES,
+  DEFAULT_BUSINESS_HOURS,
+  isWithinBusinessHours,
+} from './availability';
+import { findConflicts } from './conflicts';
+import { AppointmentSeriesService } from './series';
+import {
+  IntakeQError,
+  RescheduleIncompleteError,
+  SchedulingConflictError,
+} from '../common/errors';
+import { formatDate } from '../common/query';
+import { MaybeHydrated, PaginationOptions } from '../common/interfaces';
+import { Hydrator } from '../common/hydration';
+import { collect, paginate } from '../common/pagination';
+import { s } from '../common/schema';
+import { appointmentSchema, getSettingsResponseSchema } from './schemas';
 
 const ENDPOINT = 'appointments';
 
-export class AppointmentApi {
-  constructor(private api: AxiosInstance) {}
+type AppointmentOf<H extends boolean> = MaybeHydrated<
+  H,
+  Appointment,
+  HydratedAppointment
+>;
+
+export class AppointmentApi<H extends boolean = false> {
+  constructor(private api: HttpClient, private hydrator?: Hydrator) {}
+
+  private hydrate(appointment: Appointment): AppointmentOf<H> {
+    return (this.hydrator
+      ? this.hydrator.appointment(appointment)
+      : appointment) as AppointmentOf<H>;
+  }
 
   /**
    * Use this method to query appointments in your organization. The results
    * will be ordered by Date in descending order
    * @param params The list appointment request parameters
    */
-  async list(params: ListAppointmentsRequest): Promise<Appointment[]> {
-    const urlParams = Object.keys(params).map((key) => `${key}=${params[key]}`);
-    const res = await this.api.get<Appointment[]>(
-      `${ENDPOINT}?${urlParams.join('&')}`
+  async list(params: ListAppointmentsRequest): Promise<AppointmentOf<H>[]> {
+    const res = await this.api.get<Appointment[]>(ENDPOINT, {
+      query: params,
+      schema: s.array(appointmentSchema),
+    });
+    return res.data.map((appointment) => this.hydrate(appointment));
+  }
+
+  /**
+   * Iterate over every appointment matching the query, fetching further pages
+   * as needed. Paging starts from `params.page` if it is set.
+   * @param params The list appointment request parameters
+   * @param options Limits and abort signal for the iteration
+   */
+  iterate(
+    params: ListAppointmentsRequest,
+    options?: PaginationOptions
+  ): AsyncGenerator<AppointmentOf<H>, void, undefined> {
+    return paginate(
+      (page) => this.list({ ...params, page }),
+      options,
+      params.page
     );
-    return res.data;
+  }
+
+  /**
+   * Load every appointment matching the query across all pages
+   * @param params The list appointment request parameters
+   * @param options Limits and abort signal for the iteration
+   */
+  async listAll(
+    params: ListAppointmentsRequest,
+    options?: PaginationOptions
+  ): Promise<AppointmentOf<H>[]> {
+    return collect(this.iterate(params, options));
   }
 
   /**
    * Use this method to get a single appointment using its ID.
    * @param appointmentId The id of the appointment to get
    */
-  async get(appointmentId: string): Promise<Appointment> {
-    const res = await this.api.get<Appointment>(`${ENDPOINT}/${appointmentId}`);
-    return res.data;
+  async get(appointmentId: string): Promise<AppointmentOf<H>> {
+    const res = await this.api.get<Appointment>(
+      `${ENDPOINT}/${appointmentId}`,
+      { schema: appointmentSchema }
+    );
+    return this.hydrate(res.data);
   }
 
   /**
    * Create a new appointment
    * - `SendClientEmailNotification` can only be true if the `Status` is set
    *    to `Confirmed`.
+   * - Create requests are not retried unless `options.retry` is set, so a
+   *   transient failure never books the same slot twice.
    * @param newAppointment The new appointment object
+   * @param options Set `retry: true` to retry this request on transient
+   * failures, and `conflictCheck` to look for appointments it overlaps first
    */
-  async create(newAppointment: CreateAppointmentRequest): Promise<Appointment> {
-    const res = await this.api.post<Appointment>(`${ENDPOINT}`, newAppointment);
-    return res.data;
+  async create(
+    newAppointment: CreateAppointmentRequest,
+    options: SaveAppointmentOptions<AppointmentOf<H>> = {}
+  ): Promise<AppointmentOf<H>> {
+    const requestOptions = await this.guard(newAppointment, 'POST', options);
+    const res = await this.api.post<Appointment>(
+      `${ENDPOINT}`,
+      newAppointment,
+      { ...requestOptions, schema: appointmentSchema }
+    );
+    return this.hydrate(res.data);
   }
 
   /**
@@ -53,35 +139,323 @@ export class AppointmentApi {
    * - Fields like `ServiceId`, `LocationId`, `ReminderType` are only necessary
    *   if you are changing them.
    * @param updatedAppointment The updated appointment object
+   * @param options Set `retry: true` to retry this request on transient
+   * failures, and `conflictCheck` to look for appointments it overlaps first
    */
   async update(
-    updatedAppointment: UpdateAppointmentRequest
-  ): Promise<Appointment> {
+    updatedAppointment: UpdateAppointmentRequest,
+    options: SaveAppointmentOptions<AppointmentOf<H>> = {}
+  ): Promise<AppointmentOf<H>> {
+    const requestOptions = await this.guard(updatedAppointment, 'PUT', options);
     const res = await this.api.put<Appointment>(
       `${ENDPOINT}`,
-      updatedAppointment
+      updatedAppointment,
+      { ...requestOptions, schema: appointmentSchema }
     );
-    return res.data;
+    return this.hydrate(res.data);
+  }
+
+  /**
+   * Find the confirmed and unconfirmed appointments a new or changed
+   * appointment would overlap. The practitioner's appointments always count;
+   * the client's with other practitioners count when `checkClient` is set.
+   * @param appointment The appointment to create, or the update to make
+   * @param options Buffers, the services allowed to overlap and the statuses
+   * that count
+   */
+  async checkConflicts(
+    appointment: CreateAppointmentRequest | UpdateAppointmentRequest,
+    options: ConflictOptions = {}
+  ): Promise<ConflictCheckResult<AppointmentOf<H>>> {
+    const settings = await this.getSettings();
+    const existing =
+      'Id' in appointment && appointment.Id
+        ? await this.get(appointment.Id)
+        : undefined;
+    const practitionerId =
+      'PractitionerId' in appointment
+        ? appointment.PractitionerId
+        : existing.PractitionerId;
+    const clientId =
+      'ClientId' in appointment ? appointment.ClientId : existing.ClientId;
+    const serviceId = appointment.ServiceId ?? existing?.ServiceId;
+
+    let duration = existing?.Duration;
+    if (!existing || serviceId !== existing.ServiceId) {
+      const service = settings.Services.find(({ Id }) => Id === serviceId);
+      if (!service) throw new Error(`No service with id ${serviceId}`);
+      duration = service.Duration;
+    }
+    const start = appointment.UtcDateTime
+      ? new Date(appointment.UtcDateTime * 1000)
+      : appointmentSpan(existing).start;
+    const end = new Date(start.getTime() + duration * 60 * 1000);
+
+    const day = 24 * 60 * 60 * 1000;
+    const practitioner = settings.Practitioners.find(
+      ({ Id }) => Id === practitionerId
+    );
+    const nearby = await this.listAll({
+      startDate: formatDate(new Date(start.getTime() - day)),
+      endDate: formatDate(new Date(end.getTime() + day)),
+      practitionerEmail: options.checkClient ? undefined : practitioner?.Email,
+    });
+
+    return {
+      start,
+      end,
+      conflicts: findConflicts(
+        {
+          start,
+          end,
+          practitionerId,
+          clientId,
+          serviceId,
+          appointmentId: existing?.Id,
+        },
+        nearby,
+        options
+      ),
+    };
+  }
+
+  /** Run the conflict check asked for, returning the options left to send */
+  private async guard(
+    appointment: CreateAppointmentRequest | UpdateAppointmentRequest,
+    method: 'POST' | 'PUT',
+    options: SaveAppointmentOptions<AppointmentOf<H>>
+  ): Promise<RequestOptions> {
+    const {
+      conflictCheck,
+      onConflicts,
+      checkClient,
+      bufferMinutes,
+      allowOverlap,
+      blockingStatuses,
+      ...requestOptions
+    } = options;
+    if (!conflictCheck) return requestOptions;
+
+    const { conflicts } = await this.checkConflicts(appointment, {
+      checkClient,
+      bufferMinutes,
+      allowOverlap,
+      blockingStatuses,
+    });
+    this.reportConflicts(conflicts, method, conflictCheck, onConflicts);
+    return requestOptions;
+  }
+
+  /** Throw for or report the conflicts found, as `conflictCheck` asks */
+  private reportConflicts(
+    conflicts: AppointmentConflict<AppointmentOf<H>>[],
+    method: 'POST' | 'PUT',
+    conflictCheck: 'warn' | 'throw',
+    onConflicts?: (conflicts: AppointmentConflict<AppointmentOf<H>>[]) => void
+  ): void {
+    if (conflicts.length && conflictCheck === 'throw') {
+      throw new SchedulingConflictError(
+        `Appointment overlaps ${conflicts.length} existing appointment${
+          conflicts.length === 1 ? '' : 's'
+        }, starting with ${conflicts[0].appointment.Id}`,
+        { endpoint: ENDPOINT, method, conflicts }
+      );
+    }
+    if (conflicts.length) onConflicts?.(conflicts);
+  }
+
+  /**
+   * Move an appointment to a new time, keeping its status, service and
+   * location. The new time must fall within business hours and, unless
+   * `conflictCheck` says otherwise, must not overlap other appointments.
+   * - When `practitionerId` names another practitioner, the appointment is
+   *   booked again with them and the original is canceled, as IntakeQ cannot
+   *   change the practitioner. The new appointment takes the duration of its
+   *   service. If the original cannot be canceled, a
+   *   `RescheduleIncompleteError` holds both appointments.
+   * - Only Confirmed and WaitingConfirmation appointments can be moved.
+   * @param appointmentId The id of the appointment to move
+   * @param newStart When the appointment should start
+   * @param options Business hours, conflict checks, the practitioner and
+   * whether to email the client
+   * @returns The appointment before and after the move
+   */
+  async reschedule(
+    appointmentId: string,
+    newStart: Date,
+    options: RescheduleOptions<AppointmentOf<H>> = {}
+  ): Promise<RescheduleResult<AppointmentOf<H>>> {
+    const {
+      practitionerId,
+      businessHours = DEFAULT_BUSINESS_HOURS,
+      timeZone,
+      conflictCheck = 'throw',
+      onConflicts,
+      notifyClient = false,
+      reminderType = 'Email',
+      cancelReason = 'Rescheduled',
+      checkClient,
+      bufferMinutes,
+      allowOverlap,
+      blockingStatuses,
+      ...requestOptions
+    } = options;
+    if (isNaN(newStart.getTime())) {
+      throw new Error('newStart is not a valid Date');
+    }
+
+    const before = await this.get(appointmentId);
+    if (!BLOCKING_STATUSES.includes(before.Status)) {
+      throw new Error(
+        `Appointment ${appointmentId} is ${before.Status} and cannot be rescheduled`
+      );
+    }
+    if (notifyClient && before.Status !== 'Confirmed') {
+      throw new Error('Only Confirmed appointments can be emailed to clients');
+    }
+
+    const span = appointmentSpan(before);
+    const end = new Date(
+      newStart.getTime() + span.end.getTime() - span.start.getTime()
+    );
+    if (
+      businessHours &&
+      !isWithinBusinessHours(newStart, end, businessHours, timeZone)
+    ) {
+      throw new Error(`${newStart.toISOString()} is outside business hours`);
+    }
+
+    const recreate =
+      practitionerId !== undefined && practitionerId !== before.PractitionerId;
+    const UtcDateTime = Math.floor(newStart.getTime() / 1000);
+    const request:
+      | CreateAppointmentRequest
+      | UpdateAppointmentRequest = recreate
+      ? {
+          ClientId: before.ClientId,
+          PractitionerId: practitionerId,
+          ServiceId: before.ServiceId,
+          LocationId: before.LocationId,
+          Status: before.Status,
+          UtcDateTime,
+          SendClientEmailNotification: notifyClient,
+          ReminderType: reminderType,
+        }
+      : {
+          Id: before.Id,
+          UtcDateTime,
+          SendClientEmailNotification: notifyClient,
+        };
+
+    if (conflictCheck) {
+      const { conflicts } = await this.checkConflicts(request, {
+        checkClient,
+        bufferMinutes,
+        allowOverlap,
+        blockingStatuses,
+      });
+      // A rebooked appointment may overlap the one it replaces
+      this.reportConflicts(
+        conflicts.filter(({ appointment }) => appointment.Id !== before.Id),
+        recreate ? 'POST' : 'PUT',
+        conflictCheck,
+        onConflicts
+      );
+    }
+
+    if (!('ClientId' in request)) {
+      const after = await this.update(request, requestOptions);
+      return { before, after, recreated: false };
+    }
+    const after = await this.create(request, requestOptions);
+    try {
+      await this.cancel(before.Id, cancelReason, requestOptions);
+    } catch (error) {
+      throw new RescheduleIncompleteError(
+        `Booked appointment ${after.Id} but could not cancel ${before.Id}`,
+        {
+          endpoint: `${ENDPOINT}/cancellation`,
+          method: 'POST',
+          status: error instanceof IntakeQError ? error.status : undefined,
+          cause: error,
+          before,
+          after,
+        }
+      );
+    }
+    return { before, after, recreated: true };
   }
 
   /**
    * Cancel an existing appointment
    * @param id The id of the appointment to cancel
    * @param reason The reason for cancelling
+   * @param options Set `retry: true` to retry this request on transient failures
    */
-  async cancel(id: string, reason?: string): Promise<void> {
-    await this.api.post(`${ENDPOINT}/cancellation`, {
-      AppointmentId: id,
-      Reason: reason ?? '',
-    });
+  async cancel(
+    id: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    await this.api.post(
+      `${ENDPOINT}/cancellation`,
+      {
+        AppointmentId: id,
+        Reason: reason ?? '',
+      },
+      options
+    );
   }
 
   /**
    * Use this method to get a list of Services, Locations and Practitioners for
-   * your account.
+   * your account. Served from the cache when caching is turned on.
    */
   async getSettings(): Promise<GetSettingsResponse> {
-    const res = await this.api.get<GetSettingsResponse>(`${ENDPOINT}/settings`);
+    const res = await this.api.get<GetSettingsResponse>(
+      `${ENDPOINT}/settings`,
+      { schema: getSettingsResponseSchema, cache: 'settings' }
+    );
     return res.data;
   }
+
+  /**
+   * A service that finds free appointment slots from business hours, service
+   * durations and the appointments already booked
+   * @param options Business hours and their time zone, buffers between
+   * appointments and the slot interval
+   */
+  availability(options?: AvailabilityOptions): AvailabilityService {
+    return new AvailabilityService(
+      {
+        getSettings: () => this.getSettings(),
+        listAppointments: (params) => this.listAll(params),
+      },
+      options
+    );
+  }
+
+  /**
+   * A service that books recurring appointments as a series, skipping
+   * holidays and conflicts, and cancels or reschedules them together
+   * @param options Where series are kept, their time zone, holidays and how
+   * conflicts are checked
+   */
+  series(options?: SeriesOptions): AppointmentSeriesService {
+    return new AppointmentSeriesService(
+      {
+        checkConflicts: async (appointment, conflictOptions) => {
+          const { conflicts } = await this.checkConflicts(
+            appointment,
+            conflictOptions
+          );
+          return conflicts.map((conflict) => conflict.appointment.Id);
+        },
+        create: (appointment) => this.create(appointment),
+        update: (appointment) => this.update(appointment),
+        cancel: (id, reason) => this.cancel(id, reason),
+      },
+      options
+    );
+  }
 }
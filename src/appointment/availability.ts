@@ -0,0 +1,316 @@
+import { formatDate, parseDate } from '../common/query';
+import { eachDay, fromWallTime, toWallTime } from '../common/time-zone';
+import {
+  AppointmentSlot,
+  AppointmentStatus,
+  AvailabilityOptions,
+  AvailabilityQuery,
+  BusinessHours,
+  GetSettingsResponse,
+  ListAppointmentsRequest,
+  ScheduledAppointment,
+} from './interfaces';
+
+/** What the availability service needs from `AppointmentApi` */
+export interface AvailabilityBackend {
+  getSettings(): Promise<GetSettingsResponse>;
+  /** Every appointment matching the query, across all pages */
+  listAppointments(
+    params: ListAppointmentsRequest
+  ): Promise<ScheduledAppointment[]>;
+}
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  start: '09:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+export const BLOCKING_STATUSES: AppointmentStatus[] = [
+  'Confirmed',
+  'WaitingConfirmation',
+];
+
+const MINUTE = 60 * 1000;
+
+type Day = { year: number; month: number; day: number; weekday: number };
+
+type Service = GetSettingsResponse['Services'][number];
+
+type Practitioner = GetSettingsResponse['Practitioners'][number];
+
+/**
+ * Read an `HH:mm` time of day as minutes after midnight
+ * @param time The time, e.g. `09:30`
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!match || Number(match[2]) > 59 || minutes > 24 * 60) {
+    throw new Error(`${time} is not an HH:mm time`);
+  }
+  return minutes;
+}
+
+/**
+ * When an appointment starts and ends. `StartDateIso` and `EndDateIso` are
+ * read, so hydrated and plain appointments give the same result.
+ * @param appointment The appointment
+ */
+export function appointmentSpan(
+  appointment: Pick<
+    ScheduledAppointment,
+    'StartDateIso' | 'EndDateIso' | 'Duration'
+  >
+): { start: Date; end: Date } {
+  const start = new Date(appointment.StartDateIso);
+  const end = appointment.EndDateIso
+    ? new Date(appointment.EndDateIso)
+    : new Date(start.getTime() + (appointment.Duration ?? 0) * MINUTE);
+  return { start, end };
+}
+
+/**
+ * Whether a span of time falls within business hours, on a single open day
+ * @param start When the span starts
+ * @param end When the span ends
+ * @param hours The business hours
+ * @param timeZone The IANA time zone business hours are in. Defaults to the
+ * zone of the process.
+ */
+export function isWithinBusinessHours(
+  start: Date,
+  end: Date,
+  hours: BusinessHours = DEFAULT_BUSINESS_HOURS,
+  timeZone?: string
+): boolean {
+  const day = toWallTime(start, timeZone);
+  if (!hours.days.includes(day.weekday)) return false;
+  const [open, close] = openingTimes(day, hours, timeZone);
+  return start >= open && end <= close;
+}
+
+function openingTimes(
+  day: Omit<Day, 'weekday'>,
+  hours: BusinessHours,
+  timeZone?: string
+): [Date, Date] {
+  const at = (minutes: number) =>
+    fromWallTime(
+      {
+        year: day.year,
+        month: day.month,
+        day: day.day,
+        hour: Math.floor(minutes / 60),
+        minute: minutes % 60,
+      },
+      timeZone
+    );
+  return [at(parseTimeOfDay(hours.start)), at(parseTimeOfDay(hours.end))];
+}
+
+/** A query day as a calendar day in the time zone */
+function calendarDay(
+  value: string | Date,
+  name: string,
+  timeZone?: string
+): Omit<Day, 'weekday'> {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) throw new Error(`${name} is not a valid Date`);
+    return toWallTime(value, timeZone);
+  }
+  const date = parseDate(value);
+  if (!date) throw new Error(`${name} is not a yyyy-MM-dd date`);
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+  };
+}
+
+/**
+ * Finds the times practitioners are free to see a client, from business
+ * hours, service durations and the appointments already booked. Every
+ * practitioner is assumed to work all of business hours.
+ *
+ * Get one from `AppointmentApi.availability()`.
+ *
+ * ```ts
+ * const availability = api.Appointment.availability({
+ *   businessHours: { start: '08:00', end: '18:00', days: [1, 2, 3, 4, 5] },
+ *   timeZone: 'America/Chicago',
+ *   bufferMinutes: 10,
+ * });
+ *
+ * const slots = await availability.findSlots({
+ *   startDate: '2024-05-06',
+ *   endDate: '2024-05-10',
+ *   serviceId: 'svc-1',
+ * });
+ * ```
+ */
+export class AvailabilityService {
+  constructor(
+    private backend: AvailabilityBackend,
+    private options: AvailabilityOptions = {}
+  ) {}
+
+  /**
+   * Find the free slots in a range of days
+   * @param query The days, and the practitioners, service and location
+   * @returns The slots, earliest first
+   */
+  async findSlots(query: AvailabilityQuery): Promise<AppointmentSlot[]> {
+    const { timeZone, minimumNotice = 0 } = this.options;
+    const first = calendarDay(query.startDate, 'startDate', timeZone);
+    const last = query.endDate
+      ? calendarDay(query.endDate, 'endDate', timeZone)
+      : first;
+
+    const settings = await this.backend.getSettings();
+    const practitioners = this.practitioners(settings, query);
+    const services = this.services(settings, query);
+    if (!practitioners.length || !services.length) return [];
+
+    const busy = await this.busyTimes(first, last, practitioners);
+    const earliest = new Date(Date.now() + minimumNotice * MINUTE);
+    const slots: AppointmentSlot[] = [];
+
+    eachDay(first, last).forEach((day) => {
+      practitioners.forEach((practitioner) => {
+        services.forEach((service) => {
+          this.daySlots(day, service.Duration).forEach(([start, end]) => {
+            if (start < earliest) return;
+            const taken = (busy.get(practitioner.Id) ?? []).some(
+              (span) => span.start < end && span.end > start
+            );
+            if (taken) return;
+            slots.push({
+              dateTime: start,
+              endDateTime: end,
+              duration: service.Duration,
+              available: true,
+              practitionerId: practitioner.Id,
+              practitionerName: practitioner.CompleteName,
+              practitionerEmail: practitioner.Email,
+              serviceId: service.Id,
+              serviceName: service.Name,
+              locationId:
+                query.locationId === undefined
+                  ? undefined
+                  : String(query.locationId),
+            });
+          });
+        });
+      });
+    });
+
+    slots.sort(
+      (a, b) =>
+        a.dateTime.getTime() - b.dateTime.getTime() ||
+        (a.practitionerName ?? '').localeCompare(b.practitionerName ?? '')
+    );
+    return query.limit === undefined ? slots : slots.slice(0, query.limit);
+  }
+
+  private practitioners(
+    settings: GetSettingsResponse,
+    query: AvailabilityQuery
+  ): Practitioner[] {
+    const ids =
+      query.practitionerId === undefined
+        ? undefined
+        : ([] as string[]).concat(query.practitionerId);
+    const email = query.practitionerEmail?.trim().toLowerCase();
+    const locations = this.options.practitionerLocations ?? {};
+    const location =
+      query.locationId === undefined ? undefined : String(query.locationId);
+
+    if (
+      location !== undefined &&
+      !settings.Locations.some(({ Id }) => String(Id) === location)
+    ) {
+      throw new Error(`No location with id ${location}`);
+    }
+
+    return settings.Practitioners.filter(
+      (practitioner) =>
+        (!ids || ids.includes(practitioner.Id)) &&
+        (!email || practitioner.Email?.toLowerCase() === email) &&
+        (location === undefined ||
+          !locations[practitioner.Id] ||
+          locations[practitioner.Id].map(String).includes(location))
+    );
+  }
+
+  private services(
+    settings: GetSettingsResponse,
+    query: AvailabilityQuery
+  ): (Partial<Service> & Pick<Service, 'Duration'>)[] {
+    if (query.serviceId !== undefined) {
+      const service = settings.Services.find(
+        ({ Id }) => Id === query.serviceId
+      );
+      if (!service) throw new Error(`No service with id ${query.serviceId}`);
+      return [service];
+    }
+    if (query.duration) return [{ Duration: query.duration }];
+    return settings.Services.filter(({ Duration }) => Duration > 0);
+  }
+
+  /** The start and end of every slot of a duration on an open day */
+  private daySlots(day: Day, duration: number): [Date, Date][] {
+    const { businessHours = DEFAULT_BUSINESS_HOURS, timeZone } = this.options;
+    if (!businessHours.days.includes(day.weekday)) return [];
+
+    const [open, close] = openingTimes(day, businessHours, timeZone);
+    const step = (this.options.slotInterval || duration) * MINUTE;
+    const slots: [Date, Date][] = [];
+    for (
+      let start = open.getTime();
+      start + duration * MINUTE <= close.getTime();
+      start += step
+    ) {
+      slots.push([new Date(start), new Date(start + duration * MINUTE)]);
+    }
+    return slots;
+  }
+
+  /**
+   * The times each practitioner is booked, widened by the buffer. A day is
+   * added on both sides of the range so time zones and buffers are covered.
+   */
+  private async busyTimes(
+    first: Omit<Day, 'weekday'>,
+    last: Omit<Day, 'weekday'>,
+    practitioners: Practitioner[]
+  ): Promise<Map<string, { start: Date; end: Date }[]>> {
+    const {
+      bufferMinutes = 0,
+      blockingStatuses = BLOCKING_STATUSES,
+    } = this.options;
+    const appointments = await this.backend.listAppointments({
+      startDate: formatDate(
+        new Date(first.year, first.month - 1, first.day - 1)
+      ),
+      endDate: formatDate(new Date(last.year, last.month - 1, last.day + 1)),
+      practitionerEmail:
+        practitioners.length === 1 ? practitioners[0].Email : undefined,
+    });
+
+    const busy = new Map<string, { start: Date; end: Date }[]>();
+    appointments
+      .filter(({ Status }) => blockingStatuses.includes(Status))
+      .forEach((appointment) => {
+        const { start, end } = appointmentSpan(appointment);
+        if (!busy.has(appointment.PractitionerId)) {
+          busy.set(appointment.PractitionerId, []);
+        }
+        busy.get(appointment.PractitionerId).push({
+          start: new Date(start.getTime() - bufferMinutes * MINUTE),
+          end: new Date(end.getTime() + bufferMinutes * MINUTE),
+        });
+      });
+    return busy;
+  }
+}
@@ -0,0 +1,79 @@
+import { appointmentSpan, BLOCKING_STATUSES } from './availability';
+import {
+  AppointmentConflict,
+  ConflictOptions,
+  ConflictReason,
+  ScheduledAppointment,
+} from './interfaces';
+
+const MINUTE = 60 * 1000;
+
+/** The appointment being booked, or moved */
+export interface Booking {
+  start: Date;
+  end: Date;
+  practitionerId: string;
+  clientId: number;
+  serviceId?: string;
+  /** The appointment being moved, which cannot conflict with itself */
+  appointmentId?: string;
+}
+
+/**
+ * Find the existing appointments a booking overlaps. Appointments of the same
+ * practitioner always count; the client's appointments with others count
+ * when `checkClient` is set.
+ * @param booking The appointment being booked
+ * @param appointments Appointments around the time of the booking
+ * @param options Buffers, the services allowed to overlap and the statuses
+ * that count
+ * @returns The conflicts, earliest first
+ */
+export function findConflicts<A extends ScheduledAppointment>(
+  booking: Booking,
+  appointments: A[],
+  options: ConflictOptions = {}
+): AppointmentConflict<A>[] {
+  const {
+    checkClient = false,
+    bufferMinutes = 0,
+    allowOverlap = [],
+    blockingStatuses = BLOCKING_STATUSES,
+  } = options;
+  if (booking.serviceId && allowOverlap.includes(booking.serviceId)) return [];
+
+  const start = booking.start.getTime() - bufferMinutes * MINUTE;
+  const end = booking.end.getTime() + bufferMinutes * MINUTE;
+  const conflicts: AppointmentConflict<A>[] = [];
+
+  appointments.forEach((appointment) => {
+    if (appointment.Id === booking.appointmentId) return;
+    if (!blockingStatuses.includes(appointment.Status)) return;
+    if (allowOverlap.includes(appointment.ServiceId)) return;
+
+    const reasons: ConflictReason[] = [];
+    if (appointment.PractitionerId === booking.practitionerId) {
+      reasons.push('practitioner');
+    }
+    if (checkClient && appointment.ClientId === booking.clientId) {
+      reasons.push('client');
+    }
+    if (!reasons.length) return;
+
+    const span = appointmentSpan(appointment);
+    const overlap =
+      Math.min(end, span.end.getTime()) - Math.max(start, span.start.getTime());
+    if (overlap <= 0) return;
+    conflicts.push({
+      appointment,
+      reasons,
+      overlapMinutes: Math.round(overlap / MINUTE),
+    });
+  });
+
+  return conflicts.sort(
+    (a, b) =>
+      appointmentSpan(a.appointment).start.getTime() -
+      appointmentSpan(b.appointment).start.getTime()
+  );
+}
@@ -0,0 +1,141 @@
+import {
+  buildAppointment,
+  buildClient,
+  buildLocation,
+  buildPractitioner,
+  buildService,
+  toUnix,
+} from '../testing/builders';
+import {
+  appointmentsToIcs,
+  calendarFeedToken,
+  initials,
+  verifyCalendarFeedToken,
+} from './ics';
+
+const client = buildClient({
+  FirstName: 'Jane',
+  LastName: 'Doe-Smith',
+  Name: 'Jane Doe-Smith',
+  Email: 'jane@example.com',
+});
+const appointment = buildAppointment(
+  { StartDate: toUnix('2024-06-03T10:00:00Z'), Duration: 50 },
+  {
+    client,
+    practitioner: buildPractitioner({
+      FirstName: 'Sam',
+      LastName: 'Carter',
+      Email: 'sam@example.com',
+    }),
+    service: buildService({ Name: 'Therapy, 50 min' }),
+    location: buildLocation({ Name: 'Main Office' }),
+  }
+);
+
+/** The unfolded content lines of a calendar */
+function lines(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('appointmentsToIcs', () => {
+  it('writes one event per appointment', () => {
+    const ics = appointmentsToIcs([appointment], { calendarName: 'Sam' });
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines(ics)).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VCALENDAR',
+        'X-WR-CALNAME:Sam',
+        `UID:${appointment.Id}@intakeq`,
+        'DTSTART:20240603T100000Z',
+        'DTEND:20240603T105000Z',
+        'STATUS:CONFIRMED',
+        'SUMMARY:Jane Doe-Smith – Therapy\\, 50 min',
+        'LOCATION:Main Office',
+        'ORGANIZER;CN="Sam Carter":mailto:sam@example.com',
+      ])
+    );
+    expect(ics).toContain('Email: jane@example.com');
+  });
+
+  it('keeps canceled appointments as cancelled events', () => {
+    const canceled = { ...appointment, Status: 'Canceled' as const };
+
+    expect(lines(appointmentsToIcs([canceled]))).toContain('STATUS:CANCELLED');
+  });
+
+  it('leaves out client details with minimalPhi', () => {
+    const ics = appointmentsToIcs([appointment], { minimalPhi: true });
+
+    expect(lines(ics)).toContain('SUMMARY:J.D.S.');
+    expect(ics).not.toContain('Jane');
+    expect(ics).not.toContain('jane@example.com');
+    expect(ics).not.toContain('DESCRIPTION');
+  });
+
+  it('leaves out the telehealth start URL with minimalPhi', () => {
+    const telehealth = {
+      ...appointment,
+      TelehealthInfo: {
+        Id: 't1',
+        StartUrl: 'https://intakeq.com/telehealth/start/abc',
+        Invitation: '',
+        Provider: 'IntakeQ' as const,
+        InvitationCode: '',
+      },
+    };
+
+    const full = lines(appointmentsToIcs([telehealth]));
+    const minimal = lines(
+      appointmentsToIcs([telehealth], { minimalPhi: true })
+    );
+
+    expect(full).toContain('URL:https://intakeq.com/telehealth/start/abc');
+    expect(minimal).toContain('LOCATION:Main Office');
+    expect(minimal.join('\n')).not.toContain('telehealth/start');
+  });
+
+  it('folds long lines without splitting characters', () => {
+    const long = {
+      ...appointment,
+      ClientName: 'Zoë '.repeat(30).trim(),
+    };
+
+    const ics = appointmentsToIcs([long]);
+
+    ics.split('\r\n').forEach((line) => {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    });
+    expect(lines(ics).find((line) => line.startsWith('SUMMARY:'))).toBe(
+      `SUMMARY:${long.ClientName} – Therapy\\, 50 min`
+    );
+  });
+});
+
+describe('initials', () => {
+  it('takes the first letter of each part of a name', () => {
+    expect(initials('jane doe-smith')).toBe('J.D.S.');
+    expect(initials('')).toBe('');
+  });
+});
+
+describe('calendar feed tokens', () => {
+  it('accepts the token for the practitioner and secret only', () => {
+    const token = calendarFeedToken('Sam@Example.com ', 'secret');
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyCalendarFeedToken('sam@example.com', token, 'secret')).toBe(
+      true
+    );
+    expect(verifyCalendarFeedToken('alex@example.com', token, 'secret')).toBe(
+      false
+    );
+    expect(verifyCalendarFeedToken('sam@example.com', token, 'other')).toBe(
+      false
+    );
+    expect(
+      verifyCalendarFeedToken('sam@example.com', undefined, 'secret')
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { timestampToDate } from '../common/hydration';
+import { appointmentSpan } from './availability';
+import {
+  Appointment,
+  AppointmentStatus,
+  HydratedAppointment,
+  IcsOptions,
+} from './interfaces';
+
+const PRODUCT_ID = '-//lifebac//intakeq//EN';
+
+/** How long a content line may be before it is folded, in octets */
+const LINE_LIMIT = 75;
+
+const EVENT_STATUS: Record<AppointmentStatus, string> = {
+  Confirmed: 'CONFIRMED',
+  WaitingConfirmation: 'TENTATIVE',
+  Declined: 'CANCELLED',
+  Canceled: 'CANCELLED',
+  Missed: 'CONFIRMED',
+};
+
+function icsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Split a content line into 75 octet lines, without splitting a character */
+function fold(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + size > LINE_LIMIT) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+/**
+ * The initials of a name, e.g. `J.D.` for Jane Doe
+ * @param name The full name
+ */
+export function initials(name: string): string {
+  return (name ?? '')
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map((part) => `${part[0].toUpperCase()}.`)
+    .join('');
+}
+
+function eventLines(
+  appointment: Appointment | HydratedAppointment,
+  stamp: string,
+  minimalPhi: boolean
+): string[] {
+  const { start, end } = appointmentSpan(appointment);
+  const created = timestampToDate(appointment.DateCreated);
+  // The start URL lets anyone who has it join the session
+  const telehealthUrl = minimalPhi
+    ? undefined
+    : appointment.TelehealthInfo?.StartUrl;
+  const client = minimalPhi
+    ? initials(appointment.ClientName) || 'Client'
+    : appointment.ClientName;
+  const summary = minimalPhi
+    ? client
+    : [client, appointment.ServiceName].filter(Boolean).join(' – ');
+  const description = minimalPhi
+    ? []
+    : [
+        appointment.ServiceName && `Service: ${appointment.ServiceName}`,
+        appointment.ClientEmail && `Email: ${appointment.ClientEmail}`,
+        appointment.ClientPhone && `Phone: ${appointment.ClientPhone}`,
+        telehealthUrl && `Telehealth: ${telehealthUrl}`,
+      ].filter(Boolean);
+  const location = telehealthUrl || appointment.LocationName;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${icsText(appointment.Id)}@intakeq`,
+    `DTSTAMP:${stamp}`,
+    created && `CREATED:${icsDate(created)}`,
+    `DTSTART:${icsDate(start)}`,
+    `DTEND:${icsDate(end)}`,
+    `STATUS:${EVENT_STATUS[appointment.Status] ?? 'CONFIRMED'}`,
+    `SUMMARY:${icsText(summary)}`,
+    description.length && `DESCRIPTION:${icsText(description.join('\n'))}`,
+    location && `LOCATION:${icsText(location)}`,
+    telehealthUrl && `URL:${telehealthUrl}`,
+    appointment.PractitionerEmail &&
+      `ORGANIZER;CN="${(appointment.PractitionerName ?? '').replace(
+        /"/g,
+        ''
+      )}":mailto:${appointment.PractitionerEmail}`,
+    'END:VEVENT',
+  ].filter(Boolean) as string[];
+}
+
+/**
+ * Write appointments as an iCalendar (RFC 5545) calendar, one event each.
+ * Telehealth appointments get their start URL as the event's location and
+ * URL, unless `minimalPhi` is set. Canceled and declined appointments are kept, as cancelled events, so
+ * calendar apps remove them.
+ * @param appointments The appointments, hydrated or not
+ * @param options The calendar name, and whether to leave out client details
+ * @returns The calendar, with CRLF line endings
+ */
+export function appointmentsToIcs(
+  appointments: (Appointment | HydratedAppointment)[],
+  options: IcsOptions = {}
+): string {
+  const { calendarName, minimalPhi = false } = options;
+  const stamp = icsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(calendarName ? [`X-WR-CALNAME:${icsText(calendarName)}`] : []),
+    ...appointments.flatMap((appointment) =>
+      eventLines(appointment, stamp, minimalPhi)
+    ),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+/**
+ * The token that gives access to a practitioner's calendar feed. It is an
+ * HMAC of the practitioner's email, so it need not be stored, and it changes
+ * for everyone when the secret does.
+ * @param practitionerEmail The practitioner's email
+ * @param secret The secret the feed is served with
+ */
+export function calendarFeedToken(
+  practitionerEmail: string,
+  secret: string
+): string {
+  return createHmac('sha256', secret)
+    .update(practitionerEmail.trim().toLowerCase())
+    .digest('hex');
+}
+
+/**
+ * Check the token given for a practitioner's calendar feed
+ * @param practitionerEmail The practitioner's email
+ * @param token The token given
+ * @param secret The secret the feed is served with
+ */
+export function verifyCalendarFeedToken(
+  practitionerEmail: string,
+  token: string | undefined,
+  secret: string
+): boolean {
+  const expected = Buffer.from(calendarFeedToken(practitionerEmail, secret));
+  const received = Buffer.from(token ?? '');
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -1,3 +1,6 @@
+import { Hydrated } from '../common/interfaces';
+import { RequestOptions } from '../http/interfaces';
+
 export type AppointmentStatus =
   | 'Confirmed'
   | 'WaitingConfirmation'
@@ -90,6 +93,11 @@ export interface Appointment {
   };
 }
 
+export type HydratedAppointment = Hydrated<
+  Appointment,
+  'StartDate' | 'EndDate' | 'DateCreated'
+>;
+
 export interface ListAppointmentsRequest {
   /**
    * A string used to search the client by name or email. Partial matches will
@@ -100,14 +108,16 @@ export interface ListAppointmentsRequest {
   client?: string;
   /**
    * Return only appointments that are scheduled for after the specified date.
-   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a
+   * `Date`.
    */
-  startDate?: string;
+  startDate?: string | Date;
   /**
    * Return only appointments that are scheduled for before the specified date.
-   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a
+   * `Date`.
    */
-  endDate?: string;
+  endDate?: string | Date;
   /**
    * Possible values are "Confirmed", "Canceled", "WaitingConfirmation",
    * "Declined" and "Missed".
@@ -187,3 +197,296 @@ export interface AppointmentReceived {
   ActionPerformedByClient: boolean;
   Appointment: Appointment; //refer to the appointment object above
 }
+
+/** An appointment as far as scheduling is concerned, hydrated or not */
+export type ScheduledAppointment = Pick<
+  Appointment,
+  | 'Id'
+  | 'Status'
+  | 'ClientId'
+  | 'PractitionerId'
+  | 'ServiceId'
+  | 'LocationId'
+  | 'StartDateIso'
+  | 'EndDateIso'
+  | 'Duration'
+>;
+
+/** When practitioners can be booked, in the availability time zone */
+export interface BusinessHours {
+  /** HH:mm, e.g. "09:00" */
+  start: string;
+  /** HH:mm, e.g. "17:00" */
+  end: string;
+  /** The days open, 0 for Sunday to 6 for Saturday */
+  days: number[];
+}
+
+export interface AvailabilityOptions {
+  /** Defaults to 09:00 to 17:00, Monday to Friday */
+  businessHours?: BusinessHours;
+  /**
+   * The IANA time zone business hours and days are in, e.g.
+   * `America/New_York`. Defaults to the zone of the process.
+   */
+  timeZone?: string;
+  /** Minutes kept free before and after every appointment. Defaults to 0 */
+  bufferMinutes?: number;
+  /** Minutes between the starts of slots. Defaults to the slot duration */
+  slotInterval?: number;
+  /** How many minutes ahead a slot must start. Defaults to 0 */
+  minimumNotice?: number;
+  /**
+   * The locations each practitioner works at, by practitioner id. Used when
+   * filtering by location; practitioners left out work at every location.
+   */
+  practitionerLocations?: Record<string, string[]>;
+  /**
+   * The statuses of appointments that take up a practitioner's time. Defaults
+   * to Confirmed and WaitingConfirmation.
+   */
+  blockingStatuses?: AppointmentStatus[];
+}
+
+export interface AvailabilityQuery {
+  /** The first day, yyyy-MM-dd or a `Date`, in the availability time zone */
+  startDate: string | Date;
+  /** The last day. Defaults to `startDate` */
+  endDate?: string | Date;
+  /** Only these practitioners. Defaults to every practitioner */
+  practitionerId?: string | string[];
+  /** Only the practitioner with this email */
+  practitionerEmail?: string;
+  /**
+   * Slots long enough for this service. Without a service or `duration`,
+   * slots are found for every service.
+   */
+  serviceId?: string;
+  /** Minutes, for slots that are not for a particular service */
+  duration?: number;
+  /** Only practitioners working at this location */
+  locationId?: string | number;
+  /** Stop after this many slots, the earliest first */
+  limit?: number;
+}
+
+export interface AppointmentSlot {
+  /** Date and time of the slot */
+  dateTime: Date;
+  /** When the slot ends */
+  endDateTime: Date;
+  /** Duration in minutes */
+  duration: number;
+  /** Whether the slot is available */
+  available: boolean;
+  /** Practitioner ID for this slot */
+  practitionerId: string;
+  practitionerName?: string;
+  practitionerEmail?: string;
+  /** Service ID for this slot */
+  serviceId?: string;
+  serviceName?: string;
+  /** The location asked for */
+  locationId?: string;
+}
+
+/**
+ * * practitioner – The practitioner is booked at the same time.
+ * * client – The client is booked at the same time, with any practitioner.
+ */
+export type ConflictReason = 'practitioner' | 'client';
+
+export interface AppointmentConflict<A = Appointment> {
+  /** The existing appointment that is overlapped */
+  appointment: A;
+  reasons: ConflictReason[];
+  /** How many minutes the two appointments overlap, buffers included */
+  overlapMinutes: number;
+}
+
+export interface ConflictCheckResult<A = Appointment> {
+  /** When the booking starts */
+  start: Date;
+  /** When the booking ends */
+  end: Date;
+  /** The overlapped appointments, earliest first. Empty when there are none */
+  conflicts: AppointmentConflict<A>[];
+}
+
+export interface ConflictOptions {
+  /** Also look for the client's appointments with other practitioners */
+  checkClient?: boolean;
+  /** Minutes kept free before and after every appointment. Defaults to 0 */
+  bufferMinutes?: number;
+  /**
+   * Services that may overlap other appointments, by service id, e.g. group
+   * sessions. An overlap is allowed when either appointment is for one.
+   */
+  allowOverlap?: string[];
+  /**
+   * The statuses of appointments that cannot be overlapped. Defaults to
+   * Confirmed and WaitingConfirmation.
+   */
+  blockingStatuses?: AppointmentStatus[];
+}
+
+export interface SaveAppointmentOptions<A = Appointment>
+  extends RequestOptions,
+    ConflictOptions {
+  /**
+   * Look for appointments the booking overlaps before saving.
+   * * warn – Pass the conflicts to `onConflicts` and save anyway.
+   * * throw – Throw a `SchedulingConflictError` instead of saving.
+   * Off by default.
+   */
+  conflictCheck?: 'warn' | 'throw';
+  /** Called with the conflicts. Without it, warn mode drops them */
+  onConflicts?: (conflicts: AppointmentConflict<A>[]) => void;
+}
+
+export interface RescheduleOptions<A = Appointment>
+  extends Omit<SaveAppointmentOptions<A>, 'conflictCheck'> {
+  /**
+   * Move the appointment to another practitioner. IntakeQ cannot change the
+   * practitioner of an appointment, so it is booked again with them and the
+   * original is canceled.
+   */
+  practitionerId?: string;
+  /**
+   * The hours the new time must fall within, or `false` to allow any time.
+   * Defaults to 9:00 to 17:00, Monday to Friday
+   */
+  businessHours?: BusinessHours | false;
+  /**
+   * The IANA time zone business hours are in, e.g. `America/New_York`.
+   * Defaults to the zone of the process.
+   */
+  timeZone?: string;
+  /**
+   * Look for appointments the new time overlaps.
+   * * throw – Throw a `SchedulingConflictError` instead of moving.
+   * * warn – Pass the conflicts to `onConflicts` and move anyway.
+   * * false – Do not look.
+   * Defaults to throw.
+   */
+  conflictCheck?: 'warn' | 'throw' | false;
+  /**
+   * Email the client about the new time. Only Confirmed appointments can be
+   * emailed. Defaults to false
+   */
+  notifyClient?: boolean;
+  /** How the client is reminded of a rebooked appointment. Defaults to Email */
+  reminderType?: AppointmentReminderType;
+  /**
+   * The reason given when the original is canceled for another practitioner.
+   * Defaults to `Rescheduled`
+   */
+  cancelReason?: string;
+}
+
+export interface RescheduleResult<A = Appointment> {
+  /** The appointment as it was */
+  before: A;
+  /** The moved appointment, or the new one when it was booked again */
+  after: A;
+  /** Whether the appointment was booked again with another practitioner */
+  recreated: boolean;
+}
+
+/**
+ * How an appointment repeats, like an iCalendar RRULE. Give a `count`, an
+ * `until` date or both.
+ */
+export interface Recurrence {
+  /**
+   * * weekly – On the weekday of the first appointment.
+   * * monthly – On the day of the month of the first appointment. Months
+   *   without that day are left out.
+   */
+  frequency: 'weekly' | 'monthly';
+  /** Every how many weeks or months, e.g. 2 for biweekly. Defaults to 1 */
+  interval?: number;
+  /** How many occurrences, the first included */
+  count?: number;
+  /** The last day an occurrence may fall on. yyyy-MM-dd, or a `Date` */
+  until?: string | Date;
+}
+
+/**
+ * * scheduled – The appointment was created.
+ * * holiday – The occurrence fell on a holiday and was not booked.
+ * * conflict – The occurrence overlapped other appointments and was not
+ *   booked.
+ * * failed – IntakeQ rejected the appointment, see `error`.
+ * * canceled – The appointment was canceled with the series.
+ */
+export type SeriesOccurrenceStatus =
+  | 'scheduled'
+  | 'holiday'
+  | 'conflict'
+  | 'failed'
+  | 'canceled';
+
+export interface SeriesOccurrence {
+  /** The position of the occurrence in the series, from 0 */
+  index: number;
+  /** When the occurrence starts, as an ISO date */
+  start: string;
+  status: SeriesOccurrenceStatus;
+  appointmentId?: string;
+  /** The ids of the appointments a `conflict` occurrence overlaps */
+  conflicts?: string[];
+  /** Why the last change to the occurrence failed */
+  error?: string;
+}
+
+export interface AppointmentSeries {
+  /** A local id; IntakeQ knows nothing of series */
+  id: string;
+  /** The request every appointment is created from, with its first start */
+  appointment: CreateAppointmentRequest;
+  recurrence: Recurrence;
+  /** The time zone the series keeps its time of day in */
+  timeZone?: string;
+  /** ISO date */
+  createdAt: string;
+  occurrences: SeriesOccurrence[];
+}
+
+/** Where series are kept, so they can be changed later */
+export interface SeriesStore {
+  get(
+    id: string
+  ): AppointmentSeries | undefined | Promise<AppointmentSeries | undefined>;
+  save(series: AppointmentSeries): void | Promise<void>;
+  list(): AppointmentSeries[] | Promise<AppointmentSeries[]>;
+}
+
+export interface SeriesOptions extends ConflictOptions {
+  /** Defaults to an in-memory store, which loses series on restart */
+  store?: SeriesStore;
+  /**
+   * The IANA time zone occurrences keep their time of day in across
+   * daylight saving changes, e.g. `America/New_York`. Defaults to the zone
+   * of the process.
+   */
+  timeZone?: string;
+  /** Days no occurrence is booked on. yyyy-MM-dd, or `Date`s */
+  holidays?: (string | Date)[];
+  /**
+   * Book occurrences that overlap other appointments instead of skipping
+   * them. Defaults to false
+   */
+  allowConflicts?: boolean;
+}
+
+export interface IcsOptions {
+  /** Shown as the calendar's name by most calendar apps */
+  calendarName?: string;
+  /**
+   * Leave out everything about the client but their initials, and the
+   * telehealth start URL, for calendars kept outside the practice, e.g. on a
+   * personal phone. Defaults to false
+   */
+  minimalPhi?: boolean;
+}
@@ -0,0 +1,92 @@
+import { s } from '../common/schema';
+import {
+  Appointment,
+  AppointmentReceived,
+  GetSettingsResponse,
+} from './interfaces';
+
+export const appointmentSchema = s.object<Appointment>({
+  Id: s.string(),
+  ClientName: s.string(),
+  ClientEmail: s.string(),
+  ClientPhone: s.string(),
+  ClientId: s.number(),
+  Status: s.enum(
+    'Confirmed',
+    'WaitingConfirmation',
+    'Declined',
+    'Canceled',
+    'Missed'
+  ),
+  StartDateIso: s.string(),
+  EndDateIso: s.string(),
+  StartDateLocal: s.string(),
+  EndDateLocal: s.string(),
+  StartDateLocalFormatted: s.string(),
+  StartDate: s.number(),
+  EndDate: s.number(),
+  Duration: s.number(),
+  ServiceName: s.string(),
+  ServiceId: s.string(),
+  LocationName: s.string(),
+  LocationId: s.number(),
+  Price: s.number(),
+  PractitionerEmail: s.string(),
+  PractitionerName: s.string(),
+  PractitionerId: s.string(),
+  DateCreated: s.number(),
+  IntakeId: s.string(),
+  BookedByClient: s.boolean(),
+  CreatedBy: s.string(),
+  AppointmentPackageId: s.string(),
+  AppointmentPackageName: s.string(),
+  TelehealthInfo: s.nullable(
+    s.object<Appointment['TelehealthInfo']>({
+      Id: s.string(),
+      StartUrl: s.string(),
+      Invitation: s.string(),
+      Provider: s.enum('IntakeQ', 'Zoom'),
+      InvitationCode: s.string(),
+    })
+  ),
+});
+
+export const getSettingsResponseSchema = s.object<GetSettingsResponse>({
+  Locations: s.array(
+    s.object<GetSettingsResponse['Locations'][number]>({
+      Id: s.string(),
+      Name: s.string(),
+      Address: s.string(),
+    })
+  ),
+  Services: s.array(
+    s.object<GetSettingsResponse['Services'][number]>({
+      Id: s.string(),
+      Name: s.string(),
+      Duration: s.number(),
+      Price: s.number(),
+    })
+  ),
+  Practitioners: s.array(
+    s.object<GetSettingsResponse['Practitioners'][number]>({
+      Id: s.string(),
+      CompleteName: s.string(),
+      FirstName: s.string(),
+      LastName: s.string(),
+      Email: s.string(),
+    })
+  ),
+});
+
+export const appointmentReceivedSchema = s.object<AppointmentReceived>({
+  EventType: s.enum(
+    'AppointmentCreated',
+    'AppointmentConfirmed',
+    'AppointmentRescheduled',
+    'AppointmentCanceled',
+    'AppointmentDeclined',
+    'AppointmentMissed'
+  ),
+  ActionPerformedByClient: s.boolean(),
+  Appointment: appointmentSchema,
+});
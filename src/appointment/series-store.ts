@@ -0,0 +1,47 @@
+import { JsonFileCollection } from '../common/json-file';
+import { AppointmentSeries, SeriesStore } from './interfaces';
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** An in-memory `SeriesStore`. Series are lost on restart. */
+export class MemorySeriesStore implements SeriesStore {
+  private series = new Map<string, AppointmentSeries>();
+
+  get(id: string): AppointmentSeries | undefined {
+    return clone(this.series.get(id));
+  }
+
+  save(series: AppointmentSeries): void {
+    this.series.set(series.id, clone(series));
+  }
+
+  list(): AppointmentSeries[] {
+    return Array.from(this.series.values()).map(clone);
+  }
+}
+
+/** A `SeriesStore` kept in a JSON file, for a single process */
+export class FileSeriesStore implements SeriesStore {
+  private series: JsonFileCollection<AppointmentSeries>;
+
+  /**
+   * @param file The JSON file to use. It is created on the first save.
+   */
+  constructor(file: string) {
+    this.series = new JsonFileCollection(file, (series) => series.id);
+  }
+
+  get(id: string): Promise<AppointmentSeries | undefined> {
+    return this.series.get(id);
+  }
+
+  save(series: AppointmentSeries): Promise<void> {
+    return this.series.save(series);
+  }
+
+  list(): Promise<AppointmentSeries[]> {
+    return this.series.values();
+  }
+}
@@ -0,0 +1,197 @@
+import { CreateAppointmentRequest } from './interfaces';
+import {
+  AppointmentSeriesService,
+  expandRecurrence,
+  parseRecurrence,
+  SeriesBackend,
+} from './series';
+
+const timeZone = 'America/New_York';
+
+function isoStrings(dates: Date[]): string[] {
+  return dates.map((date) => date.toISOString());
+}
+
+function stubBackend(conflicts: Record<string, string[]> = {}) {
+  let nextId = 1;
+  const backend = {
+    checkConflicts: jest.fn(async (appointment: { UtcDateTime?: number }) => {
+      const start = new Date(appointment.UtcDateTime * 1000).toISOString();
+      return conflicts[start] ?? [];
+    }),
+    create: jest.fn(async () => ({ Id: `appt-${nextId++}` })),
+    update: jest.fn(async () => undefined),
+    cancel: jest.fn(async () => undefined),
+  };
+  return backend as typeof backend & SeriesBackend;
+}
+
+const appointment: CreateAppointmentRequest = {
+  PractitionerId: 'practitioner-1',
+  ClientId: 1,
+  LocationId: 1,
+  ServiceId: 'service-1',
+  Status: 'Confirmed',
+  UtcDateTime: Date.parse('2024-03-04T15:00:00Z') / 1000,
+  SendClientEmailNotification: false,
+  ReminderType: 'OptOut',
+};
+
+describe('parseRecurrence', () => {
+  it('reads an RRULE', () => {
+    expect(parseRecurrence('RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=10')).toEqual({
+      frequency: 'weekly',
+      interval: 2,
+      count: 10,
+    });
+    expect(parseRecurrence('FREQ=MONTHLY;UNTIL=20241231T000000Z')).toEqual({
+      frequency: 'monthly',
+      until: '2024-12-31',
+    });
+  });
+
+  it('rejects rules it cannot expand', () => {
+    expect(() => parseRecurrence('FREQ=DAILY;COUNT=2')).toThrow(
+      'FREQ=DAILY is not supported'
+    );
+    expect(() => parseRecurrence('FREQ=WEEKLY;BYDAY=MO')).toThrow(
+      'BYDAY is not supported'
+    );
+    expect(() => parseRecurrence('COUNT=2')).toThrow('no FREQ');
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('keeps the time of day across a daylight saving change', () => {
+    const starts = expandRecurrence(
+      new Date('2024-03-03T15:00:00Z'),
+      'FREQ=WEEKLY;COUNT=3',
+      timeZone
+    );
+
+    expect(isoStrings(starts)).toEqual([
+      '2024-03-03T15:00:00.000Z',
+      '2024-03-10T14:00:00.000Z',
+      '2024-03-17T14:00:00.000Z',
+    ]);
+  });
+
+  it('stops at the until date, including it', () => {
+    const starts = expandRecurrence(
+      new Date('2024-01-01T15:00:00Z'),
+      { frequency: 'weekly', interval: 2, until: '2024-01-29' },
+      timeZone
+    );
+
+    expect(isoStrings(starts)).toEqual([
+      '2024-01-01T15:00:00.000Z',
+      '2024-01-15T15:00:00.000Z',
+      '2024-01-29T15:00:00.000Z',
+    ]);
+  });
+
+  it('leaves out months without the day', () => {
+    const starts = expandRecurrence(
+      new Date('2024-01-31T15:00:00Z'),
+      'FREQ=MONTHLY;COUNT=3',
+      timeZone
+    );
+
+    expect(isoStrings(starts)).toEqual([
+      '2024-01-31T15:00:00.000Z',
+      '2024-03-31T14:00:00.000Z',
+      '2024-05-31T14:00:00.000Z',
+    ]);
+  });
+
+  it('needs a count or an until date', () => {
+    expect(() =>
+      expandRecurrence(new Date(), { frequency: 'weekly' }, timeZone)
+    ).toThrow('needs a count or an until date');
+  });
+});
+
+describe('AppointmentSeriesService', () => {
+  it('books each occurrence, skipping holidays and conflicts', async () => {
+    const backend = stubBackend({
+      '2024-03-18T14:00:00.000Z': ['other-appt'],
+    });
+    backend.create
+      .mockResolvedValueOnce({ Id: 'appt-1' })
+      .mockRejectedValueOnce(new Error('Practitioner unavailable'));
+    const service = new AppointmentSeriesService(backend, {
+      timeZone,
+      holidays: ['2024-03-11'],
+    });
+
+    const series = await service.create(appointment, 'FREQ=WEEKLY;COUNT=4');
+
+    expect(series.occurrences.map((occurrence) => occurrence.status)).toEqual([
+      'scheduled',
+      'holiday',
+      'conflict',
+      'failed',
+    ]);
+    expect(series.occurrences[0].appointmentId).toBe('appt-1');
+    expect(series.occurrences[2].conflicts).toEqual(['other-appt']);
+    expect(series.occurrences[3].error).toBe('Practitioner unavailable');
+    expect(await service.get(series.id)).toEqual(series);
+  });
+
+  it('previews occurrences without booking them', async () => {
+    const backend = stubBackend();
+    const service = new AppointmentSeriesService(backend, { timeZone });
+
+    const occurrences = await service.preview(appointment, {
+      frequency: 'weekly',
+      count: 2,
+    });
+
+    expect(occurrences).toHaveLength(2);
+    expect(backend.create).not.toHaveBeenCalled();
+  });
+
+  it('cancels from an occurrence onwards', async () => {
+    const backend = stubBackend();
+    const service = new AppointmentSeriesService(backend, { timeZone });
+    const created = await service.create(appointment, 'FREQ=WEEKLY;COUNT=3');
+
+    const series = await service.cancel(created.id, {
+      fromAppointmentId: 'appt-2',
+      reason: 'Moving away',
+    });
+
+    expect(series.occurrences.map((occurrence) => occurrence.status)).toEqual([
+      'scheduled',
+      'canceled',
+      'canceled',
+    ]);
+    expect(backend.cancel).toHaveBeenCalledWith('appt-2', 'Moving away');
+    expect(backend.cancel).toHaveBeenCalledWith('appt-3', 'Moving away');
+  });
+
+  it('moves occurrences by the same number of days', async () => {
+    const backend = stubBackend();
+    const service = new AppointmentSeriesService(backend, {
+      timeZone,
+      holidays: ['2024-03-20'],
+    });
+    const created = await service.create(appointment, 'FREQ=WEEKLY;COUNT=3');
+
+    // Monday 10:00 to Wednesday 09:30, from the second occurrence
+    const series = await service.reschedule(
+      created.id,
+      'appt-2',
+      new Date('2024-03-13T13:30:00Z')
+    );
+
+    expect(series.occurrences.map((occurrence) => occurrence.start)).toEqual([
+      '2024-03-04T15:00:00.000Z',
+      '2024-03-13T13:30:00.000Z',
+      '2024-03-20T13:30:00.000Z',
+    ]);
+    expect(series.occurrences[2].status).toBe('holiday');
+    expect(backend.update).toHaveBeenCalledTimes(1);
+    expect(backend.cancel).toHaveBeenCalledWith('appt-3', 'Holiday');
+  });
+});
@@ -0,0 +1,419 @@
+import { randomUUID } from 'crypto';
+import { formatDate, parseDate } from '../common/query';
+import { fromWallTime, toWallTime, WallTime } from '../common/time-zone';
+import {
+  AppointmentSeries,
+  ConflictOptions,
+  CreateAppointmentRequest,
+  Recurrence,
+  SeriesOccurrence,
+  SeriesOptions,
+  UpdateAppointmentRequest,
+} from './interfaces';
+import { MemorySeriesStore } from './series-store';
+
+/** What the series service needs from `AppointmentApi` */
+export interface SeriesBackend {
+  /** The ids of the appointments a new or moved appointment overlaps */
+  checkConflicts(
+    appointment: CreateAppointmentRequest | UpdateAppointmentRequest,
+    options: ConflictOptions
+  ): Promise<string[]>;
+  create(appointment: CreateAppointmentRequest): Promise<{ Id: string }>;
+  update(appointment: UpdateAppointmentRequest): Promise<unknown>;
+  cancel(appointmentId: string, reason?: string): Promise<void>;
+}
+
+/** The most occurrences a recurrence expands to */
+export const MAX_OCCURRENCES = 260;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type CalendarDay = Pick<WallTime, 'year' | 'month' | 'day'>;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function dayKey(day: CalendarDay): string {
+  return formatDate(new Date(day.year, day.month - 1, day.day));
+}
+
+function addDays(day: CalendarDay, days: number): CalendarDay {
+  const date = new Date(
+    Date.UTC(day.year, day.month - 1, day.day) + days * DAY
+  );
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+/** A yyyy-MM-dd string, or the day of a `Date` in the time zone */
+function dayOf(value: string | Date, name: string, timeZone?: string): string {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) throw new Error(`${name} is not a valid Date`);
+    return dayKey(toWallTime(value, timeZone));
+  }
+  const date = parseDate(value);
+  if (!date) throw new Error(`${name} is not a yyyy-MM-dd date`);
+  return formatDate(date);
+}
+
+/**
+ * Read an iCalendar RRULE with `FREQ` of `WEEKLY` or `MONTHLY` and any of
+ * `INTERVAL`, `COUNT` and `UNTIL`, e.g. `FREQ=WEEKLY;INTERVAL=2;COUNT=10`
+ * @param rule The rule, with or without its `RRULE:` prefix
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const recurrence: Partial<Recurrence> = {};
+  rule
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+    .forEach((part) => {
+      const [name, value = ''] = part.split('=').map((text) => text.trim());
+      switch (name.toUpperCase()) {
+        case 'FREQ':
+          if (!/^(WEEKLY|MONTHLY)$/i.test(value)) {
+            throw new Error(`FREQ=${value} is not supported`);
+          }
+          recurrence.frequency = value.toLowerCase() as Recurrence['frequency'];
+          break;
+        case 'INTERVAL':
+          recurrence.interval = Number(value);
+          break;
+        case 'COUNT':
+          recurrence.count = Number(value);
+          break;
+        case 'UNTIL': {
+          const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+          if (!match) throw new Error(`UNTIL=${value} is not a date`);
+          recurrence.until = `${match[1]}-${match[2]}-${match[3]}`;
+          break;
+        }
+        default:
+          throw new Error(`${name} is not supported in a recurrence rule`);
+      }
+    });
+  if (!recurrence.frequency) throw new Error('Recurrence rule has no FREQ');
+  return recurrence as Recurrence;
+}
+
+/**
+ * The start of every occurrence of a recurrence. Occurrences keep the time of
+ * day of the first one in the time zone, across daylight saving changes.
+ * @param start When the first occurrence starts
+ * @param recurrence The recurrence, or an RRULE
+ * @param timeZone The IANA time zone. Defaults to the zone of the process.
+ */
+export function expandRecurrence(
+  start: Date,
+  recurrence: Recurrence | string,
+  timeZone?: string
+): Date[] {
+  const rule =
+    typeof recurrence === 'string' ? parseRecurrence(recurrence) : recurrence;
+  const { frequency, interval = 1, count, until } = rule;
+  if (count === undefined && until === undefined) {
+    throw new Error('A recurrence needs a count or an until date');
+  }
+  if (!(interval >= 1) || !Number.isInteger(interval)) {
+    throw new Error('A recurrence interval must be a whole number from 1');
+  }
+  const last =
+    until === undefined ? undefined : dayOf(until, 'until', timeZone);
+  const limit = Math.min(count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  const first = toWallTime(start, timeZone);
+  const starts: Date[] = [];
+  for (let step = 0; starts.length < limit; step++) {
+    let day: CalendarDay;
+    if (frequency === 'weekly') {
+      day = addDays(first, step * interval * 7);
+    } else {
+      const months = first.month - 1 + step * interval;
+      day = {
+        year: first.year + Math.floor(months / 12),
+        month: (months % 12) + 1,
+        day: first.day,
+      };
+      if (day.year > first.year + 100) break;
+      // Months without the day, e.g. the 31st, are left out
+      if (addDays(day, 0).month !== day.month) continue;
+    }
+    if (last !== undefined && dayKey(day) > last) break;
+    starts.push(
+      fromWallTime({ ...day, hour: first.hour, minute: first.minute }, timeZone)
+    );
+  }
+  return starts;
+}
+
+/**
+ * Books a recurring appointment as a series of single appointments, and
+ * keeps their ids so the series can be canceled or rescheduled from any of
+ * them onwards. Occurrences on holidays, and by default those overlapping
+ * other appointments, are skipped.
+ *
+ * Get one from `AppointmentApi.series()`.
+ *
+ * ```ts
+ * const series = api.Appointment.series({
+ *   store: new FileSeriesStore('data/series.json'),
+ *   timeZone: 'America/New_York',
+ *   holidays: ['2024-12-25', '2025-01-01'],
+ *   checkClient: true,
+ * });
+ *
+ * const created = await series.create(appointment, 'FREQ=WEEKLY;COUNT=12');
+ * await series.cancel(created.id, { fromAppointmentId: 'appt-id' });
+ * ```
+ */
+export class AppointmentSeriesService {
+  private store = this.options.store ?? new MemorySeriesStore();
+
+  constructor(
+    private backend: SeriesBackend,
+    private options: SeriesOptions = {}
+  ) {}
+
+  /**
+   * Work out each occurrence of a series without booking anything
+   * @param appointment The first appointment
+   * @param recurrence How it repeats, or an RRULE
+   * @returns The occurrences, with the status `create()` would give them
+   */
+  async preview(
+    appointment: CreateAppointmentRequest,
+    recurrence: Recurrence | string
+  ): Promise<SeriesOccurrence[]> {
+    const occurrences: SeriesOccurrence[] = [];
+    for (const start of this.expand(appointment, recurrence)) {
+      occurrences.push(await this.plan(appointment, start, occurrences.length));
+    }
+    return occurrences;
+  }
+
+  /**
+   * Book every occurrence of a series, one appointment at a time. An
+   * occurrence IntakeQ rejects is marked `failed` and does not stop the
+   * others. The series is saved after each occurrence.
+   * @param appointment The first appointment
+   * @param recurrence How it repeats, or an RRULE
+   */
+  async create(
+    appointment: CreateAppointmentRequest,
+    recurrence: Recurrence | string
+  ): Promise<AppointmentSeries> {
+    const starts = this.expand(appointment, recurrence);
+    const series: AppointmentSeries = {
+      id: randomUUID(),
+      appointment,
+      recurrence:
+        typeof recurrence === 'string'
+          ? parseRecurrence(recurrence)
+          : recurrence,
+      timeZone: this.options.timeZone,
+      createdAt: new Date().toISOString(),
+      occurrences: [],
+    };
+
+    for (const start of starts) {
+      const occurrence = await this.plan(
+        appointment,
+        start,
+        series.occurrences.length
+      );
+      if (occurrence.status === 'scheduled') {
+        try {
+          const created = await this.backend.create({
+            ...appointment,
+            UtcDateTime: Math.floor(start.getTime() / 1000),
+          });
+          occurrence.appointmentId = created.Id;
+        } catch (error) {
+          occurrence.status = 'failed';
+          occurrence.error = errorMessage(error);
+        }
+      }
+      series.occurrences.push(occurrence);
+      await this.store.save(series);
+    }
+    return series;
+  }
+
+  /**
+   * Load a series
+   * @param seriesId The series id
+   */
+  async get(seriesId: string): Promise<AppointmentSeries | undefined> {
+    return this.store.get(seriesId);
+  }
+
+  /** Every series in the store */
+  async list(): Promise<AppointmentSeries[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Cancel an occurrence and every one following it, or the whole series
+   * @param seriesId The series id
+   * @param options `fromAppointmentId` to cancel from that appointment on,
+   * and the reason given for each cancellation
+   */
+  async cancel(
+    seriesId: string,
+    options: { fromAppointmentId?: string; reason?: string } = {}
+  ): Promise<AppointmentSeries> {
+    const series = await this.load(seriesId);
+    const from = this.indexOf(series, options.fromAppointmentId);
+
+    for (const occurrence of series.occurrences.slice(from)) {
+      if (occurrence.status !== 'scheduled') continue;
+      try {
+        await this.backend.cancel(occurrence.appointmentId, options.reason);
+        occurrence.status = 'canceled';
+        delete occurrence.error;
+      } catch (error) {
+        occurrence.error = errorMessage(error);
+      }
+    }
+    await this.store.save(series);
+    return series;
+  }
+
+  /**
+   * Move an occurrence and every one following it. Each moves by the same
+   * number of days as the first, to the new time of day. Occurrences moved
+   * onto a holiday are canceled, and, unless `allowConflicts` is set, those
+   * that would overlap other appointments stay where they are, with an
+   * `error` saying why.
+   * @param seriesId The series id
+   * @param fromAppointmentId The first appointment to move
+   * @param newStart When that appointment should start
+   */
+  async reschedule(
+    seriesId: string,
+    fromAppointmentId: string,
+    newStart: Date
+  ): Promise<AppointmentSeries> {
+    const series = await this.load(seriesId);
+    const from = this.indexOf(series, fromAppointmentId);
+    const { timeZone } = series;
+    const before = toWallTime(
+      new Date(series.occurrences[from].start),
+      timeZone
+    );
+    const after = toWallTime(newStart, timeZone);
+    const shift = Math.round(
+      (Date.UTC(after.year, after.month - 1, after.day) -
+        Date.UTC(before.year, before.month - 1, before.day)) /
+        DAY
+    );
+
+    for (const occurrence of series.occurrences.slice(from)) {
+      if (occurrence.status !== 'scheduled') continue;
+      const day = addDays(
+        toWallTime(new Date(occurrence.start), timeZone),
+        shift
+      );
+      const start = fromWallTime(
+        { ...day, hour: after.hour, minute: after.minute },
+        timeZone
+      );
+      try {
+        await this.move(occurrence, start);
+      } catch (error) {
+        occurrence.error = errorMessage(error);
+      }
+    }
+    await this.store.save(series);
+    return series;
+  }
+
+  private async move(occurrence: SeriesOccurrence, start: Date) {
+    if (this.isHoliday(start)) {
+      await this.backend.cancel(occurrence.appointmentId, 'Holiday');
+      occurrence.status = 'holiday';
+      occurrence.start = start.toISOString();
+      delete occurrence.error;
+      return;
+    }
+
+    const update = {
+      Id: occurrence.appointmentId,
+      UtcDateTime: Math.floor(start.getTime() / 1000),
+    };
+    if (!this.options.allowConflicts) {
+      const conflicts = await this.backend.checkConflicts(update, this.options);
+      if (conflicts.length) {
+        throw new Error(`Overlaps appointments ${conflicts.join(', ')}`);
+      }
+    }
+    await this.backend.update(update);
+    occurrence.start = start.toISOString();
+    delete occurrence.error;
+  }
+
+  private expand(
+    appointment: CreateAppointmentRequest,
+    recurrence: Recurrence | string
+  ): Date[] {
+    return expandRecurrence(
+      new Date(appointment.UtcDateTime * 1000),
+      recurrence,
+      this.options.timeZone
+    );
+  }
+
+  /** Whether an occurrence would be booked, skipped for a holiday or conflict */
+  private async plan(
+    appointment: CreateAppointmentRequest,
+    start: Date,
+    index: number
+  ): Promise<SeriesOccurrence> {
+    const occurrence: SeriesOccurrence = {
+      index,
+      start: start.toISOString(),
+      status: 'scheduled',
+    };
+    if (this.isHoliday(start)) return { ...occurrence, status: 'holiday' };
+    if (this.options.allowConflicts) return occurrence;
+
+    const conflicts = await this.backend.checkConflicts(
+      { ...appointment, UtcDateTime: Math.floor(start.getTime() / 1000) },
+      this.options
+    );
+    return conflicts.length
+      ? { ...occurrence, status: 'conflict', conflicts }
+      : occurrence;
+  }
+
+  private isHoliday(start: Date): boolean {
+    const { holidays = [], timeZone } = this.options;
+    const day = dayKey(toWallTime(start, timeZone));
+    return holidays.some(
+      (holiday) => dayOf(holiday, 'holiday', timeZone) === day
+    );
+  }
+
+  private async load(seriesId: string): Promise<AppointmentSeries> {
+    const series = await this.store.get(seriesId);
+    if (!series) throw new Error(`No series with id ${seriesId}`);
+    return series;
+  }
+
+  private indexOf(series: AppointmentSeries, appointmentId?: string): number {
+    if (appointmentId === undefined) return 0;
+    const index = series.occurrences.findIndex(
+      (occurrence) => occurrence.appointmentId === appointmentId
+    );
+    if (index < 0) {
+      throw new Error(`Appointment ${appointmentId} is not in the series`);
+    }
+    return index;
+  }
+}
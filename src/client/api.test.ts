@@ -0,0 +1,276 @@
+import { NotFoundError } from '../common/errors';
+import { IntakeQApi } from '../index';
+import { buildClient } from '../testing/builders';
+import { IntakeQFake } from '../testing/fake';
+
+function setup() {
+  const ada = buildClient({
+    ClientId: 12,
+    FirstName: 'Ada',
+    LastName: 'King',
+    Name: 'Ada King',
+    Tags: ['vip'],
+    CustomFields: [
+      { FieldId: 'referral', Text: 'Referral', Value: 'Web' },
+      { FieldId: 'pronouns', Text: 'Pronouns', Value: '' },
+    ],
+  });
+  const other = buildClient({ ClientId: 123 });
+  const fake = new IntakeQFake({ seed: { clients: [other, ada] } });
+  const api = new IntakeQApi('test', { transport: fake, retry: false });
+  return { fake, api, ada };
+}
+
+describe('ClientApi.getClient', () => {
+  it('loads the client with exactly that id', async () => {
+    const { api } = setup();
+
+    const client = await api.Client.getClient(12);
+
+    expect(client.ClientId).toBe(12);
+    expect(client.Name).toBe('Ada King');
+  });
+
+  it('pages through search results for the id', async () => {
+    const others = Array.from({ length: 150 }, (_, index) =>
+      buildClient({ ClientId: 1000 + index, Name: `Suite 77 tenant ${index}` })
+    );
+    const target = buildClient({ ClientId: 77 });
+    const fake = new IntakeQFake({ seed: { clients: [...others, target] } });
+    const api = new IntakeQApi('test', { transport: fake, retry: false });
+
+    const client = await api.Client.getClient(77);
+
+    expect(client.ClientId).toBe(77);
+    expect(fake.requests.map(({ query }) => query.page)).toEqual(['1', '2']);
+  });
+
+  it('gives up after 1000 search results', async () => {
+    const others = Array.from({ length: 1001 }, (_, index) =>
+      buildClient({ ClientId: 2000 + index, Name: `Suite 77 tenant ${index}` })
+    );
+    const fake = new IntakeQFake({
+      seed: { clients: [...others, buildClient({ ClientId: 77 })] },
+    });
+    const api = new IntakeQApi('test', { transport: fake, retry: false });
+
+    await expect(api.Client.getClient(77)).rejects.toThrow(
+      'Client id 77 was not among the first 1000 clients its search matched'
+    );
+    expect(fake.requests).toHaveLength(10);
+  });
+
+  it('hydrates the client when the API does', async () => {
+    const { fake } = setup();
+    const api = new IntakeQApi({
+      apiKey: 'test',
+      transport: fake,
+      hydrate: true,
+    });
+
+    const client = await api.Client.getClient(12);
+
+    expect(client.DateCreated).toBeInstanceOf(Date);
+  });
+
+  it('throws a NotFoundError for an unknown id', async () => {
+    const { api } = setup();
+
+    await expect(api.Client.getClient(99)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
+
+describe('ClientApi.update', () => {
+  it('merges the patch into the saved client and reports the changes', async () => {
+    const { fake, api } = setup();
+
+    const { client, changes } = await api.Client.update(12, {
+      Phone: '555-010-9999',
+      Tags: ['new-patient'],
+      CustomFields: [{ FieldId: 'pronouns', Value: 'she/her' }],
+    });
+
+    expect(client).toMatchObject({
+      Name: 'Ada King',
+      Phone: '555-010-9999',
+      Tags: ['vip', 'new-patient'],
+    });
+    expect(client.CustomFields).toEqual([
+      { FieldId: 'referral', Text: 'Referral', Value: 'Web' },
+      { FieldId: 'pronouns', Text: 'Pronouns', Value: 'she/her' },
+    ]);
+    expect(changes).toEqual(
+      expect.arrayContaining([
+        { field: 'Phone', before: '555-010-0000', after: '555-010-9999' },
+        { field: 'CustomFields.pronouns', before: '', after: 'she/her' },
+        {
+          field: 'Tags',
+          before: ['vip'],
+          after: ['vip', 'new-patient'],
+        },
+      ])
+    );
+    expect(fake.clients.find(({ ClientId }) => ClientId === 12).Phone).toBe(
+      '555-010-9999'
+    );
+  });
+
+  it('leaves fields the patch does not set alone', async () => {
+    const { api, ada } = setup();
+
+    const { client } = await api.Client.update(12, {
+      Email: undefined,
+      Tags: ['vip'],
+    });
+
+    expect(client.Email).toBe(ada.Email);
+    expect(client.Tags).toEqual(['vip']);
+  });
+});
+
+describe('ClientApi.save', () => {
+  const jane = buildClient({
+    ClientId: 5,
+    FirstName: 'Jane',
+    LastName: 'Doe',
+    Name: 'Jane Doe',
+    Email: 'jane.doe@example.com',
+  });
+
+  it('refuses a likely duplicate when asked to throw', async () => {
+    const fake = new IntakeQFake({ seed: { clients: [jane] } });
+    const api = new IntakeQApi('test', { transport: fake, retry: false });
+
+    await expect(
+      api.Client.save(
+        { FirstName: 'Jane', LastName: 'Doe', Email: 'Jane.Doe@example.com' },
+        { duplicateCheck: 'throw' }
+      )
+    ).rejects.toMatchObject({
+      name: 'DuplicateClientError',
+      matches: [expect.objectContaining({ reasons: ['email', 'name'] })],
+    });
+    expect(fake.clients).toHaveLength(1);
+  });
+
+  it('saves and reports likely duplicates when asked to warn', async () => {
+    const fake = new IntakeQFake({ seed: { clients: [jane] } });
+    const api = new IntakeQApi('test', { transport: fake, retry: false });
+    const onDuplicates = jest.fn();
+
+    const saved = await api.Client.save(
+      { FirstName: 'Jane', LastName: 'Doe', Phone: jane.Phone },
+      { duplicateCheck: 'warn', onDuplicates }
+    );
+
+    expect(saved.ClientId).not.toBe(5);
+    expect(onDuplicates.mock.calls[0][0][0].client.ClientId).toBe(5);
+  });
+
+  it('writes nothing to the console without onDuplicates', async () => {
+    const fake = new IntakeQFake({ seed: { clients: [jane] } });
+    const api = new IntakeQApi('test', { transport: fake, retry: false });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      await api.Client.save(
+        { FirstName: 'Jane', LastName: 'Doe', Phone: jane.Phone },
+        { duplicateCheck: 'warn' }
+      );
+
+      expect(fake.clients).toHaveLength(2);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('skips the check for an existing client', async () => {
+    const fake = new IntakeQFake({ seed: { clients: [jane] } });
+    const api = new IntakeQApi('test', { transport: fake, retry: false });
+
+    await api.Client.save(
+      { ...jane, Phone: '555-010-1111' },
+      {
+        duplicateCheck: 'throw',
+      }
+    );
+
+    expect(fake.requests.map(({ method }) => method)).toEqual(['POST']);
+  });
+});
+
+describe('ClientApi bulk tags', () => {
+  function setupSegment() {
+    const vip = buildClient({ Name: 'Vip Client', Tags: ['vip'] });
+    const tagged = buildClient({ Tags: ['vip', 'lapsed'] });
+    const other = buildClient({ Tags: [] });
+    const fake = new IntakeQFake({ seed: { clients: [vip, tagged, other] } });
+    const api = new IntakeQApi('test', { transport: fake, retry: false });
+    return { fake, api, vip, tagged };
+  }
+
+  it('tags the clients in a segment that lack the tags', async () => {
+    const { fake, api, vip, tagged } = setupSegment();
+
+    const result = await api.Client.applyTags({ tags: ['vip'] }, ['Lapsed']);
+
+    expect(result.counts).toEqual({
+      planned: 0,
+      done: 1,
+      unchanged: 1,
+      failed: 0,
+    });
+    expect(
+      result.clients.find(({ ClientId }) => ClientId === vip.ClientId)
+    ).toMatchObject({ status: 'done', tags: ['Lapsed'] });
+    expect(
+      fake.clients.find(({ ClientId }) => ClientId === vip.ClientId).Tags
+    ).toEqual(['vip', 'Lapsed']);
+    expect(
+      fake.clients.find(({ ClientId }) => ClientId === tagged.ClientId).Tags
+    ).toEqual(['vip', 'lapsed']);
+  });
+
+  it('changes nothing on a dry run', async () => {
+    const { fake, api } = setupSegment();
+
+    const result = await api.Client.removeTags(
+      { anyTags: ['lapsed'] },
+      ['vip'],
+      { dryRun: true }
+    );
+
+    expect(result.dryRun).toBe(true);
+    expect(
+      result.clients.map(({ status, tags }) => ({ status, tags }))
+    ).toEqual([{ status: 'planned', tags: ['vip'] }]);
+    expect(fake.requests.every(({ method }) => method === 'GET')).toBe(true);
+  });
+
+  it('keeps going when a client fails', async () => {
+    const { fake, vip } = setupSegment();
+    const api = new IntakeQApi('test', {
+      retry: false,
+      transport: {
+        send: async (request) => {
+          if (
+            request.method === 'DELETE' &&
+            request.url.includes(`clientId=${vip.ClientId}`)
+          ) {
+            return { status: 500, headers: {}, data: { Message: 'Down' } };
+          }
+          return fake.send(request);
+        },
+      },
+    });
+
+    const result = await api.Client.removeTags({ tags: ['vip'] }, ['vip']);
+
+    expect(result.counts).toMatchObject({ done: 1, failed: 1 });
+    expect(
+      result.clients.find(({ ClientId }) => ClientId === vip.ClientId)
+    ).toMatchObject({ status: 'failed', error: 'Down' });
+  });
+});
@@ -1,17 +1,69 @@
-import { AxiosInstance } from 'axios';
+import { HttpClient } from '../http/client';
+import { RequestOptions } from '../http/interfaces';
 import {
   ListClientsRequest,
   Client,
   ClientWithProfile,
   ClientReceived,
   ClientTag,
+  HydratedClientWithProfile,
+  ClientPatch,
+  ClientUpdateResult,
+  DuplicateCheckClient,
+  DuplicateMatch,
+  DuplicateOptions,
+  DuplicateReport,
+  SaveClientOptions,
+  ClientImportOptions,
+  ClientSegment,
+  BulkTagOptions,
+  BulkTagOutcome,
+  BulkTagResult,
+  BulkTagStatus,
 } from './interfaces';
+import { ClientImporter } from './import';
+import { matchesSegment, tagChanges } from './segments';
+import { mapConcurrent } from '../common/concurrency';
+import {
+  DuplicateClientError,
+  IntakeQError,
+  NotFoundError,
+} from '../common/errors';
+import {
+  buildDuplicateReport,
+  DUPLICATE_THRESHOLD,
+  scoreDuplicate,
+} from './duplicates';
+import { diffClients, mergeClient } from './merge';
+import { MaybeHydrated, PaginationOptions } from '../common/interfaces';
+import { Hydrator } from '../common/hydration';
+import { collect, PAGE_SIZE, paginate } from '../common/pagination';
+import { s } from '../common/schema';
+import {
+  clientReceivedSchema,
+  clientTagSchema,
+  clientWithProfileSchema,
+} from './schemas';
 
 const ENDPOINT = 'clients';
 const TAG_ENDPOINT = 'clientTags';
+/** How many pages of search results a lookup by id reads before giving up */
+const ID_LOOKUP_MAX_PAGES = 10;
 
-export class ClientApi {
-  constructor(private api: AxiosInstance) {}
+type ClientWithProfileOf<H extends boolean> = MaybeHydrated<
+  H,
+  ClientWithProfile,
+  HydratedClientWithProfile
+>;
+
+export class ClientApi<H extends boolean = false> {
+  constructor(private api: HttpClient, private hydrator?: Hydrator) {}
+
+  private hydrate(client: ClientWithProfile): ClientWithProfileOf<H> {
+    return (this.hydrator
+      ? this.hydrator.client(client)
+      : client) as ClientWithProfileOf<H>;
+  }
 
   /**
    * Find a list of clients
@@ -27,35 +79,27 @@ export class ClientApi {
   async listClients(
     params: ListClientsRequest,
     includeProfile: true
-  ): Promise<ClientWithProfile[]>;
+  ): Promise<ClientWithProfileOf<H>[]>;
 
   async listClients(
     params: ListClientsRequest,
     includeProfile = false
-  ): Promise<Client[] | ClientWithProfile[]> {
-    const urlParams = [];
-    if (params.search) {
-      urlParams.push(`search=${params.search}`);
-    }
-    if (params.page) {
-      urlParams.push(`page=${params.page}`);
-    }
-    if (params.dateCreatedStart) {
-      urlParams.push(`dateCreatedStart=${params.dateCreatedStart}`);
-    }
-    if (params.dateCreatedEnd) {
-      urlParams.push(`dateCreatedEnd=${params.dateCreatedEnd}`);
-    }
-    if (params.custom) {
-      Object.keys(params.custom).forEach((fieldId) => {
-        urlParams.push(`custom[${fieldId}]=${params.custom[fieldId]}`);
-      });
-    }
-    if (includeProfile) {
-      urlParams.push(`includeProfile=true`);
-    }
+  ): Promise<Client[] | ClientWithProfileOf<H>[]> {
     const res = await this.api.get<ClientWithProfile[] | ClientReceived[]>(
-      `${ENDPOINT}?${urlParams.join('&')}`
+      ENDPOINT,
+      {
+        query: {
+          search: params.search,
+          page: params.page,
+          dateCreatedStart: params.dateCreatedStart,
+          dateCreatedEnd: params.dateCreatedEnd,
+          custom: params.custom,
+          includeProfile: includeProfile || undefined,
+        },
+        schema: s.array(
+          includeProfile ? clientWithProfileSchema : clientReceivedSchema
+        ),
+      }
     );
 
     // Rename inconsistent ClientNumber to be ClientId like the rest of the endpoints
@@ -65,37 +109,341 @@ export class ClientApi {
         ClientId: ClientNumber,
       }));
     }
-    return res.data as ClientWithProfile[];
+    return (res.data as ClientWithProfile[]).map((client) =>
+      this.hydrate(client)
+    );
+  }
+
+  /**
+   * Iterate over every client matching the query, fetching further pages as
+   * needed. Paging starts from `params.page` if it is set.
+   * @param params The parameters
+   * @param includeProfile Whether or not to include the full profile
+   * @param options Limits and abort signal for the iteration
+   */
+  iterateClients(
+    params: ListClientsRequest,
+    includeProfile?: false,
+    options?: PaginationOptions
+  ): AsyncGenerator<Client, void, undefined>;
+
+  iterateClients(
+    params: ListClientsRequest,
+    includeProfile: true,
+    options?: PaginationOptions
+  ): AsyncGenerator<ClientWithProfileOf<H>, void, undefined>;
+
+  iterateClients(
+    params: ListClientsRequest,
+    includeProfile = false,
+    options?: PaginationOptions
+  ): AsyncGenerator<Client | ClientWithProfileOf<H>, void, undefined> {
+    return paginate<Client | ClientWithProfileOf<H>>(
+      (page) =>
+        includeProfile
+          ? this.listClients({ ...params, page }, true)
+          : this.listClients({ ...params, page }),
+      options,
+      params.page
+    );
+  }
+
+  /**
+   * Load every client matching the query across all pages
+   * @param params The parameters
+   * @param includeProfile Whether or not to include the full profile
+   * @param options Limits and abort signal for the iteration
+   */
+  async listAllClients(
+    params: ListClientsRequest,
+    includeProfile?: false,
+    options?: PaginationOptions
+  ): Promise<Client[]>;
+
+  async listAllClients(
+    params: ListClientsRequest,
+    includeProfile: true,
+    options?: PaginationOptions
+  ): Promise<ClientWithProfileOf<H>[]>;
+
+  async listAllClients(
+    params: ListClientsRequest,
+    includeProfile = false,
+    options?: PaginationOptions
+  ): Promise<Client[] | ClientWithProfileOf<H>[]> {
+    return includeProfile
+      ? collect(this.iterateClients(params, true, options))
+      : collect(this.iterateClients(params, false, options));
+  }
+
+  /**
+   * Iterate over the clients in a segment, with their profiles. Creation
+   * dates and custom fields narrow the listing; the other conditions are
+   * checked on each client as its page arrives.
+   * @param segment The conditions clients must meet
+   * @param options Limits and abort signal for the iteration. `maxItems`
+   * counts the clients in the segment, not those scanned.
+   */
+  async *iterateSegment(
+    segment: ClientSegment,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<ClientWithProfileOf<H>, void, undefined> {
+    const { maxItems = Infinity, ...pagination } = options;
+    if (maxItems <= 0) return;
+    const clients = this.iterateClients(
+      {
+        dateCreatedStart: segment.dateCreatedStart,
+        dateCreatedEnd: segment.dateCreatedEnd,
+        custom: segment.custom,
+      },
+      true,
+      pagination
+    );
+    let yielded = 0;
+    for await (const client of clients) {
+      if (!matchesSegment(client, segment)) continue;
+      yield client;
+      yielded++;
+      if (yielded >= maxItems) return;
+    }
+  }
+
+  /**
+   * Load every client in a segment, with their profiles
+   * @param segment The conditions clients must meet
+   * @param options Limits and abort signal for the iteration
+   */
+  async listSegment(
+    segment: ClientSegment,
+    options?: PaginationOptions
+  ): Promise<ClientWithProfileOf<H>[]> {
+    return collect(this.iterateSegment(segment, options));
+  }
+
+  /**
+   * Load a single client, with its full profile, from its ID. IntakeQ has no
+   * endpoint for a single client, so this searches for the id and pages
+   * through the results for the client with exactly that id. Only the first
+   * 1000 results are read; a short id that matches more clients than that
+   * throws an `IntakeQError` rather than paging on.
+   * @param clientId The ID of the client to load
+   */
+  async getClient(clientId: number): Promise<ClientWithProfileOf<H>> {
+    return this.hydrate(await this.findClient(clientId));
+  }
+
+  /**
+   * Search for a client id and keep the exact match. The search is partial
+   * and also matches names, emails and phones, so a short id can match many
+   * clients; pages are read until the client turns up, a page comes back
+   * short or `ID_LOOKUP_MAX_PAGES` pages were read. This relies on the client
+   * search matching ids as well as names and emails, which IntakeQ does not
+   * document; it is only checked against `IntakeQFake`.
+   */
+  private async findClient(clientId: number): Promise<ClientWithProfile> {
+    let searched = 0;
+    for await (const client of paginate(
+      (page) => this.searchProfiles(String(clientId), page),
+      { maxPages: ID_LOOKUP_MAX_PAGES }
+    )) {
+      if (client.ClientId === clientId) return client;
+      searched++;
+    }
+    if (searched >= ID_LOOKUP_MAX_PAGES * PAGE_SIZE) {
+      throw new IntakeQError(
+        `Client id ${clientId} was not among the first ${searched} clients ` +
+          'its search matched; IntakeQ cannot load a client by id directly',
+        { endpoint: ENDPOINT, method: 'GET' }
+      );
+    }
+    throw new NotFoundError(`No client with id ${clientId}`, {
+      endpoint: ENDPOINT,
+      method: 'GET',
+    });
+  }
+
+  /** Clients matching a search with their profiles, never hydrated */
+  private async searchProfiles(
+    search: string,
+    page?: number
+  ): Promise<ClientWithProfile[]> {
+    const res = await this.api.get<ClientWithProfile[]>(ENDPOINT, {
+      query: { search, page, includeProfile: true },
+      schema: s.array(clientWithProfileSchema),
+    });
+    return res.data;
   }
 
   /**
    * Find a client by its email address
    * @param email Email address to find
    */
-  async getClientByEmail(email: string): Promise<ClientWithProfile> {
+  async getClientByEmail(email: string): Promise<ClientWithProfileOf<H>> {
     const res = await this.listClients({ search: email }, true);
     return res[0];
   }
 
+  /**
+   * Find existing clients that look like the same person as a client about to
+   * be created. Clients sharing its email or last name are loaded and scored
+   * on name, email, phone numbers and date of birth.
+   * @param client The client to check
+   * @param options.threshold The lowest score counted as a duplicate. Defaults to 0.6
+   * @returns The likely duplicates, most likely first
+   */
+  async findDuplicates(
+    client: DuplicateCheckClient,
+    options: { threshold?: number } = {}
+  ): Promise<DuplicateMatch<ClientWithProfileOf<H>>[]> {
+    const { threshold = DUPLICATE_THRESHOLD } = options;
+    const lastName =
+      client.LastName || (client.Name ?? '').trim().split(/\s+/).pop();
+    const searches = Array.from(
+      new Set([client.Email?.trim(), lastName].filter(Boolean))
+    );
+
+    const found = new Map<number, ClientWithProfileOf<H>>();
+    for (const search of searches) {
+      const clients = await this.listClients({ search }, true);
+      clients.forEach((existing) => found.set(existing.ClientId, existing));
+    }
+    found.delete(client.ClientId);
+
+    return Array.from(found.values())
+      .map((existing) => ({
+        ...scoreDuplicate(client, existing),
+        client: existing,
+      }))
+      .filter((match) => match.score >= threshold)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Page through every client and report the pairs that are likely
+   * duplicates. Format the report with `duplicateReportToCsv()` for a
+   * spreadsheet.
+   * @param params Only compare clients matching these parameters
+   * @param options The score threshold and whether to include archived clients,
+   * along with limits and abort signal for the paging
+   */
+  async findAllDuplicates(
+    params: ListClientsRequest = {},
+    options: DuplicateOptions & PaginationOptions = {}
+  ): Promise<DuplicateReport> {
+    const clients = await this.listAllClients(params, true, options);
+    return buildDuplicateReport(clients, options);
+  }
+
   /**
    * Save a client
    * @param client The client object to save
+   * @param options Set `retry: true` to retry this request on transient
+   * failures, and `duplicateCheck` to look for likely duplicates before
+   * creating a client
+   */
+  async save(
+    client: Partial<ClientWithProfile>,
+    options: SaveClientOptions<ClientWithProfileOf<H>> = {}
+  ): Promise<ClientWithProfileOf<H>> {
+    const {
+      duplicateCheck,
+      onDuplicates,
+      duplicateThreshold,
+      ...requestOptions
+    } = options;
+
+    if (duplicateCheck && !client.ClientId) {
+      const matches = await this.findDuplicates(client, {
+        threshold: duplicateThreshold,
+      });
+      if (matches.length && duplicateCheck === 'throw') {
+        throw new DuplicateClientError(
+          `Client looks like existing client ${matches[0].client.ClientId}`,
+          { endpoint: ENDPOINT, method: 'POST', matches }
+        );
+      }
+      if (matches.length) onDuplicates?.(matches);
+    }
+
+    return this.hydrate(await this.post(client, requestOptions));
+  }
+
+  /**
+   * Change some fields of a client. The full client is loaded and the patch
+   * merged into it before saving, so fields left out of the patch keep their
+   * values. `CustomFields` are merged by `FieldId` and `Tags` are added to
+   * the client's, so a patch never removes a tag; use `removeTag()` for that.
+   * The client is looked up like `getClient()` does, with the same limit.
+   * @param clientId The ID of the client to update
+   * @param patch The fields to change
+   * @param options Set `retry: true` to retry this request on transient failures
+   * @returns The saved client and the fields that changed
    */
-  async save(client: Partial<ClientWithProfile>): Promise<ClientWithProfile> {
-    const res = await this.api.post<ClientWithProfile>(ENDPOINT, client);
+  async update(
+    clientId: number,
+    patch: ClientPatch,
+    options?: RequestOptions
+  ): Promise<ClientUpdateResult<ClientWithProfileOf<H>>> {
+    const before = await this.findClient(clientId);
+    const after = await this.post(
+      { ...mergeClient(before, patch), ClientId: clientId },
+      options
+    );
+    return {
+      client: this.hydrate(after),
+      changes: diffClients(before, after),
+    };
+  }
+
+  private async post(
+    client: Partial<ClientWithProfile>,
+    options?: RequestOptions
+  ): Promise<ClientWithProfile> {
+    const res = await this.api.post<ClientWithProfile>(ENDPOINT, client, {
+      ...options,
+      schema: clientWithProfileSchema,
+    });
     return res.data;
   }
 
+  /**
+   * An importer for clients in a CSV file. Rows are matched to existing
+   * clients by email, which are updated with `update()`; other rows are
+   * created with `save()`.
+   * @param options How columns map to client fields, the concurrency and the
+   * checkpoint and error report files
+   */
+  importer(options: ClientImportOptions): ClientImporter {
+    return new ClientImporter(
+      {
+        search: (search) => this.searchProfiles(search),
+        create: async (client) => (await this.save(client)).ClientId,
+        update: async (clientId, patch) =>
+          (await this.update(clientId, patch)).changes,
+      },
+      options
+    );
+  }
+
   /**
    * Add a Tag to a Client
    * @param clientId The id of the client to tag
    * @param tag The tag to set
+   * @param options Set `retry: true` to retry this request on transient failures
    */
-  async addTag(clientId: number, tag: string): Promise<ClientTag> {
-    const res = await this.api.post<ClientTag>(TAG_ENDPOINT, {
-      ClientId: clientId,
-      Tag: tag,
-    });
+  async addTag(
+    clientId: number,
+    tag: string,
+    options?: RequestOptions
+  ): Promise<ClientTag> {
+    const res = await this.api.post<ClientTag>(
+      TAG_ENDPOINT,
+      {
+        ClientId: clientId,
+        Tag: tag,
+      },
+      { ...options, schema: clientTagSchema }
+    );
     return res.data;
   }
 
@@ -103,8 +451,103 @@ export class ClientApi {
    * Remove a Tag from a Client
    * @param clientId The id of the client to remove the tag from
    * @param tag The tag to remove
+   * @param options Set `retry: true` to retry this request on transient failures
    */
-  async removeTag(clientId: number, tag: string): Promise<void> {
-    await this.api.delete(`${TAG_ENDPOINT}?clientId=${clientId}&tag=${tag}`);
+  async removeTag(
+    clientId: number,
+    tag: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    await this.api.delete(TAG_ENDPOINT, {
+      ...options,
+      query: { clientId, tag },
+    });
+  }
+
+  /**
+   * Add tags to every client in a segment. Clients that already have the
+   * tags are left alone, and a client whose request fails does not stop the
+   * others.
+   * @param segment The clients to tag
+   * @param tags The tags to add
+   * @param options `dryRun` to only report which clients would change, the
+   * number of clients tagged at once, and limits for loading the segment
+   */
+  async applyTags(
+    segment: ClientSegment,
+    tags: string[],
+    options?: BulkTagOptions
+  ): Promise<BulkTagResult> {
+    return this.bulkTag(segment, tags, 'add', options);
+  }
+
+  /**
+   * Remove tags from every client in a segment. Clients without the tags are
+   * left alone, and a client whose request fails does not stop the others.
+   * @param segment The clients to untag
+   * @param tags The tags to remove
+   * @param options `dryRun` to only report which clients would change, the
+   * number of clients untagged at once, and limits for loading the segment
+   */
+  async removeTags(
+    segment: ClientSegment,
+    tags: string[],
+    options?: BulkTagOptions
+  ): Promise<BulkTagResult> {
+    return this.bulkTag(segment, tags, 'remove', options);
+  }
+
+  private async bulkTag(
+    segment: ClientSegment,
+    tags: string[],
+    mode: 'add' | 'remove',
+    options: BulkTagOptions = {}
+  ): Promise<BulkTagResult> {
+    const { dryRun = false, concurrency = 4, retry, ...pagination } = options;
+    const clients = await this.listSegment(segment, pagination);
+    const requestOptions = { retry, signal: pagination.signal };
+
+    const outcomes = await mapConcurrent(
+      clients,
+      concurrency,
+      async (client): Promise<BulkTagOutcome> => {
+        const outcome: BulkTagOutcome = {
+          ClientId: client.ClientId,
+          Name: client.Name,
+          tags: tagChanges(client, tags, mode),
+          status: 'unchanged',
+        };
+        if (!outcome.tags.length) return outcome;
+        if (dryRun) return { ...outcome, status: 'planned' };
+
+        try {
+          for (const tag of outcome.tags) {
+            if (mode === 'add') {
+              await this.addTag(client.ClientId, tag, requestOptions);
+            } else {
+              await this.removeTag(client.ClientId, tag, requestOptions);
+            }
+          }
+          return { ...outcome, status: 'done' };
+        } catch (error) {
+          return {
+            ...outcome,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+    );
+
+    const counts: Record<BulkTagStatus, number> = {
+      planned: 0,
+      done: 0,
+      unchanged: 0,
+      failed: 0,
+    };
+    outcomes.forEach(({ status }) => {
+      counts[status] += 1;
+    });
+    return { dryRun, clients: outcomes, counts };
   }
 }
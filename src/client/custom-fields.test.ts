@@ -0,0 +1,122 @@
+import { CustomFieldValidationError } from '../common/errors';
+import { customField, CustomFieldMapping } from './custom-fields';
+import { ClientCustomField } from './interfaces';
+
+const fields = new CustomFieldMapping({
+  insurer: customField.string('a1'),
+  visits: customField.number('b2'),
+  referredOn: customField.date('c3', 'MM/dd/yyyy'),
+  consented: customField.boolean('d4', { trueValue: 'Yes', falseValue: 'No' }),
+  tier: customField.enum('e5', 'Gold', 'Silver'),
+});
+
+function client(values: Record<string, string>) {
+  return {
+    CustomFields: Object.keys(values).map(
+      (FieldId): ClientCustomField => ({ FieldId, Value: values[FieldId] })
+    ),
+  };
+}
+
+describe('CustomFieldMapping', () => {
+  it('reads custom fields as their declared types', () => {
+    const values = fields.getCustomFields(
+      client({
+        a1: 'Acme Health',
+        b2: '1,204',
+        c3: '03/05/2024',
+        d4: 'yes',
+        e5: 'gold',
+        zz: 'not mapped',
+      })
+    );
+
+    expect(values).toMatchObject({
+      insurer: 'Acme Health',
+      visits: 1204,
+      consented: true,
+      tier: 'Gold',
+    });
+    expect(values.referredOn).toBeInstanceOf(Date);
+    expect(fields.toCustomFields({ referredOn: values.referredOn })).toEqual([
+      { FieldId: 'c3', Value: '03/05/2024' },
+    ]);
+  });
+
+  it('reads and writes dates as local days', () => {
+    const { referredOn } = fields.getCustomFields(client({ c3: '03/05/2024' }));
+
+    expect(referredOn).toEqual(new Date(2024, 2, 5));
+    expect(
+      fields.toCustomFields({ referredOn: new Date(2024, 11, 31, 23, 30) })
+    ).toEqual([{ FieldId: 'c3', Value: '12/31/2024' }]);
+  });
+
+  it('leaves out empty fields', () => {
+    expect(fields.getCustomFields(client({ a1: ' ', b2: '' }))).toEqual({});
+    expect(fields.getCustomFields({ CustomFields: undefined })).toEqual({});
+  });
+
+  it('reports every value that does not parse', () => {
+    let error: CustomFieldValidationError;
+    try {
+      fields.getCustomFields(
+        client({ b2: 'many', c3: '02/30/2024', d4: 'maybe', e5: 'Bronze' })
+      );
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(CustomFieldValidationError);
+    expect(error.issues.map(({ path }) => path)).toEqual([
+      '$.visits',
+      '$.referredOn',
+      '$.consented',
+      '$.tier',
+    ]);
+    expect(error.issues[3].expected).toBe('"Gold" | "Silver"');
+  });
+
+  it('writes values into a copy of the client', () => {
+    const original = client({ a1: 'Acme Health', b2: '3' });
+
+    const updated = fields.setCustomFields(original, {
+      visits: 4,
+      consented: false,
+      insurer: null,
+    });
+
+    expect(updated.CustomFields).toEqual([
+      { FieldId: 'a1', Value: '' },
+      { FieldId: 'b2', Value: '4' },
+      { FieldId: 'd4', Value: 'No' },
+    ]);
+    expect(original.CustomFields[1].Value).toBe('3');
+  });
+
+  it('refuses values of the wrong type', () => {
+    expect(() =>
+      fields.toCustomFields({ visits: ('4' as unknown) as number })
+    ).toThrow(CustomFieldValidationError);
+    expect(() => fields.toCustomFields({ tier: 'Bronze' as 'Gold' })).toThrow(
+      'Custom fields tier do not match their declared types'
+    );
+  });
+
+  it('builds list filters by field id', () => {
+    expect(fields.filter({ tier: 'Silver', consented: true })).toEqual({
+      e5: 'Silver',
+      d4: 'Yes',
+    });
+  });
+
+  it('reports keys that are not mapped', () => {
+    expect(() =>
+      fields.filter(({ unknown: 'x' } as unknown) as { tier: 'Gold' })
+    ).toThrow(
+      expect.objectContaining({
+        issues: [{ type: 'unknown_field', path: '$.unknown' }],
+      })
+    );
+  });
+});
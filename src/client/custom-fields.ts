@@ -0,0 +1,291 @@
+import { CustomFieldValidationError } from '../common/errors';
+import { ValidationIssue } from '../common/interfaces';
+import { formatDate, parseDate } from '../common/query';
+import {
+  ClientCustomField,
+  ClientWithProfile,
+  CustomFieldDateFormat,
+  CustomFieldDefinition,
+  CustomFieldDefinitions,
+  CustomFieldUpdate,
+  CustomFieldValues,
+} from './interfaces';
+
+type WithCustomFields = Pick<ClientWithProfile, 'CustomFields'>;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on', 'checked'];
+
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off', 'unchecked'];
+
+/**
+ * Builders for custom field definitions, e.g.
+ * `customField.enum('a1b2', 'Gold', 'Silver')`. The first argument is the
+ * IntakeQ `FieldId`.
+ */
+export const customField = {
+  string: (fieldId: string) => ({ type: 'string' as const, fieldId }),
+  number: (fieldId: string) => ({ type: 'number' as const, fieldId }),
+  /**
+   * @param format How dates are written. Defaults to `yyyy-MM-dd`
+   */
+  date: (fieldId: string, format: CustomFieldDateFormat = 'yyyy-MM-dd') => ({
+    type: 'date' as const,
+    fieldId,
+    format,
+  }),
+  /**
+   * @param options.trueValue Written for `true`. Defaults to `true`
+   * @param options.falseValue Written for `false`. Defaults to `false`
+   */
+  boolean: (
+    fieldId: string,
+    options: { trueValue?: string; falseValue?: string } = {}
+  ) => ({
+    type: 'boolean' as const,
+    fieldId,
+    trueValue: options.trueValue ?? 'true',
+    falseValue: options.falseValue ?? 'false',
+  }),
+  enum: <V extends string>(fieldId: string, ...values: V[]) => ({
+    type: 'enum' as const,
+    fieldId,
+    values,
+  }),
+};
+
+function describe(definition: CustomFieldDefinition): string {
+  return definition.type === 'enum'
+    ? definition.values.map((value) => JSON.stringify(value)).join(' | ')
+    : definition.type;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** Parse a stored value, or return `undefined` when it does not parse */
+function parse(definition: CustomFieldDefinition, value: string): unknown {
+  const text = value.trim();
+  switch (definition.type) {
+    case 'number': {
+      const number = Number(text.replace(/,/g, ''));
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'date':
+      return parseDate(text);
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (
+        lower === definition.trueValue.toLowerCase() ||
+        TRUE_VALUES.includes(lower)
+      ) {
+        return true;
+      }
+      if (
+        lower === definition.falseValue.toLowerCase() ||
+        FALSE_VALUES.includes(lower)
+      ) {
+        return false;
+      }
+      return undefined;
+    }
+    case 'enum':
+      return definition.values.find(
+        (option) => option.toLowerCase() === text.toLowerCase()
+      );
+    default:
+      return value;
+  }
+}
+
+/** Format a value for IntakeQ, or return `undefined` when it has the wrong type */
+function format(
+  definition: CustomFieldDefinition,
+  value: unknown
+): string | undefined {
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? String(value)
+        : undefined;
+    case 'date':
+      if (!(value instanceof Date) || isNaN(value.getTime())) return undefined;
+      return definition.format === 'MM/dd/yyyy'
+        ? `${pad(value.getMonth() + 1)}/${pad(
+            value.getDate()
+          )}/${value.getFullYear()}`
+        : formatDate(value);
+    case 'boolean':
+      if (typeof value !== 'boolean') return undefined;
+      return value ? definition.trueValue : definition.falseValue;
+    case 'enum':
+      return definition.values.includes(value as string)
+        ? (value as string)
+        : undefined;
+    default:
+      return typeof value === 'string' ? value : undefined;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (value instanceof Date) return 'date';
+  return typeof value;
+}
+
+/**
+ * Maps IntakeQ custom field ids to typed keys, so client custom fields can be
+ * read and written as numbers, dates, booleans and enums instead of strings.
+ *
+ * ```ts
+ * const fields = new CustomFieldMapping({
+ *   insurer: customField.string('a1b2'),
+ *   visits: customField.number('c3d4'),
+ *   referredOn: customField.date('e5f6', 'MM/dd/yyyy'),
+ *   tier: customField.enum('g7h8', 'Gold', 'Silver'),
+ * });
+ *
+ * const { tier } = fields.getCustomFields(client); // 'Gold' | 'Silver'
+ * await api.Client.save(fields.setCustomFields(client, { visits: 3 }));
+ * await api.Client.listClients({ custom: fields.filter({ tier: 'Gold' }) });
+ * ```
+ */
+export class CustomFieldMapping<D extends CustomFieldDefinitions> {
+  /**
+   * @param definitions Typed keys mapped to custom field definitions, built
+   * with `customField`
+   */
+  constructor(readonly definitions: D) {}
+
+  /**
+   * Read the mapped custom fields of a client. Fields the client has no value
+   * for are left out. Throws a `CustomFieldValidationError` listing every
+   * value that does not parse as its declared type.
+   * @param client A client with its profile
+   */
+  getCustomFields(client: WithCustomFields): CustomFieldValues<D> {
+    const values: Record<string, unknown> = {};
+    const issues: ValidationIssue[] = [];
+
+    Object.keys(this.definitions).forEach((key) => {
+      const definition = this.definitions[key];
+      const field = (client.CustomFields ?? []).find(
+        ({ FieldId }) => FieldId === definition.fieldId
+      );
+      if (field?.Value === undefined || field.Value === null) return;
+      if (field.Value.trim() === '') return;
+
+      const value = parse(definition, field.Value);
+      if (value === undefined) {
+        issues.push({
+          type: 'type_mismatch',
+          path: `$.${key}`,
+          expected: describe(definition),
+          received: 'string',
+        });
+        return;
+      }
+      values[key] = value;
+    });
+
+    this.assertValid(issues);
+    return values as CustomFieldValues<D>;
+  }
+
+  /**
+   * Write typed values into a copy of a client's custom fields. `null`
+   * clears a field and keys left out keep their values. Throws a
+   * `CustomFieldValidationError` when a value does not match its type.
+   * @param client A client with its profile
+   * @param values The values to write
+   * @returns A copy of the client with the new custom fields
+   */
+  setCustomFields<C extends WithCustomFields>(
+    client: C,
+    values: CustomFieldUpdate<D>
+  ): C {
+    const fields = (client.CustomFields ?? []).map((field) => ({ ...field }));
+    this.toCustomFields(values).forEach((update) => {
+      const field = fields.find(({ FieldId }) => FieldId === update.FieldId);
+      if (field) {
+        field.Value = update.Value;
+      } else {
+        fields.push(update);
+      }
+    });
+    return { ...client, CustomFields: fields };
+  }
+
+  /**
+   * Format typed values as IntakeQ custom fields, e.g. for the patch passed
+   * to `ClientApi.update()`. `null` becomes an empty value.
+   * @param values The values to format
+   */
+  toCustomFields(values: CustomFieldUpdate<D>): ClientCustomField[] {
+    const formatted = this.format(values, true);
+    return Object.keys(formatted).map((key) => ({
+      FieldId: this.definitions[key].fieldId,
+      Value: formatted[key],
+    }));
+  }
+
+  /**
+   * Format typed values as the `custom` filter of `ClientApi.listClients()`
+   * @param values The values clients must have
+   */
+  filter(values: CustomFieldValues<D>): { [fieldId: string]: string } {
+    const formatted = this.format(values, false);
+    const custom: { [fieldId: string]: string } = {};
+    Object.keys(formatted).forEach((key) => {
+      custom[this.definitions[key].fieldId] = formatted[key];
+    });
+    return custom;
+  }
+
+  /** Format values by key, leaving out `undefined` and `null` unless allowed */
+  private format(
+    values: CustomFieldUpdate<D>,
+    allowNull: boolean
+  ): Record<string, string> {
+    const formatted: Record<string, string> = {};
+    const issues: ValidationIssue[] = [];
+
+    Object.keys(values).forEach((key) => {
+      const value = values[key];
+      const definition = this.definitions[key];
+      if (value === undefined) return;
+      if (!definition) {
+        issues.push({ type: 'unknown_field', path: `$.${key}` });
+        return;
+      }
+      if (value === null && allowNull) {
+        formatted[key] = '';
+        return;
+      }
+
+      const text = value === null ? undefined : format(definition, value);
+      if (text === undefined) {
+        issues.push({
+          type: 'type_mismatch',
+          path: `$.${key}`,
+          expected: describe(definition),
+          received: typeOf(value),
+        });
+        return;
+      }
+      formatted[key] = text;
+    });
+
+    this.assertValid(issues);
+    return formatted;
+  }
+
+  private assertValid(issues: ValidationIssue[]) {
+    if (!issues.length) return;
+    const keys = issues.map(({ path }) => path.slice(2)).join(', ');
+    throw new CustomFieldValidationError(
+      `Custom fields ${keys} do not match their declared types`,
+      { issues }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  buildDuplicateReport,
+  duplicateReportToCsv,
+  scoreDuplicate,
+} from './duplicates';
+
+const jane = {
+  ClientId: 1,
+  Name: 'Jane Doe',
+  FirstName: 'Jane',
+  LastName: 'Doe',
+  Email: 'Jane.Doe@example.com',
+  Phone: '(555) 010-1234',
+  DateOfBirth: 631152000,
+  DateCreated: 1600000000,
+};
+
+describe('scoreDuplicate', () => {
+  it('scores matching emails, phones, names and birth dates', () => {
+    const score = scoreDuplicate(jane, {
+      ClientId: 2,
+      Name: 'Jane Doe',
+      Email: 'jane.doe+intake@example.com',
+      MobilePhone: '+1 555 010 1234',
+      DateOfBirth: 631152000000,
+    });
+
+    expect(score.reasons).toEqual(['email', 'phone', 'name', 'dateOfBirth']);
+    expect(score.score).toBe(1);
+    expect(score.nameSimilarity).toBe(1);
+  });
+
+  it('matches nicknames and swapped names', () => {
+    expect(
+      scoreDuplicate(
+        { FirstName: 'Johnny', LastName: 'Smith' },
+        { Name: 'Smith John' }
+      ).reasons
+    ).toEqual(['name']);
+  });
+
+  it('counts a different birth date against the match', () => {
+    const score = scoreDuplicate(jane, {
+      Name: 'Jane Doe',
+      Phone: '555-010-1234',
+      DateOfBirth: 662688000,
+    });
+
+    expect(score.reasons).toEqual(['phone', 'name']);
+    expect(score.score).toBe(0.45);
+  });
+
+  it('scores unrelated clients zero', () => {
+    const score = scoreDuplicate(jane, {
+      Name: 'Alan Turing',
+      Email: 'alan@example.com',
+      Phone: '555-010-9999',
+    });
+
+    expect(score.score).toBe(0);
+    expect(score.reasons).toEqual([]);
+    expect(score.nameSimilarity).toBeLessThan(0.5);
+  });
+});
+
+describe('buildDuplicateReport', () => {
+  const copy = {
+    ...jane,
+    ClientId: 7,
+    Name: 'Jane Doe',
+    Email: 'jane.doe@example.com',
+    DateCreated: 1700000000,
+  };
+  const other = {
+    ClientId: 3,
+    Name: 'Alan Turing',
+    Email: 'alan@example.com',
+    Phone: '555-010-9999',
+  };
+
+  it('pairs likely duplicates, keeping the older client', () => {
+    const report = buildDuplicateReport([copy, other, jane]);
+
+    expect(report.clientsScanned).toBe(3);
+    expect(report.threshold).toBe(0.6);
+    expect(report.pairs).toHaveLength(1);
+    expect(report.pairs[0].keep.ClientId).toBe(1);
+    expect(report.pairs[0].duplicate.ClientId).toBe(7);
+    expect(report.pairs[0].keep.DateOfBirth).toBe('1990-01-01T00:00:00.000Z');
+  });
+
+  it('leaves out archived clients and pairs under the threshold', () => {
+    expect(
+      buildDuplicateReport([jane, { ...copy, Archived: true }]).pairs
+    ).toEqual([]);
+    expect(
+      buildDuplicateReport([jane, { ...copy, Archived: true }], {
+        includeArchived: true,
+      }).pairs
+    ).toHaveLength(1);
+    expect(
+      buildDuplicateReport([jane, copy], { threshold: 1.01 }).pairs
+    ).toEqual([]);
+  });
+
+  it('formats the report as CSV', () => {
+    const csv = duplicateReportToCsv(buildDuplicateReport([jane, copy]));
+    const [header, row] = csv.trim().split(/\r?\n/);
+
+    expect(header.split(',').slice(0, 4)).toEqual([
+      'score',
+      'reasons',
+      'nameSimilarity',
+      'keepClientId',
+    ]);
+    expect(row).toMatch(/^1,email phone name dateOfBirth,1,1,Jane Doe,/);
+  });
+});
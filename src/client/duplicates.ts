@@ -0,0 +1,288 @@
+import { toCsv } from '../common/csv';
+import { timestampToDate } from '../common/hydration';
+import {
+  DuplicateCheckClient,
+  DuplicateClientSummary,
+  DuplicateOptions,
+  DuplicatePair,
+  DuplicateReason,
+  DuplicateReport,
+  DuplicateScore,
+} from './interfaces';
+
+/** The lowest score reported as a likely duplicate by default */
+export const DUPLICATE_THRESHOLD = 0.6;
+
+const WEIGHTS: Record<DuplicateReason, number> = {
+  email: 0.45,
+  phone: 0.35,
+  name: 0.4,
+  dateOfBirth: 0.25,
+};
+
+/** Names less alike than this do not count towards the score */
+const NAME_SIMILARITY = 0.8;
+
+/** Taken off when both clients have a date of birth and they differ */
+const DATE_OF_BIRTH_MISMATCH = 0.3;
+
+function normalizeName(client: DuplicateCheckClient): string[] {
+  const name =
+    client.FirstName || client.LastName
+      ? `${client.FirstName ?? ''} ${client.LastName ?? ''}`
+      : client.Name ?? '';
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function normalizeEmail(email?: string): string | undefined {
+  const [local, domain] = (email ?? '').trim().toLowerCase().split('@');
+  if (!local || !domain) return undefined;
+  return `${local.split('+')[0]}@${domain}`;
+}
+
+function normalizePhones(client: DuplicateCheckClient): string[] {
+  const phones = [client.Phone, client.MobilePhone, client.HomePhone]
+    .map((phone) => (phone ?? '').replace(/\D/g, ''))
+    .map((digits) =>
+      digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits
+    )
+    .filter((digits) => digits.length >= 7);
+  return Array.from(new Set(phones));
+}
+
+function dayOf(value?: number | Date | null): string | undefined {
+  return timestampToDate(value)?.toISOString().split('T')[0];
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/** Also counts a first name that starts another as alike, e.g. John and Johnny */
+function firstNameSimilarity(a: string, b: string): number {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  const score = similarity(a, b);
+  return short.length >= 3 && long.startsWith(short)
+    ? Math.max(0.9, score)
+    : score;
+}
+
+/**
+ * How alike two names are, from the first and last words. The words are
+ * also compared swapped, so "Smith John" matches "John Smith".
+ */
+function nameSimilarity(a: string[], b: string[]): number {
+  if (a.length < 2 || b.length < 2) return similarity(a.join(' '), b.join(' '));
+  const compare = (x: string[], y: string[]) =>
+    (firstNameSimilarity(x[0], y[0]) +
+      similarity(x[x.length - 1], y[y.length - 1])) /
+    2;
+  return Math.max(compare(a, b), compare(a, [...b].reverse()));
+}
+
+/**
+ * Score how likely two clients are the same person, from their normalized
+ * names, emails, phone numbers and dates of birth
+ * @param a A client
+ * @param b Another client
+ */
+export function scoreDuplicate(
+  a: DuplicateCheckClient,
+  b: DuplicateCheckClient
+): DuplicateScore {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+  const add = (reason: DuplicateReason, weight = WEIGHTS[reason]) => {
+    reasons.push(reason);
+    score += weight;
+  };
+
+  const email = normalizeEmail(a.Email);
+  if (email && email === normalizeEmail(b.Email)) add('email');
+
+  const phones = normalizePhones(b);
+  if (normalizePhones(a).some((phone) => phones.includes(phone))) {
+    add('phone');
+  }
+
+  const names = nameSimilarity(normalizeName(a), normalizeName(b));
+  if (names >= NAME_SIMILARITY) add('name', WEIGHTS.name * names);
+
+  const born = [dayOf(a.DateOfBirth), dayOf(b.DateOfBirth)];
+  if (born[0] && born[1]) {
+    if (born[0] === born[1]) {
+      add('dateOfBirth');
+    } else {
+      score -= DATE_OF_BIRTH_MISMATCH;
+    }
+  }
+
+  return {
+    score: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100,
+    reasons,
+    nameSimilarity: Math.round(names * 100) / 100,
+  };
+}
+
+/**
+ * The keys a client is grouped under, so only clients sharing an email,
+ * phone, date of birth or last name and first initial are compared
+ */
+function blockingKeys(client: DuplicateCheckClient): string[] {
+  const keys = normalizePhones(client).map((phone) => `phone:${phone}`);
+  const email = normalizeEmail(client.Email);
+  if (email) keys.push(`email:${email}`);
+  const born = dayOf(client.DateOfBirth);
+  if (born) keys.push(`born:${born}`);
+  const name = normalizeName(client);
+  if (name.length) {
+    keys.push(`name:${name[name.length - 1]}:${name[0][0]}`);
+    keys.push(`name:${name[0]}:${name[name.length - 1][0]}`);
+  }
+  return keys;
+}
+
+function summarize(client: DuplicateCheckClient): DuplicateClientSummary {
+  return {
+    ClientId: client.ClientId,
+    Name: client.Name,
+    Email: client.Email,
+    Phone: client.Phone,
+    DateOfBirth: timestampToDate(client.DateOfBirth)?.toISOString(),
+    DateCreated: timestampToDate(client.DateCreated)?.toISOString(),
+  };
+}
+
+/** Whichever client was created first, or has the lower id */
+function isOlder(a: DuplicateCheckClient, b: DuplicateCheckClient): boolean {
+  const created = [
+    timestampToDate(a.DateCreated),
+    timestampToDate(b.DateCreated),
+  ];
+  if (
+    created[0] &&
+    created[1] &&
+    created[0].getTime() !== created[1].getTime()
+  ) {
+    return created[0] < created[1];
+  }
+  return (a.ClientId ?? 0) <= (b.ClientId ?? 0);
+}
+
+/**
+ * Find the pairs of clients that are likely duplicates
+ * @param clients Clients with their profiles
+ * @param options The score threshold and whether to include archived clients
+ */
+export function buildDuplicateReport(
+  clients: DuplicateCheckClient[],
+  options: DuplicateOptions = {}
+): DuplicateReport {
+  const { threshold = DUPLICATE_THRESHOLD, includeArchived = false } = options;
+  const candidates = clients.filter(
+    (client) => includeArchived || !client.Archived
+  );
+
+  const blocks = new Map<string, number[]>();
+  candidates.forEach((client, index) => {
+    blockingKeys(client).forEach((key) => {
+      if (!blocks.has(key)) blocks.set(key, []);
+      blocks.get(key).push(index);
+    });
+  });
+
+  const compared = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  blocks.forEach((indexes) => {
+    indexes.forEach((i, position) => {
+      indexes.slice(position + 1).forEach((j) => {
+        const id = `${i}:${j}`;
+        if (compared.has(id)) return;
+        compared.add(id);
+
+        const [a, b] = [candidates[i], candidates[j]];
+        const score = scoreDuplicate(a, b);
+        if (score.score < threshold) return;
+        const [keep, duplicate] = isOlder(a, b) ? [a, b] : [b, a];
+        pairs.push({
+          ...score,
+          keep: summarize(keep),
+          duplicate: summarize(duplicate),
+        });
+      });
+    });
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    clientsScanned: candidates.length,
+    threshold,
+    pairs: pairs.sort((a, b) => b.score - a.score),
+  };
+}
+
+/**
+ * Format a duplicate report as CSV, one line per pair
+ * @param report The report from `buildDuplicateReport()` or
+ * `ClientApi.findAllDuplicates()`
+ */
+export function duplicateReportToCsv(report: DuplicateReport): string {
+  const columns = [
+    'score',
+    'reasons',
+    'nameSimilarity',
+    'keepClientId',
+    'keepName',
+    'keepEmail',
+    'keepPhone',
+    'keepDateOfBirth',
+    'keepDateCreated',
+    'duplicateClientId',
+    'duplicateName',
+    'duplicateEmail',
+    'duplicatePhone',
+    'duplicateDateOfBirth',
+    'duplicateDateCreated',
+  ];
+  const prefix = (name: string, summary: DuplicateClientSummary) => {
+    const row: Record<string, unknown> = {};
+    Object.keys(summary).forEach((key) => {
+      row[`${name}${key}`] = summary[key];
+    });
+    return row;
+  };
+
+  return toCsv(
+    columns,
+    report.pairs.map((pair) => ({
+      score: pair.score,
+      reasons: pair.reasons.join(' '),
+      nameSimilarity: pair.nameSimilarity,
+      ...prefix('keep', pair.keep),
+      ...prefix('duplicate', pair.duplicate),
+    }))
+  );
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildClient } from '../testing/builders';
+import { ClientImportBackend, ClientImporter } from './import';
+import { ClientWithProfile } from './interfaces';
+
+const CSV = [
+  'First Name,Last Name,E-mail,DOB',
+  'Ada,Lovelace,ada@example.com,1815-12-10',
+  'Alan,Turing,alan@example.com,06/23/1912',
+  'Grace,Hopper,not-an-email,1906-12-09',
+].join('\n');
+
+const columns = {
+  'First Name': 'FirstName',
+  'Last Name': 'LastName',
+  'E-mail': 'Email',
+  DOB: 'DateOfBirth',
+} as const;
+
+function stubBackend(existing: ClientWithProfile[] = []) {
+  let nextId = 100;
+  const backend = {
+    search: jest.fn(async (search: string) =>
+      existing.filter(({ Email }) => Email === search)
+    ),
+    create: jest.fn(async () => nextId++),
+    update: jest.fn(async () => [
+      { field: 'DateOfBirth', before: 0, after: 1 },
+    ]),
+  };
+  return backend as typeof backend & ClientImportBackend;
+}
+
+describe('ClientImporter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intakeq-import-'));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('plans each row without saving anything', async () => {
+    const alan = buildClient({
+      FirstName: 'Alan',
+      LastName: 'Turing',
+      Email: 'alan@example.com',
+    });
+    const backend = stubBackend([alan]);
+    const importer = new ClientImporter(backend, { columns });
+
+    const plan = await importer.dryRun(CSV);
+
+    expect(plan.rows.map(({ action }) => action)).toEqual([
+      'create',
+      'update',
+      'invalid',
+    ]);
+    expect(plan.rows[0].client).toEqual({
+      FirstName: 'Ada',
+      LastName: 'Lovelace',
+      Name: 'Ada Lovelace',
+      Email: 'ada@example.com',
+      DateOfBirth: Date.UTC(1815, 11, 10) / 1000,
+    });
+    expect(plan.rows[1].clientId).toBe(alan.ClientId);
+    expect(plan.rows[2].errors).toEqual([
+      'E-mail is not a valid email address',
+    ]);
+    expect(plan.counts).toMatchObject({ create: 1, update: 1, invalid: 1 });
+    expect(backend.create).not.toHaveBeenCalled();
+    expect(backend.update).not.toHaveBeenCalled();
+  });
+
+  it('resumes from the checkpoint file', async () => {
+    const checkpointFile = path.join(dir, 'import.checkpoint');
+    const errorReportFile = path.join(dir, 'errors.csv');
+    const backend = stubBackend();
+    backend.create.mockImplementationOnce(async () => {
+      throw new Error('IntakeQ is down');
+    });
+    const importer = new ClientImporter(backend, {
+      columns,
+      checkpointFile,
+      errorReportFile,
+      concurrency: 1,
+    });
+
+    const first = await importer.run(CSV);
+    const report = await fs.readFile(errorReportFile, 'utf8');
+    const second = await importer.run(CSV);
+
+    expect(first.rows.map(({ status }) => status)).toEqual([
+      'failed',
+      'created',
+      'invalid',
+    ]);
+    expect(report).toContain('IntakeQ is down');
+    expect(report).toContain('not-an-email');
+    expect(second.rows.map(({ status }) => status)).toEqual([
+      'created',
+      'skipped',
+      'invalid',
+    ]);
+    expect(second.rows[1].clientId).toBe(first.rows[1].clientId);
+    expect(backend.create).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports the line each row starts on', async () => {
+    const csv = [
+      'First Name,Last Name,E-mail,DOB',
+      '',
+      '"Ada',
+      'Augusta",Lovelace,ada@example.com,1815-12-10',
+      'Alan,Turing,ada@example.com,06/23/1912',
+    ].join('\r\n');
+
+    const plan = await new ClientImporter(stubBackend(), { columns }).dryRun(
+      csv
+    );
+
+    expect(plan.rows.map(({ line }) => line)).toEqual([3, 5]);
+    expect(plan.rows[1].errors).toEqual(['Email is also used on line 3']);
+  });
+
+  it('records a failed email lookup as the error of its row', async () => {
+    const backend = stubBackend();
+    backend.search.mockImplementation(async (search: string) => {
+      if (search === 'alan@example.com') throw new Error('IntakeQ is down');
+      return [];
+    });
+    const importer = new ClientImporter(backend, { columns });
+
+    const plan = await importer.dryRun(CSV);
+    const result = await importer.run(CSV);
+
+    expect(plan.rows.map(({ action }) => action)).toEqual([
+      'create',
+      'invalid',
+      'invalid',
+    ]);
+    expect(plan.rows[1].errors).toEqual([
+      'Could not look up clients with this email: IntakeQ is down',
+    ]);
+    expect(result.rows.map(({ status }) => status)).toEqual([
+      'created',
+      'failed',
+      'invalid',
+    ]);
+  });
+
+  it('refuses a CSV without a mapped column', async () => {
+    const importer = new ClientImporter(stubBackend(), {
+      columns: { ...columns, Phone: 'Phone' },
+    });
+
+    await expect(importer.dryRun(CSV)).rejects.toThrow('CSV has no Phone');
+  });
+});
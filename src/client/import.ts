@@ -0,0 +1,405 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { mapConcurrent } from '../common/concurrency';
+import { parseCsvRecords, toCsv } from '../common/csv';
+import { CustomFieldValidationError } from '../common/errors';
+import { parseDate } from '../common/query';
+import {
+  ClientFieldChange,
+  ClientImportAction,
+  ClientImportColumn,
+  ClientImportOptions,
+  ClientImportOutcome,
+  ClientImportPlan,
+  ClientImportResult,
+  ClientImportRow,
+  ClientImportStatus,
+  ClientPatch,
+  ClientWithProfile,
+} from './interfaces';
+import { diffClients, mergeClient } from './merge';
+
+/** What the importer needs from `ClientApi` */
+export interface ClientImportBackend {
+  /** Clients matching a search, with their profiles and Unix timestamps */
+  search(search: string): Promise<ClientWithProfile[]>;
+  /** Create a client, returning its id */
+  create(client: Partial<ClientWithProfile>): Promise<number>;
+  /** Merge a patch into a client, returning what changed */
+  update(clientId: number, patch: ClientPatch): Promise<ClientFieldChange[]>;
+}
+
+interface CheckpointEntry {
+  key: string;
+  line: number;
+  status: ClientImportStatus;
+  clientId?: number;
+  completedAt: string;
+}
+
+interface ParsedRow extends ClientImportRow {
+  /** A hash of the row's cells, to find it in the checkpoint file */
+  key: string;
+  cells: Record<string, string>;
+  /** Searching for the row's email failed, so `run()` reports it as failed */
+  lookupFailed?: boolean;
+}
+
+const DATE_FIELDS = [
+  'DateOfBirth',
+  'PrimaryInsuranceHolderDateOfBirth',
+  'SecondaryInsuranceHolderDateOfBirth',
+];
+
+const PHONE_FIELDS = ['Phone', 'HomePhone', 'WorkPhone', 'MobilePhone'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function countBy<K extends string>(keys: K[], values: K[]): Record<K, number> {
+  const counts = {} as Record<K, number>;
+  keys.forEach((key) => {
+    counts[key] = 0;
+  });
+  values.forEach((value) => {
+    counts[value] += 1;
+  });
+  return counts;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Imports clients from a CSV file, mapping its columns to client fields and
+ * custom fields. A row whose email belongs to an existing client updates that
+ * client with `ClientApi.update()`, leaving fields the row does not fill
+ * alone; other rows create a client with `ClientApi.save()`.
+ *
+ * Get one from `ClientApi.importer()`.
+ *
+ * ```ts
+ * const importer = api.Client.importer({
+ *   columns: {
+ *     'First Name': 'FirstName',
+ *     'Last Name': 'LastName',
+ *     'E-mail': 'Email',
+ *     DOB: 'DateOfBirth',
+ *     Insurer: { customField: 'a1b2' },
+ *   },
+ *   checkpointFile: 'import.checkpoint',
+ *   errorReportFile: 'import-errors.csv',
+ * });
+ *
+ * const plan = await importer.dryRun(csv); // nothing is saved
+ * const result = await importer.run(csv);
+ * ```
+ */
+export class ClientImporter {
+  constructor(
+    private backend: ClientImportBackend,
+    private options: ClientImportOptions
+  ) {}
+
+  /**
+   * Validate every row and look up existing clients by email, without saving
+   * anything
+   * @param csv The CSV text, with a header line
+   * @returns What `run()` would do with each row
+   */
+  async dryRun(csv: string): Promise<ClientImportPlan> {
+    const { rows } = await this.plan(csv);
+    return {
+      rows: rows.map((row) => ({
+        line: row.line,
+        action: row.action,
+        clientId: row.clientId,
+        client: row.client,
+        changes: row.changes,
+        errors: row.errors,
+      })),
+      counts: countBy<ClientImportAction>(
+        ['create', 'update', 'unchanged', 'skipped', 'invalid'],
+        rows.map(({ action }) => action)
+      ),
+    };
+  }
+
+  /**
+   * Import the rows. A row that fails to save does not stop the others; it
+   * is reported as `failed` and written to the error report. Rows that were
+   * imported are added to the checkpoint file as they finish.
+   * @param csv The CSV text, with a header line
+   */
+  async run(csv: string): Promise<ClientImportResult> {
+    const { headers, rows } = await this.plan(csv);
+    const outcomes = await mapConcurrent(
+      rows,
+      this.options.concurrency ?? 4,
+      (row) => this.execute(row)
+    );
+
+    if (this.options.errorReportFile) {
+      const failed = rows
+        .map((row, index) => ({ ...row, errors: outcomes[index].errors }))
+        .filter((row, index) =>
+          ['invalid', 'failed'].includes(outcomes[index].status)
+        );
+      await this.writeErrorReport(headers, failed);
+    }
+
+    return {
+      rows: outcomes,
+      counts: countBy<ClientImportStatus>(
+        ['created', 'updated', 'unchanged', 'skipped', 'invalid', 'failed'],
+        outcomes.map(({ status }) => status)
+      ),
+    };
+  }
+
+  private async plan(
+    csv: string
+  ): Promise<{ headers: string[]; rows: ParsedRow[] }> {
+    const { headers, records, lines } = parseCsvRecords(csv);
+    const missing = Object.keys(this.options.columns).filter(
+      (column) => !headers.includes(column)
+    );
+    if (missing.length) {
+      throw new Error(`CSV has no ${missing.join(', ')} column`);
+    }
+
+    const done = await this.readCheckpoint();
+    const emails = new Map<string, number>();
+    const rows = records.map((cells, index) => {
+      const row = this.parseRow(cells, lines[index]);
+      const email = row.client.Email?.toLowerCase();
+      if (email && emails.has(email)) {
+        row.errors.push(`Email is also used on line ${emails.get(email)}`);
+      } else if (email) {
+        emails.set(email, row.line);
+      }
+
+      if (done.has(row.key)) {
+        row.action = 'skipped';
+        row.clientId = done.get(row.key).clientId;
+      } else if (row.errors.length) {
+        row.action = 'invalid';
+      }
+      return row;
+    });
+
+    await mapConcurrent(rows, this.options.concurrency ?? 4, async (row) => {
+      if (row.action !== 'create' || !row.client.Email) return;
+      try {
+        await this.matchExisting(row);
+      } catch (error) {
+        row.action = 'invalid';
+        row.lookupFailed = true;
+        row.errors.push(
+          `Could not look up clients with this email: ${errorMessage(error)}`
+        );
+      }
+    });
+    return { headers, rows };
+  }
+
+  /** Turn a create into an update when a client already has the row's email */
+  private async matchExisting(row: ParsedRow): Promise<void> {
+    const email = row.client.Email.toLowerCase();
+    const existing = (await this.backend.search(row.client.Email)).filter(
+      (client) => client.Email?.trim().toLowerCase() === email
+    );
+    if (existing.length > 1) {
+      row.action = 'invalid';
+      row.errors.push(
+        `Email matches ${existing.length} existing clients: ${existing
+          .map(({ ClientId }) => ClientId)
+          .join(', ')}`
+      );
+    } else if (existing.length) {
+      const [client] = existing;
+      row.clientId = client.ClientId;
+      row.changes = diffClients(client, mergeClient(client, row.client));
+      row.action = row.changes.length ? 'update' : 'unchanged';
+    }
+  }
+
+  private parseRow(cells: Record<string, string>, line: number): ParsedRow {
+    const client: ClientPatch = {};
+    const errors: string[] = [];
+
+    Object.keys(this.options.columns).forEach((column) => {
+      const value = cells[column].trim();
+      if (!value) return;
+      try {
+        this.setField(client, this.options.columns[column], value, column);
+      } catch (error) {
+        errors.push(errorMessage(error));
+      }
+    });
+
+    if (!client.Name && (client.FirstName || client.LastName)) {
+      client.Name = [client.FirstName, client.LastName]
+        .filter(Boolean)
+        .join(' ');
+    }
+    if (!client.Name) errors.push('Row has no name');
+
+    return {
+      key: createHash('sha256')
+        .update(JSON.stringify(cells))
+        .digest('hex')
+        .slice(0, 16),
+      cells,
+      line,
+      action: 'create',
+      client,
+      errors,
+    };
+  }
+
+  private setField(
+    client: ClientPatch,
+    target: ClientImportColumn,
+    value: string,
+    column: string
+  ) {
+    if (typeof target === 'object') {
+      const { customFields } = this.options;
+      const definition = customFields?.definitions[target.customField];
+      let fields = [{ FieldId: target.customField, Value: value }];
+      if (definition) {
+        try {
+          const values = customFields.getCustomFields({
+            CustomFields: [{ FieldId: definition.fieldId, Value: value }],
+          });
+          fields = customFields.toCustomFields(values);
+        } catch (error) {
+          if (!(error instanceof CustomFieldValidationError)) throw error;
+          throw new Error(
+            `${column} is not a valid ${error.issues[0].expected}`
+          );
+        }
+      }
+      client.CustomFields = [...(client.CustomFields ?? []), ...fields];
+      return;
+    }
+
+    const fields = client as Record<string, unknown>;
+    if (DATE_FIELDS.includes(target)) {
+      const date = parseDate(value);
+      if (!date) {
+        throw new Error(`${column} is not a yyyy-MM-dd or MM/dd/yyyy date`);
+      }
+      // Stored as midnight UTC, the way IntakeQ keeps dates of birth
+      fields[target] =
+        Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 1000;
+    } else if (PHONE_FIELDS.includes(target)) {
+      const digits = value.replace(/\D/g, '').length;
+      if (!/^[\d\s().+\-x]+$/i.test(value) || digits < 7 || digits > 15) {
+        throw new Error(`${column} is not a valid phone number`);
+      }
+      fields[target] = value;
+    } else if (target === 'Email') {
+      if (!EMAIL_PATTERN.test(value)) {
+        throw new Error(`${column} is not a valid email address`);
+      }
+      client.Email = value;
+    } else if (target === 'Tags') {
+      client.Tags = value
+        .split(/[,;]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+    } else if (target === 'Archived') {
+      client.Archived = ['true', 'yes', '1'].includes(value.toLowerCase());
+    } else {
+      fields[target] = value;
+    }
+  }
+
+  private async execute(row: ParsedRow): Promise<ClientImportOutcome> {
+    const outcome: ClientImportOutcome = {
+      line: row.line,
+      status: 'invalid',
+      clientId: row.clientId,
+      errors: row.errors,
+    };
+    if (row.action === 'invalid') {
+      return row.lookupFailed ? { ...outcome, status: 'failed' } : outcome;
+    }
+    if (row.action === 'skipped') return { ...outcome, status: 'skipped' };
+
+    try {
+      if (row.action === 'create') {
+        outcome.clientId = await this.backend.create(
+          row.client as Partial<ClientWithProfile>
+        );
+        outcome.status = 'created';
+      } else if (row.action === 'update') {
+        outcome.changes = await this.backend.update(row.clientId, row.client);
+        outcome.status = outcome.changes.length ? 'updated' : 'unchanged';
+      } else {
+        outcome.status = 'unchanged';
+      }
+    } catch (error) {
+      return { ...outcome, status: 'failed', errors: [errorMessage(error)] };
+    }
+
+    await this.appendCheckpoint({
+      key: row.key,
+      line: row.line,
+      status: outcome.status,
+      clientId: outcome.clientId,
+      completedAt: new Date().toISOString(),
+    });
+    return outcome;
+  }
+
+  private async readCheckpoint(): Promise<Map<string, CheckpointEntry>> {
+    const entries = new Map<string, CheckpointEntry>();
+    const { checkpointFile } = this.options;
+    if (!checkpointFile) return entries;
+
+    let text = '';
+    try {
+      text = await fs.readFile(checkpointFile, 'utf8');
+    } catch (error) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+    text
+      .split('\n')
+      .filter((line) => line.trim())
+      .forEach((line) => {
+        const entry: CheckpointEntry = JSON.parse(line);
+        entries.set(entry.key, entry);
+      });
+    return entries;
+  }
+
+  /** One JSON line per imported row, so a crash loses at most a line */
+  private async appendCheckpoint(entry: CheckpointEntry): Promise<void> {
+    const { checkpointFile } = this.options;
+    if (!checkpointFile) return;
+    await fs.mkdir(path.dirname(checkpointFile), { recursive: true });
+    await fs.appendFile(checkpointFile, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+
+  /** The failing rows as they were in the CSV, with their line and errors */
+  private async writeErrorReport(headers: string[], rows: ParsedRow[]) {
+    const file = this.options.errorReportFile;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(
+      file,
+      toCsv(
+        ['line', 'errors', ...headers],
+        rows.map((row) => ({
+          ...row.cells,
+          line: row.line,
+          errors: row.errors.join('; '),
+        }))
+      ),
+      'utf8'
+    );
+  }
+}
@@ -1,3 +1,7 @@
+import { Hydrated, PaginationOptions } from '../common/interfaces';
+import { RequestOptions } from '../http/interfaces';
+import { CustomFieldMapping } from './custom-fields';
+
 export interface ClientReceived {
   ClientNumber: number;
   Name: string;
@@ -58,6 +62,15 @@ export interface ClientWithProfile extends Client {
   SquareCustomerId: string | null;
 }
 
+export type HydratedClientWithProfile = Hydrated<
+  ClientWithProfile,
+  | 'DateOfBirth'
+  | 'PrimaryInsuranceHolderDateOfBirth'
+  | 'SecondaryInsuranceHolderDateOfBirth'
+  | 'DateCreated'
+  | 'LastActivityDate'
+>;
+
 export interface ClientTag {
   ClientId: number;
   Tag: string;
@@ -66,9 +79,343 @@ export interface ClientTag {
 export interface ListClientsRequest {
   search?: string;
   page?: number;
-  dateCreatedStart?: string;
-  dateCreatedEnd?: string;
+  /** yyyy-MM-dd, or a `Date` */
+  dateCreatedStart?: string | Date;
+  /** yyyy-MM-dd, or a `Date` */
+  dateCreatedEnd?: string | Date;
+  /**
+   * Custom field values by `FieldId`. Build it from typed values with
+   * `CustomFieldMapping.filter()`.
+   */
   custom?: {
     [fieldId: string]: string;
   };
 }
+
+export type ClientCustomField = ClientWithProfile['CustomFields'][number];
+
+/**
+ * The fields to change on a client. `CustomFields` are merged into the
+ * client's by `FieldId`, and `Tags` are added to the client's.
+ */
+export type ClientPatch = Partial<
+  Omit<ClientWithProfile, 'ClientId' | 'CustomFields'>
+> & {
+  CustomFields?: (Partial<ClientCustomField> &
+    Pick<ClientCustomField, 'FieldId'>)[];
+};
+
+/** A field that an update changed */
+export interface ClientFieldChange {
+  /** The field name, or `CustomFields.<FieldId>` for a custom field */
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ClientUpdateResult<C = ClientWithProfile> {
+  /** The client as saved */
+  client: C;
+  /** The fields that changed, empty when the patch changed nothing */
+  changes: ClientFieldChange[];
+}
+
+/** How a date custom field is stored. Both are read, whichever is declared */
+export type CustomFieldDateFormat = 'yyyy-MM-dd' | 'MM/dd/yyyy';
+
+export type CustomFieldDefinition =
+  | { type: 'string'; fieldId: string }
+  | { type: 'number'; fieldId: string }
+  | { type: 'date'; fieldId: string; format: CustomFieldDateFormat }
+  | {
+      type: 'boolean';
+      fieldId: string;
+      trueValue: string;
+      falseValue: string;
+    }
+  | { type: 'enum'; fieldId: string; values: readonly string[] };
+
+/** Typed keys mapped to the IntakeQ custom fields they are stored in */
+export type CustomFieldDefinitions = Record<string, CustomFieldDefinition>;
+
+/** The value type of a custom field definition */
+export type CustomFieldValue<F extends CustomFieldDefinition> = F extends {
+  type: 'enum';
+  values: readonly (infer V)[];
+}
+  ? V
+  : F['type'] extends 'number'
+  ? number
+  : F['type'] extends 'date'
+  ? Date
+  : F['type'] extends 'boolean'
+  ? boolean
+  : string;
+
+/**
+ * The typed values of a client's custom fields. A field the client has no
+ * value for is left out.
+ */
+export type CustomFieldValues<D extends CustomFieldDefinitions> = {
+  [K in keyof D]?: CustomFieldValue<D[K]>;
+};
+
+/** Values to write: `null` clears a field, `undefined` leaves it as is */
+export type CustomFieldUpdate<D extends CustomFieldDefinitions> = {
+  [K in keyof D]?: CustomFieldValue<D[K]> | null;
+};
+
+/**
+ * The fields duplicate detection looks at. Dates may be Unix timestamps or
+ * hydrated `Date`s.
+ */
+export type DuplicateCheckClient = Partial<
+  Pick<
+    ClientWithProfile,
+    | 'ClientId'
+    | 'Name'
+    | 'FirstName'
+    | 'LastName'
+    | 'Email'
+    | 'Phone'
+    | 'MobilePhone'
+    | 'HomePhone'
+    | 'Archived'
+  >
+> & {
+  DateOfBirth?: number | Date | null;
+  DateCreated?: number | Date | null;
+};
+
+/**
+ * * email – The emails match, ignoring case and `+tags`.
+ * * phone – A `Phone`, `MobilePhone` or `HomePhone` number matches.
+ * * name – The normalized names are similar, e.g. Jon and John Smith.
+ * * dateOfBirth – The dates of birth match.
+ */
+export type DuplicateReason = 'email' | 'phone' | 'name' | 'dateOfBirth';
+
+export interface DuplicateScore {
+  /** 0 to 1. Pairs at or above the threshold are likely duplicates */
+  score: number;
+  reasons: DuplicateReason[];
+  /** 0 to 1, how alike the normalized names are */
+  nameSimilarity: number;
+}
+
+export interface DuplicateMatch<C = ClientWithProfile> extends DuplicateScore {
+  /** The existing client that looks like a duplicate */
+  client: C;
+}
+
+export interface DuplicateClientSummary {
+  ClientId: number;
+  Name: string;
+  Email: string;
+  Phone: string;
+  /** ISO date */
+  DateOfBirth?: string;
+  /** ISO date */
+  DateCreated?: string;
+}
+
+export interface DuplicatePair extends DuplicateScore {
+  /** The client created first, suggested as the one to keep */
+  keep: DuplicateClientSummary;
+  /** The client suggested to merge into `keep` */
+  duplicate: DuplicateClientSummary;
+}
+
+export interface DuplicateReport {
+  /** ISO date */
+  generatedAt: string;
+  clientsScanned: number;
+  threshold: number;
+  /** Highest score first */
+  pairs: DuplicatePair[];
+}
+
+export interface DuplicateOptions {
+  /** The lowest score reported as a duplicate. Defaults to 0.6 */
+  threshold?: number;
+  /** Compare archived clients too. Defaults to false */
+  includeArchived?: boolean;
+}
+
+export interface SaveClientOptions<C = ClientWithProfile>
+  extends RequestOptions {
+  /**
+   * Look for likely duplicates before creating a client. Clients with a
+   * `ClientId` are updates and are not checked.
+   * * warn – Pass the matches to `onDuplicates` and save anyway.
+   * * throw – Throw a `DuplicateClientError` instead of saving.
+   * Off by default.
+   */
+  duplicateCheck?: 'warn' | 'throw';
+  /** Called with the likely duplicates. Without it, warn mode drops them */
+  onDuplicates?: (matches: DuplicateMatch<C>[]) => void;
+  /** The lowest score counted as a duplicate. Defaults to 0.6 */
+  duplicateThreshold?: number;
+}
+
+/** The client fields a CSV column can fill */
+export type ClientImportField = keyof Omit<
+  ClientWithProfile,
+  | 'ClientId'
+  | 'CustomFields'
+  | 'DateCreated'
+  | 'LastActivityDate'
+  | 'Guid'
+  | 'StripeCustomerId'
+  | 'SquareCustomerId'
+>;
+
+/**
+ * Where a CSV column goes: a client field, or a custom field by `FieldId` or
+ * by key of the importer's `customFields` mapping
+ */
+export type ClientImportColumn = ClientImportField | { customField: string };
+
+export interface ClientImportOptions {
+  /**
+   * CSV headers mapped to the field they fill. Columns left out are ignored,
+   * and so are empty cells, so an update never blanks a field.
+   */
+  columns: Record<string, ClientImportColumn>;
+  /**
+   * Typed custom fields. A `{ customField }` column naming one of its keys is
+   * parsed and validated as that key's type.
+   */
+  customFields?: CustomFieldMapping<any>;
+  /** How many clients are looked up or saved at once. Defaults to 4 */
+  concurrency?: number;
+  /**
+   * Completed rows are appended to this file, and skipped when the import is
+   * run again, so an interrupted import can be resumed
+   */
+  checkpointFile?: string;
+  /** Invalid and failed rows are written to this CSV file, with their errors */
+  errorReportFile?: string;
+}
+
+/**
+ * * create – No client has the row's email, so a client is created.
+ * * update – The client with the row's email is updated.
+ * * unchanged – The client with the row's email already has its values.
+ * * skipped – The checkpoint file says the row was imported already.
+ * * invalid – The row has errors, or looking up its email failed, and is not
+ *   imported.
+ */
+export type ClientImportAction =
+  | 'create'
+  | 'update'
+  | 'unchanged'
+  | 'skipped'
+  | 'invalid';
+
+export interface ClientImportRow {
+  /** The line of the row in the CSV, the header being line 1 */
+  line: number;
+  action: ClientImportAction;
+  /** The existing client, for updates */
+  clientId?: number;
+  /** The fields read from the row */
+  client: ClientPatch;
+  /** The fields an update changes */
+  changes?: ClientFieldChange[];
+  errors: string[];
+}
+
+export interface ClientImportPlan {
+  rows: ClientImportRow[];
+  counts: Record<ClientImportAction, number>;
+}
+
+/**
+ * * created, updated, unchanged, skipped, invalid – As planned.
+ * * failed – IntakeQ rejected the save, or the lookup of the row's email,
+ *   see `errors`. Importing the file again retries the row.
+ */
+export type ClientImportStatus =
+  | 'created'
+  | 'updated'
+  | 'unchanged'
+  | 'skipped'
+  | 'invalid'
+  | 'failed';
+
+export interface ClientImportOutcome {
+  line: number;
+  status: ClientImportStatus;
+  clientId?: number;
+  changes?: ClientFieldChange[];
+  errors: string[];
+}
+
+export interface ClientImportResult {
+  rows: ClientImportOutcome[];
+  counts: Record<ClientImportStatus, number>;
+}
+
+/**
+ * Which clients belong to a segment. Every condition given must hold. Tags
+ * are compared ignoring case, and dates by day, in the local time zone, with
+ * both ends included.
+ */
+export interface ClientSegment {
+  /** Clients with every one of these tags */
+  tags?: string[];
+  /** Clients with at least one of these tags */
+  anyTags?: string[];
+  /** Clients with none of these tags */
+  excludeTags?: string[];
+  /** yyyy-MM-dd, or a `Date` */
+  dateCreatedStart?: string | Date;
+  /** yyyy-MM-dd, or a `Date` */
+  dateCreatedEnd?: string | Date;
+  /** Clients last active on or after this day. yyyy-MM-dd, or a `Date` */
+  lastActivityStart?: string | Date;
+  /** Clients last active on or before this day. yyyy-MM-dd, or a `Date` */
+  lastActivityEnd?: string | Date;
+  /**
+   * Exact custom field values by `FieldId`. Build it from typed values with
+   * `CustomFieldMapping.filter()`.
+   */
+  custom?: {
+    [fieldId: string]: string;
+  };
+  /** Include archived clients. Defaults to false */
+  includeArchived?: boolean;
+}
+
+export interface BulkTagOptions extends PaginationOptions {
+  /** Work out which clients would change without changing any */
+  dryRun?: boolean;
+  /** How many clients are tagged at once. Defaults to 4 */
+  concurrency?: number;
+  /** Retry each tag request on transient failures */
+  retry?: boolean;
+}
+
+/**
+ * * planned – A dry run would add or remove the tags.
+ * * done – The tags were added or removed.
+ * * unchanged – The client already had, or lacked, every tag.
+ * * failed – A tag request failed, see `error`.
+ */
+export type BulkTagStatus = 'planned' | 'done' | 'unchanged' | 'failed';
+
+export interface BulkTagOutcome {
+  ClientId: number;
+  Name: string;
+  /** The tags added or removed, or that a dry run would add or remove */
+  tags: string[];
+  status: BulkTagStatus;
+  error?: string;
+}
+
+export interface BulkTagResult {
+  dryRun: boolean;
+  clients: BulkTagOutcome[];
+  counts: Record<BulkTagStatus, number>;
+}
@@ -0,0 +1,87 @@
+import {
+  ClientCustomField,
+  ClientFieldChange,
+  ClientPatch,
+  ClientWithProfile,
+} from './interfaces';
+
+/**
+ * Apply a patch to a client. `CustomFields` are merged by `FieldId` and
+ * `Tags` are unioned, so tags are never removed; other fields are replaced
+ * unless `undefined`.
+ */
+export function mergeClient(
+  client: ClientWithProfile,
+  patch: ClientPatch
+): ClientWithProfile {
+  const merged = { ...client };
+  Object.keys(patch).forEach((key) => {
+    if (patch[key] !== undefined && key !== 'CustomFields' && key !== 'Tags') {
+      merged[key] = patch[key];
+    }
+  });
+
+  if (patch.Tags) {
+    const tags = client.Tags ?? [];
+    merged.Tags = [...tags, ...patch.Tags.filter((tag) => !tags.includes(tag))];
+  }
+
+  if (patch.CustomFields) {
+    const fields = (client.CustomFields ?? []).map((field) => ({ ...field }));
+    patch.CustomFields.forEach((update) => {
+      const field = fields.find(({ FieldId }) => FieldId === update.FieldId);
+      if (field) {
+        Object.assign(field, update);
+      } else {
+        fields.push({ Value: '', ...update });
+      }
+    });
+    merged.CustomFields = fields;
+  }
+  return merged;
+}
+
+function customFieldValues(fields: ClientCustomField[] = []) {
+  const values: Record<string, string> = {};
+  fields.forEach(({ FieldId, Value }) => {
+    values[FieldId] = Value;
+  });
+  return values;
+}
+
+/**
+ * The fields that differ between two versions of a client. Custom fields are
+ * compared by `FieldId` and tags as a set.
+ */
+export function diffClients(
+  before: ClientWithProfile,
+  after: ClientWithProfile
+): ClientFieldChange[] {
+  const changes: ClientFieldChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  keys.forEach((key) => {
+    if (key === 'CustomFields') {
+      const was = customFieldValues(before.CustomFields);
+      const now = customFieldValues(after.CustomFields);
+      new Set([...Object.keys(was), ...Object.keys(now)]).forEach((id) => {
+        if ((was[id] ?? '') !== (now[id] ?? '')) {
+          changes.push({
+            field: `CustomFields.${id}`,
+            before: was[id],
+            after: now[id],
+          });
+        }
+      });
+    } else if (key === 'Tags') {
+      const was = [...(before.Tags ?? [])].sort();
+      const now = [...(after.Tags ?? [])].sort();
+      if (was.join('\n') !== now.join('\n')) {
+        changes.push({ field: key, before: before.Tags, after: after.Tags });
+      }
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.push({ field: key, before: before[key], after: after[key] });
+    }
+  });
+  return changes;
+}
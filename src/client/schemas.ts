@@ -0,0 +1,65 @@
+import { s } from '../common/schema';
+import { ClientReceived, ClientTag, ClientWithProfile } from './interfaces';
+
+export const clientReceivedSchema = s.object<ClientReceived>({
+  ClientNumber: s.number(),
+  Name: s.string(),
+  Email: s.string(),
+  Phone: s.string(),
+});
+
+export const clientWithProfileSchema = s.object<ClientWithProfile>({
+  ClientId: s.number(),
+  Name: s.string(),
+  Email: s.string(),
+  Phone: s.string(),
+  FirstName: s.string(),
+  LastName: s.string(),
+  MiddleName: s.string(),
+  DateOfBirth: s.number(),
+  MaritalStatus: s.string(),
+  Gender: s.string(),
+  Tags: s.array(s.string()),
+  Archived: s.boolean(),
+  HomePhone: s.string(),
+  WorkPhone: s.string(),
+  MobilePhone: s.string(),
+  Address: s.string(),
+  UnitNumber: s.string(),
+  StreetAddress: s.string(),
+  City: s.string(),
+  StateShort: s.string(),
+  Country: s.string(),
+  PostalCode: s.string(),
+  AdditionalInformation: s.string(),
+  PrimaryInsuranceCompany: s.string(),
+  PrimaryInsurancePolicyNumber: s.string(),
+  PrimaryInsuranceGroupNumber: s.string(),
+  PrimaryInsuranceHolderName: s.string(),
+  PrimaryInsuranceRelationship: s.string(),
+  PrimaryInsuranceHolderDateOfBirth: s.number(),
+  SecondaryInsuranceCompany: s.string(),
+  SecondaryInsurancePolicyNumber: s.string(),
+  SecondaryInsuranceGroupNumber: s.string(),
+  SecondaryInsuranceHolderName: s.string(),
+  SecondaryInsuranceRelationship: s.string(),
+  SecondaryInsuranceHolderDateOfBirth: s.number(),
+  DateCreated: s.number(),
+  LastActivityDate: s.number(),
+  CustomFields: s.array(
+    s.object<ClientWithProfile['CustomFields'][number]>({
+      FieldId: s.string(),
+      Text: s.optional(s.string()),
+      Value: s.string(),
+    })
+  ),
+  PractitionerId: s.string(),
+  Guid: s.string(),
+  StripeCustomerId: s.nullable(s.string()),
+  SquareCustomerId: s.nullable(s.string()),
+});
+
+export const clientTagSchema = s.object<ClientTag>({
+  ClientId: s.number(),
+  Tag: s.string(),
+});
@@ -0,0 +1,63 @@
+import { matchesSegment, tagChanges } from './segments';
+
+// Noon local time, so the days are the same in every time zone
+const client = {
+  Tags: ['VIP', 'Newsletter'],
+  CustomFields: [{ FieldId: 'tier', Value: ' Gold ' }],
+  Archived: false,
+  DateCreated: new Date(2024, 5, 3, 12).getTime() / 1000,
+  LastActivityDate: new Date(2024, 6, 1, 12),
+};
+
+describe('matchesSegment', () => {
+  it('matches tags ignoring case', () => {
+    expect(matchesSegment(client, { tags: ['vip', 'newsletter'] })).toBe(true);
+    expect(matchesSegment(client, { tags: ['vip', 'lapsed'] })).toBe(false);
+    expect(matchesSegment(client, { anyTags: ['lapsed', 'vip'] })).toBe(true);
+    expect(matchesSegment(client, { excludeTags: ['NEWSLETTER'] })).toBe(false);
+  });
+
+  it('matches custom fields and date ranges', () => {
+    expect(matchesSegment(client, { custom: { tier: 'Gold' } })).toBe(true);
+    expect(matchesSegment(client, { custom: { tier: 'Silver' } })).toBe(false);
+    expect(
+      matchesSegment(client, {
+        dateCreatedStart: '2024-06-03',
+        dateCreatedEnd: '2024-06-03',
+        lastActivityStart: '2024-06-15',
+      })
+    ).toBe(true);
+    expect(matchesSegment(client, { lastActivityEnd: '2024-06-30' })).toBe(
+      false
+    );
+    expect(
+      matchesSegment({ Tags: [] }, { dateCreatedStart: '2024-01-01' })
+    ).toBe(false);
+  });
+
+  it('leaves out archived clients unless asked for', () => {
+    const archived = { ...client, Archived: true };
+
+    expect(matchesSegment(archived, {})).toBe(false);
+    expect(matchesSegment(archived, { includeArchived: true })).toBe(true);
+  });
+
+  it('throws for a bound that is not a date', () => {
+    expect(() =>
+      matchesSegment(client, { dateCreatedStart: '3rd of June' })
+    ).toThrow('dateCreatedStart is not a yyyy-MM-dd date or a valid Date');
+  });
+});
+
+describe('tagChanges', () => {
+  it('adds only the tags the client lacks', () => {
+    expect(tagChanges(client, ['vip', ' Lapsed ', 'lapsed'], 'add')).toEqual([
+      'Lapsed',
+    ]);
+  });
+
+  it('removes tags as the client spells them', () => {
+    expect(tagChanges(client, ['vip', 'lapsed'], 'remove')).toEqual(['VIP']);
+    expect(tagChanges({}, ['vip'], 'remove')).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { timestampToDate } from '../common/hydration';
+import { formatDate, parseDate } from '../common/query';
+import { ClientSegment, ClientWithProfile } from './interfaces';
+
+type SegmentClient = Partial<
+  Pick<ClientWithProfile, 'Tags' | 'CustomFields' | 'Archived'>
+> & {
+  DateCreated?: number | Date | null;
+  LastActivityDate?: number | Date | null;
+};
+
+function normalize(value?: string | null): string {
+  return (value ?? '').trim().toLowerCase();
+}
+
+/** A segment bound as a `yyyy-MM-dd` day */
+function dayOf(bound: string | Date, name: string): string {
+  const date = bound instanceof Date ? bound : parseDate(bound);
+  if (!date || isNaN(date.getTime())) {
+    throw new Error(`${name} is not a yyyy-MM-dd date or a valid Date`);
+  }
+  return formatDate(date);
+}
+
+function inRange(
+  value: number | Date | null | undefined,
+  start: string | Date | undefined,
+  end: string | Date | undefined,
+  name: string
+): boolean {
+  if (start === undefined && end === undefined) return true;
+  const date = timestampToDate(value);
+  if (!date) return false;
+  const day = formatDate(date);
+  return (
+    (start === undefined || day >= dayOf(start, `${name}Start`)) &&
+    (end === undefined || day <= dayOf(end, `${name}End`))
+  );
+}
+
+/**
+ * Whether a client belongs to a segment. Clients can be hydrated or not.
+ * @param client A client with its profile
+ * @param segment The conditions the client must meet
+ */
+export function matchesSegment(
+  client: SegmentClient,
+  segment: ClientSegment
+): boolean {
+  if (client.Archived && !segment.includeArchived) return false;
+
+  const tags = (client.Tags ?? []).map(normalize);
+  const has = (tag: string) => tags.includes(normalize(tag));
+  if (segment.tags && !segment.tags.every(has)) return false;
+  if (segment.anyTags && !segment.anyTags.some(has)) return false;
+  if (segment.excludeTags?.some(has)) return false;
+
+  const custom = segment.custom ?? {};
+  const customMatches = Object.keys(custom).every((fieldId) => {
+    const field = (client.CustomFields ?? []).find(
+      (candidate) => candidate.FieldId === fieldId
+    );
+    return (field?.Value ?? '').trim() === custom[fieldId].trim();
+  });
+
+  return (
+    customMatches &&
+    inRange(
+      client.DateCreated,
+      segment.dateCreatedStart,
+      segment.dateCreatedEnd,
+      'dateCreated'
+    ) &&
+    inRange(
+      client.LastActivityDate,
+      segment.lastActivityStart,
+      segment.lastActivityEnd,
+      'lastActivity'
+    )
+  );
+}
+
+/**
+ * The tags a bulk operation would add to, or remove from, a client. Tags are
+ * compared ignoring case; removed tags are spelled as the client has them.
+ * @param client The client
+ * @param tags The tags to add or remove
+ * @param mode Whether the tags are added or removed
+ */
+export function tagChanges(
+  client: Partial<Pick<ClientWithProfile, 'Tags'>>,
+  tags: string[],
+  mode: 'add' | 'remove'
+): string[] {
+  const current = client.Tags ?? [];
+  const changes: string[] = [];
+  tags.forEach((tag) => {
+    const key = normalize(tag);
+    if (!key || changes.some((change) => normalize(change) === key)) return;
+    const existing = current.find((candidate) => normalize(candidate) === key);
+    if (mode === 'add' && !existing) changes.push(tag.trim());
+    if (mode === 'remove' && existing) changes.push(existing);
+  });
+  return changes;
+}
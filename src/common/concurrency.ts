@@ -0,0 +1,36 @@
+/**
+ * Map over items with at most `limit` calls running at once. Results keep
+ * the order of the items. The first error is rethrown once the running calls
+ * finish, and no new calls are started after it.
+ * @param items The items to map
+ * @param limit How many calls may run at once
+ * @param fn Called with each item and its index
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  let failure: unknown;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        if (!failed) failure = error;
+        failed = true;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  if (failed) throw failure;
+  return results;
+}
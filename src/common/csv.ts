@@ -0,0 +1,134 @@
+/** Characters that make spreadsheets read a cell as a formula */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Format a value as a CSV cell. Dates become ISO strings, objects JSON, and
+ * text that a spreadsheet would run as a formula is prefixed with `'`.
+ * Numbers, including negative ones, are left as they are.
+ * @param value The value to format
+ */
+export function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text: string;
+  if (value instanceof Date) {
+    text = isNaN(value.getTime()) ? '' : value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+    if (typeof value !== 'number' && FORMULA_START.test(text)) {
+      text = `'${text}`;
+    }
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format a row of values as a CSV line, without the line break
+ * @param values The cells of the row
+ */
+export function csvRow(values: unknown[]): string {
+  return values.map(csvCell).join(',');
+}
+
+/**
+ * Format records as CSV with a header line. Every line ends with `\r\n`, as
+ * RFC 4180 asks.
+ * @param columns The header names, in order
+ * @param rows The records, keyed by column
+ */
+export function toCsv(
+  columns: string[],
+  rows: Record<string, unknown>[]
+): string {
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((values) => `${csvRow(values)}\r\n`)
+    .join('');
+}
+
+/**
+ * Parse CSV text into rows of cells, each with the line it starts on. A
+ * quoted cell with line breaks makes its row span several lines.
+ * @param text The CSV text
+ */
+function readCsv(text: string): { cells: string[]; line: number }[] {
+  const rows: { cells: string[]; line: number }[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push({ cells: row, line: rowLine });
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) endRow();
+  return rows;
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with commas, quotes
+ * and line breaks, `\r\n` or `\n` line endings and a leading byte order mark.
+ * Blank lines are skipped.
+ * @param text The CSV text
+ */
+export function parseCsv(text: string): string[][] {
+  return readCsv(text).map(({ cells }) => cells);
+}
+
+/**
+ * Parse CSV text with a header line into records keyed by header
+ * @param text The CSV text
+ * @returns The headers, the records and the line each record starts on,
+ * counting blank lines and line breaks within quoted cells
+ */
+export function parseCsvRecords(
+  text: string
+): { headers: string[]; records: Record<string, string>[]; lines: number[] } {
+  const [header, ...rows] = readCsv(text);
+  const names = (header?.cells ?? []).map((name) => name.trim());
+  return {
+    headers: names,
+    records: rows.map(({ cells }) => {
+      const record: Record<string, string> = {};
+      names.forEach((name, index) => {
+        record[name] = cells[index] ?? '';
+      });
+      return record;
+    }),
+    lines: rows.map(({ line }) => line),
+  };
+}
@@ -0,0 +1,109 @@
+import {
+  AuthenticationError,
+  createErrorFromResponse,
+  IntakeQError,
+  NotFoundError,
+  parseRetryAfter,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from './errors';
+
+describe('createErrorFromResponse', () => {
+  it.each([
+    [401, AuthenticationError],
+    [403, AuthenticationError],
+    [404, NotFoundError],
+    [400, ValidationError],
+    [422, ValidationError],
+    [429, RateLimitError],
+    [500, ServerError],
+    [503, ServerError],
+    [409, IntakeQError],
+  ])('maps status %i to %p', (status, ErrorClass) => {
+    const error = createErrorFromResponse({ status });
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(IntakeQError);
+    expect(error.name).toBe(ErrorClass.name);
+    expect(error.status).toBe(status);
+  });
+
+  it('keeps the request details and the message IntakeQ sent', () => {
+    const cause = new Error('Request failed');
+    const error = createErrorFromResponse(
+      {
+        status: 400,
+        headers: { 'X-Request-Id': 'req-1' },
+        body: { Message: 'The client name is required' },
+      },
+      { endpoint: '/clients?search=ada', method: 'post', cause }
+    );
+
+    expect(error).toMatchObject({
+      message: 'The client name is required',
+      endpoint: '/clients',
+      method: 'POST',
+      requestId: 'req-1',
+      body: { Message: 'The client name is required' },
+      cause,
+    });
+  });
+
+  it('uses a plain text body as the message', () => {
+    const error = createErrorFromResponse({ status: 404, body: ' Not found ' });
+
+    expect(error.message).toBe('Not found');
+  });
+
+  it('describes the failure when the body has no message', () => {
+    const error = createErrorFromResponse(
+      { status: 502, body: '' },
+      { endpoint: '/appointments', method: 'get' }
+    );
+
+    expect(error.message).toBe(
+      'IntakeQ request to /appointments failed with status 502'
+    );
+  });
+
+  it('reads Retry-After for rate limited requests', () => {
+    const error = createErrorFromResponse({
+      status: 429,
+      headers: { 'retry-after': '3' },
+    }) as RateLimitError;
+
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  it('reads Retry-After for unavailable servers', () => {
+    const error = createErrorFromResponse({
+      status: 503,
+      headers: { 'Retry-After': '2' },
+    }) as ServerError;
+
+    expect(error.retryAfterMs).toBe(2000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('1.5')).toBe(1500);
+  });
+
+  it('reads an HTTP date', () => {
+    const date = new Date(Date.now() + 10000).toUTCString();
+
+    expect(parseRetryAfter(date)).toBeGreaterThan(8000);
+    expect(parseRetryAfter(date)).toBeLessThanOrEqual(10000);
+  });
+
+  it('never waits a negative time', () => {
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  Appointment,
+  AppointmentConflict,
+  HydratedAppointment,
+} from '../appointment/interfaces';
+import { DuplicateMatch } from '../client/interfaces';
+import { ValidationIssue } from './interfaces';
+
+export interface IntakeQErrorDetails {
+  /** The HTTP status code, if a response was received */
+  status?: number;
+  /** The endpoint that was called, without its query string */
+  endpoint?: string;
+  /** The HTTP method that was used */
+  method?: string;
+  /** The request id IntakeQ assigned to the request, if it sent one */
+  requestId?: string;
+  /** The parsed error body returned by IntakeQ */
+  body?: unknown;
+  /** The underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK. Use the subclasses to tell
+ * apart the different failure modes.
+ */
+export class IntakeQError extends Error {
+  readonly status?: number;
+
+  readonly endpoint?: string;
+
+  readonly method?: string;
+
+  readonly requestId?: string;
+
+  readonly body?: unknown;
+
+  readonly cause?: unknown;
+
+  constructor(message: string, details: IntakeQErrorDetails = {}) {
+    super(message);
+    this.name = 'IntakeQError';
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.requestId = details.requestId;
+    this.body = details.body;
+    this.cause = details.cause;
+  }
+}
+
+/** The API key is missing, invalid or not allowed to use the endpoint (401/403) */
+export class AuthenticationError extends IntakeQError {
+  constructor(message: string, details?: IntakeQErrorDetails) {
+    super(message, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** The requested record does not exist (404) */
+export class NotFoundError extends IntakeQError {
+  constructor(message: string, details?: IntakeQErrorDetails) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** IntakeQ rejected the request parameters or body (400/422) */
+export class ValidationError extends IntakeQError {
+  constructor(message: string, details?: IntakeQErrorDetails) {
+    super(message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/** Too many requests have been made (429) */
+export class RateLimitError extends IntakeQError {
+  /** How long IntakeQ asked us to wait before retrying, from `Retry-After` */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    details?: IntakeQErrorDetails & { retryAfterMs?: number }
+  ) {
+    super(message, details);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = details?.retryAfterMs;
+  }
+}
+
+/** IntakeQ failed to handle the request (5xx) */
+export class ServerError extends IntakeQError {
+  /** How long IntakeQ asked us to wait before retrying, such as on a 503 */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    details?: IntakeQErrorDetails & { retryAfterMs?: number }
+  ) {
+    super(message, details);
+    this.name = 'ServerError';
+    this.retryAfterMs = details?.retryAfterMs;
+  }
+}
+
+/** No response was received before the request timed out */
+export class TimeoutError extends IntakeQError {
+  constructor(message: string, details?: IntakeQErrorDetails) {
+    super(message, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Parse a `Retry-After` header, which is either a number of seconds or an
+ * HTTP date, into milliseconds
+ * @param value The header value
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+function getHeader(
+  headers: Record<string, any> | undefined,
+  name: string
+): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? String(headers[key]) : undefined;
+}
+
+function getErrorMessage(body: unknown): string | undefined {
+  if (typeof body === 'string' && body.trim()) return body.trim();
+  if (body && typeof body === 'object') {
+    const { Message, message, error } = body as Record<string, unknown>;
+    const text = Message ?? message ?? error;
+    if (typeof text === 'string') return text;
+  }
+  return undefined;
+}
+
+function stripQuery(url?: string): string | undefined {
+  return url?.split('?')[0];
+}
+
+/**
+ * Build the matching error for an IntakeQ response with a failing status
+ * @param response The status, headers and body that were received
+ * @param request The endpoint and method that were called, and the
+ * underlying error if there is one
+ */
+export function createErrorFromResponse(
+  response: { status: number; headers?: Record<string, any>; body?: unknown },
+  request: { endpoint?: string; method?: string; cause?: unknown } = {}
+): IntakeQError {
+  const { status, headers, body } = response;
+  const details: IntakeQErrorDetails = {
+    status,
+    body,
+    cause: request.cause,
+    endpoint: stripQuery(request.endpoint),
+    method: request.method?.toUpperCase(),
+    requestId:
+      getHeader(headers, 'x-request-id') ?? getHeader(headers, 'request-id'),
+  };
+  const message =
+    getErrorMessage(body) ??
+    `IntakeQ request to ${details.endpoint} failed with status ${status}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, details);
+  }
+  const retryAfterMs = parseRetryAfter(getHeader(headers, 'retry-after'));
+  if (status === 429) {
+    return new RateLimitError(message, { ...details, retryAfterMs });
+  }
+  if (status >= 500) {
+    return new ServerError(message, { ...details, retryAfterMs });
+  }
+  return new IntakeQError(message, details);
+}
+
+/** The response did not match the shape the SDK expects */
+export class ResponseValidationError extends IntakeQError {
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    details: IntakeQErrorDetails & { issues: ValidationIssue[] }
+  ) {
+    super(message, details);
+    this.name = 'ResponseValidationError';
+    this.issues = details.issues;
+  }
+}
+
+/** A webhook body is not a valid IntakeQ event */
+export class WebhookValidationError extends IntakeQError {
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    details: IntakeQErrorDetails & { issues?: ValidationIssue[] } = {}
+  ) {
+    super(message, details);
+    this.name = 'WebhookValidationError';
+    this.issues = details.issues ?? [];
+  }
+}
+
+/** Custom field values do not match the types they are declared with */
+export class CustomFieldValidationError extends IntakeQError {
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    details: IntakeQErrorDetails & { issues: ValidationIssue[] }
+  ) {
+    super(message, details);
+    this.name = 'CustomFieldValidationError';
+    this.issues = details.issues;
+  }
+}
+
+/** A client was not created because it looks like an existing one */
+export class DuplicateClientError extends IntakeQError {
+  /** The existing clients it matched, most likely first */
+  readonly matches: DuplicateMatch<unknown>[];
+
+  constructor(
+    message: string,
+    details: IntakeQErrorDetails & { matches: DuplicateMatch<unknown>[] }
+  ) {
+    super(message, details);
+    this.name = 'DuplicateClientError';
+    this.matches = details.matches;
+  }
+}
+
+/** An appointment was not saved because it overlaps existing appointments */
+export class SchedulingConflictError extends IntakeQError {
+  /** The appointments it overlaps, earliest first */
+  readonly conflicts: AppointmentConflict<unknown>[];
+
+  constructor(
+    message: string,
+    details: IntakeQErrorDetails & {
+      conflicts: AppointmentConflict<unknown>[];
+    }
+  ) {
+    super(message, details);
+    this.name = 'SchedulingConflictError';
+    this.conflicts = details.conflicts;
+  }
+}
+
+/**
+ * An appointment was booked again with another practitioner, but the original
+ * could not be canceled, so the client holds both. Cancel `before` to finish
+ * the move, or `after` to undo it.
+ */
+export class RescheduleIncompleteError<
+  A = Appointment | HydratedAppointment
+> extends IntakeQError {
+  /** The original appointment, still booked */
+  readonly before: A;
+
+  /** The new appointment */
+  readonly after: A;
+
+  constructor(
+    message: string,
+    details: IntakeQErrorDetails & { before: A; after: A }
+  ) {
+    super(message, details);
+    this.name = 'RescheduleIncompleteError';
+    this.before = details.before;
+    this.after = details.after;
+  }
+}
@@ -0,0 +1,111 @@
+import { Appointment } from '../appointment/interfaces';
+import { ClientWithProfile } from '../client/interfaces';
+import { Invoice } from '../invoice/interfaces';
+import { IntakeForm, IntakeFormSummary } from '../questionnaire/interfaces';
+import { TreatmentNoteSummary } from '../notes/interfaces';
+import { Hydrator } from './hydration';
+
+const SECONDS = 1717408800;
+const DATE = new Date('2024-06-03T10:00:00Z');
+
+describe('Hydrator', () => {
+  it('reads seconds by default', () => {
+    expect(new Hydrator().toDate(SECONDS)).toEqual(DATE);
+  });
+
+  it('reads milliseconds when told to', () => {
+    expect(new Hydrator('milliseconds').toDate(SECONDS * 1000)).toEqual(DATE);
+  });
+
+  it('turns missing timestamps into null', () => {
+    const hydrator = new Hydrator();
+
+    expect(hydrator.toDate(0)).toBeNull();
+    expect(hydrator.toDate(null)).toBeNull();
+    expect(hydrator.toDate(undefined)).toBeNull();
+  });
+
+  it('hydrates appointments and leaves other fields alone', () => {
+    const appointment = {
+      Id: 'a1',
+      ClientName: 'Jane Doe',
+      StartDate: SECONDS,
+      EndDate: SECONDS + 3600,
+      DateCreated: 0,
+    } as Appointment;
+
+    expect(new Hydrator().appointment(appointment)).toEqual({
+      Id: 'a1',
+      ClientName: 'Jane Doe',
+      StartDate: DATE,
+      EndDate: new Date('2024-06-03T11:00:00Z'),
+      DateCreated: null,
+    });
+  });
+
+  it('hydrates every date of a client', () => {
+    const client = {
+      ClientId: 1,
+      DateOfBirth: SECONDS,
+      PrimaryInsuranceHolderDateOfBirth: SECONDS,
+      SecondaryInsuranceHolderDateOfBirth: null,
+      DateCreated: SECONDS,
+      LastActivityDate: SECONDS,
+    } as ClientWithProfile;
+
+    expect(new Hydrator().client(client)).toMatchObject({
+      ClientId: 1,
+      DateOfBirth: DATE,
+      PrimaryInsuranceHolderDateOfBirth: DATE,
+      SecondaryInsuranceHolderDateOfBirth: null,
+      DateCreated: DATE,
+      LastActivityDate: DATE,
+    });
+  });
+
+  it('hydrates invoice payments, items and sub items', () => {
+    const invoice = ({
+      Id: 'i1',
+      IssuedDate: SECONDS,
+      DueDate: SECONDS,
+      DateCreated: SECONDS,
+      Payments: [{ Amount: 10, Date: SECONDS }],
+      Items: [{ Description: 'Session', Date: SECONDS, SubItems: [] }],
+    } as unknown) as Invoice;
+
+    const hydrated = new Hydrator().invoice(invoice);
+
+    expect(hydrated.Payments[0].Date).toEqual(DATE);
+    expect(hydrated.Items[0].Date).toEqual(DATE);
+    expect(hydrated.Items[0].SubItems).toEqual([]);
+    expect(hydrated.IssuedDate).toEqual(DATE);
+  });
+
+  it('hydrates notes, intake summaries and consent forms', () => {
+    const hydrator = new Hydrator();
+    const summary = {
+      Id: 'f1',
+      DateCreated: SECONDS,
+      DateSubmitted: null,
+    } as IntakeFormSummary;
+    const form = ({
+      ...summary,
+      ConsentForms: [{ Id: 'c1', DateSubmitted: SECONDS }],
+    } as unknown) as IntakeForm;
+
+    expect(
+      hydrator.treatmentNote({
+        Id: 'n1',
+        Date: SECONDS,
+      } as TreatmentNoteSummary).Date
+    ).toEqual(DATE);
+    expect(hydrator.intakeForm(summary)).toEqual({
+      Id: 'f1',
+      DateCreated: DATE,
+      DateSubmitted: null,
+    });
+    expect(hydrator.intakeForm(form).ConsentForms[0].DateSubmitted).toEqual(
+      DATE
+    );
+  });
+});
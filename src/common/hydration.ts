@@ -0,0 +1,126 @@
+import { Appointment, HydratedAppointment } from '../appointment/interfaces';
+import {
+  ClientWithProfile,
+  HydratedClientWithProfile,
+} from '../client/interfaces';
+import { HydratedInvoice, Invoice } from '../invoice/interfaces';
+import {
+  HydratedIntakeForm,
+  HydratedIntakeFormSummary,
+  IntakeForm,
+  IntakeFormSummary,
+} from '../questionnaire/interfaces';
+import {
+  HydratedTreatmentNote,
+  HydratedTreatmentNoteSummary,
+  TreatmentNote,
+  TreatmentNoteSummary,
+} from '../notes/interfaces';
+import { TimestampUnit } from './interfaces';
+
+/**
+ * Read a timestamp in seconds or milliseconds, or a `Date`, as a `Date`, for
+ * code that is handed clients whether they were hydrated or not. Values below
+ * 1e11 are taken as seconds. 0, null and invalid dates become `undefined`.
+ * @param value The timestamp or date
+ */
+export function timestampToDate(
+  value?: number | Date | null
+): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (!value) return undefined;
+  return new Date(value < 1e11 ? value * 1000 : value);
+}
+
+/**
+ * Converts the Unix timestamps in IntakeQ responses into `Date`s.
+ */
+export class Hydrator {
+  constructor(private unit: TimestampUnit = 'seconds') {}
+
+  /**
+   * Convert a single timestamp. 0, null and undefined become `null`.
+   * @param value The Unix timestamp
+   */
+  toDate(value: number | null | undefined): Date | null {
+    if (!value) return null;
+    return new Date(this.unit === 'seconds' ? value * 1000 : value);
+  }
+
+  appointment(appointment: Appointment): HydratedAppointment {
+    return {
+      ...appointment,
+      StartDate: this.toDate(appointment.StartDate),
+      EndDate: this.toDate(appointment.EndDate),
+      DateCreated: this.toDate(appointment.DateCreated),
+    };
+  }
+
+  client(client: ClientWithProfile): HydratedClientWithProfile {
+    return {
+      ...client,
+      DateOfBirth: this.toDate(client.DateOfBirth),
+      PrimaryInsuranceHolderDateOfBirth: this.toDate(
+        client.PrimaryInsuranceHolderDateOfBirth
+      ),
+      SecondaryInsuranceHolderDateOfBirth: this.toDate(
+        client.SecondaryInsuranceHolderDateOfBirth
+      ),
+      DateCreated: this.toDate(client.DateCreated),
+      LastActivityDate: this.toDate(client.LastActivityDate),
+    };
+  }
+
+  invoice(invoice: Invoice): HydratedInvoice {
+    return {
+      ...invoice,
+      IssuedDate: this.toDate(invoice.IssuedDate),
+      DueDate: this.toDate(invoice.DueDate),
+      DateCreated: this.toDate(invoice.DateCreated),
+      Payments: (invoice.Payments ?? []).map((payment) => ({
+        ...payment,
+        Date: this.toDate(payment.Date),
+      })),
+      Items: (invoice.Items ?? []).map((item) => ({
+        ...item,
+        Date: this.toDate(item.Date),
+        SubItems: (item.SubItems ?? []).map((subItem) => ({
+          ...subItem,
+          Date: this.toDate(subItem.Date),
+        })),
+      })),
+    };
+  }
+
+  treatmentNote(note: TreatmentNote): HydratedTreatmentNote;
+
+  treatmentNote(note: TreatmentNoteSummary): HydratedTreatmentNoteSummary;
+
+  treatmentNote(
+    note: TreatmentNoteSummary
+  ): HydratedTreatmentNoteSummary | HydratedTreatmentNote {
+    return { ...note, Date: this.toDate(note.Date) };
+  }
+
+  intakeForm(form: IntakeForm): HydratedIntakeForm;
+
+  intakeForm(form: IntakeFormSummary): HydratedIntakeFormSummary;
+
+  intakeForm(
+    form: IntakeFormSummary | IntakeForm
+  ): HydratedIntakeFormSummary | HydratedIntakeForm {
+    const hydrated = {
+      ...form,
+      DateCreated: this.toDate(form.DateCreated),
+      DateSubmitted: this.toDate(form.DateSubmitted),
+    };
+    if (!('ConsentForms' in form) || !form.ConsentForms) return hydrated;
+    return {
+      ...hydrated,
+      ConsentForms: form.ConsentForms.map((consentForm) => ({
+        ...consentForm,
+        DateSubmitted: this.toDate(consentForm.DateSubmitted),
+      })),
+    } as HydratedIntakeForm;
+  }
+}
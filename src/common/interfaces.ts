@@ -0,0 +1,59 @@
+export interface PaginationOptions {
+  /** Stop after this many pages have been fetched */
+  maxPages?: number;
+  /** Stop after this many records have been yielded */
+  maxItems?: number;
+  /** Abort the iteration between pages */
+  signal?: AbortSignal;
+}
+
+export type TimestampUnit = 'seconds' | 'milliseconds';
+
+/**
+ * `T` with its Unix timestamp fields `K` replaced by `Date`s. IntakeQ sends
+ * 0 or null for dates that are not set, which become `null`.
+ */
+export type Hydrated<T, K extends keyof T> = Omit<T, K> &
+  { [P in K]: Date | null };
+
+/** Resolves to the hydrated variant of a response when `H` is `true` */
+export type MaybeHydrated<H extends boolean, Raw, HydratedType> = H extends true
+  ? HydratedType
+  : Raw;
+
+export interface ValidationIssue {
+  /**
+   * * unknown_field – IntakeQ sent a field the SDK does not know about.
+   * * missing_field – A field the SDK expects was not sent.
+   * * type_mismatch – A field has a different type than the SDK expects.
+   */
+  type: 'unknown_field' | 'missing_field' | 'type_mismatch';
+  /** Where the issue was found, e.g. `$[0].TelehealthInfo.Provider` */
+  path: string;
+  /** The type the SDK expects */
+  expected?: string;
+  /** The type that was received */
+  received?: string;
+}
+
+export interface ValidationReport {
+  method: string;
+  endpoint: string;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationOptions {
+  /**
+   * * report – Pass the issues to `onIssues` and return the response as is.
+   * * throw – Throw a `ResponseValidationError`.
+   * Defaults to report.
+   */
+  mode?: 'report' | 'throw';
+  /**
+   * Called with every response that has issues. Without it, report mode
+   * drops them.
+   */
+  onIssues?: (report: ValidationReport) => void;
+  /** Accept `null` for any field. Defaults to true */
+  allowNull?: boolean;
+}
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Records kept in a JSON file as an array, for a single process. The file is
+ * read on first use and rewritten on every change.
+ */
+export class JsonFileCollection<T> {
+  private records?: Map<string, T>;
+
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param file The JSON file to use. It is created on the first save.
+   * @param keyOf The unique key of a record
+   */
+  constructor(private file: string, private keyOf: (record: T) => string) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const records = await this.load();
+    return clone(records.get(key));
+  }
+
+  async save(record: T): Promise<void> {
+    const records = await this.load();
+    records.set(this.keyOf(record), clone(record));
+    await this.write(records);
+  }
+
+  /**
+   * Delete the records that match, in a single write
+   * @param shouldDelete Picks the records to delete, given each record, its
+   * position in the order they were first saved and the number of records
+   * @returns How many records were deleted
+   */
+  async deleteWhere(
+    shouldDelete: (record: T, index: number, count: number) => boolean
+  ): Promise<number> {
+    const records = await this.load();
+    const keys = Array.from(records.keys()).filter((key, index) =>
+      shouldDelete(records.get(key), index, records.size)
+    );
+    if (!keys.length) return 0;
+    keys.forEach((key) => records.delete(key));
+    await this.write(records);
+    return keys.length;
+  }
+
+  async values(): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values()).map(clone);
+  }
+
+  private async write(records: Map<string, T>): Promise<void> {
+    // Writes are chained so they land in order, each to a temporary file
+    // first so a crash never leaves a half-written store
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        const temp = `${this.file}.${process.pid}.tmp`;
+        await fs.writeFile(
+          temp,
+          JSON.stringify(Array.from(records.values()), null, 2),
+          'utf8'
+        );
+        await fs.rename(temp, this.file);
+      });
+    await this.writing;
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.records) return this.records;
+    let stored: T[] = [];
+    try {
+      stored = JSON.parse(await fs.readFile(this.file, 'utf8'));
+    } catch (error) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+    // Another call may have loaded the file while this one was reading it
+    if (!this.records) {
+      this.records = new Map(
+        stored.map((record) => [this.keyOf(record), record])
+      );
+    }
+    return this.records;
+  }
+}
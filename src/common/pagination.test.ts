@@ -0,0 +1,77 @@
+import { collect, PAGE_SIZE, paginate } from './pagination';
+
+/** Pages of numbered records, `total` records in all */
+function pages(total: number) {
+  return jest.fn(async (page: number) => {
+    const start = (page - 1) * PAGE_SIZE;
+    return Array.from(
+      { length: Math.max(0, Math.min(PAGE_SIZE, total - start)) },
+      (_, index) => start + index
+    );
+  });
+}
+
+describe('paginate', () => {
+  it('stops at the first short page', async () => {
+    const fetchPage = pages(250);
+
+    const records = await collect(paginate(fetchPage));
+
+    expect(records).toHaveLength(250);
+    expect(records[249]).toBe(249);
+    expect(fetchPage.mock.calls.map(([page]) => page)).toEqual([1, 2, 3]);
+  });
+
+  it('reads one more page when the last one is full', async () => {
+    const fetchPage = pages(200);
+
+    await expect(collect(paginate(fetchPage))).resolves.toHaveLength(200);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('starts from the page given', async () => {
+    const fetchPage = pages(250);
+
+    const records = await collect(paginate(fetchPage, {}, 2));
+
+    expect(records[0]).toBe(100);
+    expect(records).toHaveLength(150);
+  });
+
+  it('stops after maxPages', async () => {
+    const fetchPage = pages(1000);
+
+    const records = await collect(paginate(fetchPage, { maxPages: 2 }));
+
+    expect(records).toHaveLength(200);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops after maxItems without reading another page', async () => {
+    const fetchPage = pages(1000);
+
+    const records = await collect(paginate(fetchPage, { maxItems: 150 }));
+
+    expect(records).toHaveLength(150);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops between pages once aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = pages(1000);
+    const records: number[] = [];
+
+    await expect(
+      (async () => {
+        for await (const record of paginate(fetchPage, {
+          signal: controller.signal,
+        })) {
+          records.push(record);
+          if (records.length === PAGE_SIZE) controller.abort();
+        }
+      })()
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(records).toHaveLength(PAGE_SIZE);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,46 @@
+import { throwIfAborted } from './abort';
+import { PaginationOptions } from './interfaces';
+
+/** The maximum number of records IntakeQ returns for a single page */
+export const PAGE_SIZE = 100;
+
+/**
+ * Keep requesting pages until IntakeQ returns a short page, yielding each
+ * record as it arrives.
+ * @param fetchPage Loads a single page, pages start at 1
+ * @param options Limits and abort signal for the iteration
+ * @param firstPage The page to start from
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  options: PaginationOptions = {},
+  firstPage = 1
+): AsyncGenerator<T, void, undefined> {
+  const { maxPages = Infinity, maxItems = Infinity, signal } = options;
+  let yielded = 0;
+
+  for (let page = firstPage; page < firstPage + maxPages; page++) {
+    throwIfAborted(signal);
+    const records = await fetchPage(page);
+
+    for (const record of records) {
+      if (yielded >= maxItems) return;
+      yield record;
+      yielded++;
+    }
+
+    if (records.length < PAGE_SIZE || yielded >= maxItems) return;
+  }
+}
+
+/**
+ * Drain an async iterable into an array
+ * @param iterable The iterable to collect
+ */
+export async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const results: T[] = [];
+  for await (const item of iterable) {
+    results.push(item);
+  }
+  return results;
+}
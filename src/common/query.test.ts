@@ -0,0 +1,58 @@
+import { buildQuery, formatDate, parseDate } from './query';
+
+describe('buildQuery', () => {
+  it('encodes each parameter', () => {
+    expect(buildQuery({ search: 'Jane Doe & co', page: 2, active: true })).toBe(
+      'search=Jane%20Doe%20%26%20co&page=2&active=true'
+    );
+  });
+
+  it('drops empty values but keeps zero and false', () => {
+    expect(
+      buildQuery({
+        a: undefined,
+        b: null,
+        c: '',
+        d: 0,
+        e: false,
+      })
+    ).toBe('d=0&e=false');
+  });
+
+  it('formats dates as yyyy-MM-dd', () => {
+    expect(buildQuery({ startDate: new Date(2024, 2, 5) })).toBe(
+      'startDate=2024-03-05'
+    );
+  });
+
+  it('writes nested objects as key[subKey]', () => {
+    expect(
+      buildQuery({ custom: { 'Referral Source': 'Web', Empty: '' }, page: 1 })
+    ).toBe('custom[Referral%20Source]=Web&page=1');
+  });
+
+  it('returns an empty string without parameters', () => {
+    expect(buildQuery()).toBe('');
+    expect(buildQuery({ search: undefined })).toBe('');
+  });
+});
+
+describe('formatDate', () => {
+  it('formats the local day, whatever the time zone', () => {
+    expect(formatDate(new Date(2024, 0, 1, 23, 30))).toBe('2024-01-01');
+    expect(formatDate(new Date(2024, 11, 31, 0, 15))).toBe('2024-12-31');
+  });
+});
+
+describe('parseDate', () => {
+  it('reads yyyy-MM-dd and MM/dd/yyyy as local midnight', () => {
+    expect(parseDate('2024-03-05')).toEqual(new Date(2024, 2, 5));
+    expect(parseDate('3/5/2024')).toEqual(new Date(2024, 2, 5));
+    expect(formatDate(parseDate('2024-03-05T10:00:00Z'))).toBe('2024-03-05');
+  });
+
+  it('refuses days that do not exist and other formats', () => {
+    expect(parseDate('2023-02-29')).toBeUndefined();
+    expect(parseDate('5 March 2024')).toBeUndefined();
+  });
+});
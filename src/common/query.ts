@@ -0,0 +1,81 @@
+export type QueryValue = string | number | boolean | Date | null | undefined;
+
+type QueryParams = Record<string, QueryValue | Record<string, QueryValue>>;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Format a date the way IntakeQ expects it in query strings: `yyyy-MM-dd`.
+ * The date is taken in the local time zone, so `new Date(2024, 0, 1)` is
+ * `2024-01-01` wherever it runs.
+ * @param date The date to format
+ */
+export function formatDate(date: Date): string {
+  return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Read a `yyyy-MM-dd` or `MM/dd/yyyy` date, as local midnight, the way
+ * `formatDate` writes it. Returns `undefined` for anything else, including
+ * days that do not exist.
+ * @param value The date to parse
+ */
+export function parseDate(value: string): Date | undefined {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:$|T)/.exec(value);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]].map(Number)
+    : us
+    ? [us[3], us[1], us[2]].map(Number)
+    : [];
+  if (year === undefined) return undefined;
+
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day
+    ? date
+    : undefined;
+}
+
+function serializeValue(value: QueryValue): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return encodeURIComponent(
+    value instanceof Date ? formatDate(value) : String(value)
+  );
+}
+
+/**
+ * Serialize request parameters into a URL-encoded query string, without the
+ * leading `?`. Empty values are dropped, `Date`s are formatted as
+ * `yyyy-MM-dd` and nested objects become `key[subKey]=value`.
+ * @param params The parameters to serialize
+ */
+export function buildQuery(params: object = {}): string {
+  const values = params as QueryParams;
+  const pairs: string[] = [];
+
+  Object.keys(values).forEach((key) => {
+    const value = values[key];
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const nested = value as Record<string, QueryValue>;
+      Object.keys(nested).forEach((subKey) => {
+        const serialized = serializeValue(nested[subKey]);
+        if (serialized === undefined) return;
+        pairs.push(
+          `${encodeURIComponent(key)}[${encodeURIComponent(
+            subKey
+          )}]=${serialized}`
+        );
+      });
+      return;
+    }
+    const serialized = serializeValue(value as QueryValue);
+    if (serialized === undefined) return;
+    pairs.push(`${encodeURIComponent(key)}=${serialized}`);
+  });
+
+  return pairs.join('&');
+}
@@ -0,0 +1,62 @@
+import { REDACTED, redactPhi } from './redaction';
+
+describe('redactPhi', () => {
+  const client = {
+    ClientId: 42,
+    Name: 'Jane Doe',
+    Email: 'jane@example.com',
+    Phone: '',
+    DateOfBirth: 0,
+    Tags: ['vip'],
+    CustomFields: [{ FieldId: 'abc', Value: 'Penicillin allergy' }],
+  };
+
+  it('redacts PHI fields and keeps the rest', () => {
+    expect(redactPhi(client)).toEqual({
+      ClientId: 42,
+      Name: REDACTED,
+      Email: REDACTED,
+      Phone: '',
+      DateOfBirth: 0,
+      Tags: ['vip'],
+      CustomFields: REDACTED,
+    });
+  });
+
+  it('redacts at any depth, inside arrays too', () => {
+    const appointments = {
+      data: [{ Id: 'a1', ClientName: 'Jane Doe', TelehealthInfo: { Id: 't' } }],
+    };
+
+    expect(redactPhi(appointments)).toEqual({
+      data: [{ Id: 'a1', ClientName: REDACTED, TelehealthInfo: REDACTED }],
+    });
+  });
+
+  it('leaves the original untouched', () => {
+    const copy = JSON.parse(JSON.stringify(client));
+
+    redactPhi(client);
+
+    expect(client).toEqual(copy);
+  });
+
+  it('keeps allowed fields and redacts only the fields given', () => {
+    expect(redactPhi(client, { allowFields: ['Email'] })).toMatchObject({
+      Name: REDACTED,
+      Email: 'jane@example.com',
+    });
+    expect(redactPhi(client, { fields: ['Tags'] })).toMatchObject({
+      Name: 'Jane Doe',
+      Tags: REDACTED,
+    });
+  });
+
+  it('passes through values that are not objects', () => {
+    const date = new Date();
+
+    expect(redactPhi('Jane Doe')).toBe('Jane Doe');
+    expect(redactPhi(null)).toBeNull();
+    expect(redactPhi(date)).toBe(date);
+  });
+});
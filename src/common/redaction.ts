@@ -0,0 +1,98 @@
+export const REDACTED = '[REDACTED]';
+
+/** PHI fields of `ClientWithProfile` */
+export const CLIENT_PHI_FIELDS = [
+  'Name',
+  'Email',
+  'Phone',
+  'FirstName',
+  'LastName',
+  'MiddleName',
+  'DateOfBirth',
+  'MaritalStatus',
+  'Gender',
+  'HomePhone',
+  'WorkPhone',
+  'MobilePhone',
+  'Address',
+  'UnitNumber',
+  'StreetAddress',
+  'City',
+  'StateShort',
+  'PostalCode',
+  'AdditionalInformation',
+  'PrimaryInsuranceCompany',
+  'PrimaryInsurancePolicyNumber',
+  'PrimaryInsuranceGroupNumber',
+  'PrimaryInsuranceHolderName',
+  'PrimaryInsuranceRelationship',
+  'PrimaryInsuranceHolderDateOfBirth',
+  'SecondaryInsuranceCompany',
+  'SecondaryInsurancePolicyNumber',
+  'SecondaryInsuranceGroupNumber',
+  'SecondaryInsuranceHolderName',
+  'SecondaryInsuranceRelationship',
+  'SecondaryInsuranceHolderDateOfBirth',
+  'CustomFields',
+];
+
+/** PHI fields of `Appointment` */
+export const APPOINTMENT_PHI_FIELDS = [
+  'ClientName',
+  'ClientEmail',
+  'ClientPhone',
+  'TelehealthInfo',
+];
+
+/** PHI fields of `Invoice` */
+export const INVOICE_PHI_FIELDS = [
+  'ClientName',
+  'ClientEmail',
+  'AdditionalEmailRecipients',
+  'NoteToClient',
+  'DiagnosisList',
+  'CardDetails',
+];
+
+export const PHI_FIELDS = Array.from(
+  new Set([
+    ...CLIENT_PHI_FIELDS,
+    ...APPOINTMENT_PHI_FIELDS,
+    ...INVOICE_PHI_FIELDS,
+  ])
+);
+
+export interface RedactOptions {
+  /** Fields to redact. Defaults to `PHI_FIELDS` */
+  fields?: string[];
+  /** Fields to leave untouched even though they are in `fields` */
+  allowFields?: string[];
+}
+
+/**
+ * Deep copy a value, replacing every PHI field at any depth with
+ * `[REDACTED]`. Fields that are empty are left as they are.
+ * @param value The value to redact
+ * @param options The fields to redact and the allowlist
+ */
+export function redactPhi<T>(value: T, options: RedactOptions = {}): T {
+  const { fields = PHI_FIELDS, allowFields = [] } = options;
+  const redacted = new Set(fields.filter((f) => !allowFields.includes(f)));
+
+  const walk = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(walk);
+    if (!node || typeof node !== 'object' || node instanceof Date) {
+      return node;
+    }
+    const result: Record<string, unknown> = {};
+    Object.keys(node).forEach((key) => {
+      const field = (node as Record<string, unknown>)[key];
+      const isEmpty =
+        field === null || field === undefined || field === '' || field === 0;
+      result[key] = redacted.has(key) && !isEmpty ? REDACTED : walk(field);
+    });
+    return result;
+  };
+
+  return walk(value) as T;
+}
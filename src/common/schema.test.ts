@@ -0,0 +1,114 @@
+import { s, validate } from './schema';
+
+interface Note {
+  Id: string;
+  Status: 'locked' | 'unlocked';
+  Date: number;
+  Signed?: boolean;
+  Tags: string[];
+  Author: { Name: string } | null;
+}
+
+const noteSchema = s.object<Note>({
+  Id: s.string(),
+  Status: s.enum('locked', 'unlocked'),
+  Date: s.number(),
+  Signed: s.optional(s.boolean()),
+  Tags: s.array(s.string()),
+  Author: s.nullable(
+    s.object<{ Name: string }>({ Name: s.string() })
+  ),
+});
+
+const note = {
+  Id: 'n1',
+  Status: 'locked',
+  Date: 1717408800,
+  Tags: ['intake'],
+  Author: { Name: 'Sam' },
+};
+
+describe('validate', () => {
+  it('accepts a value matching the schema', () => {
+    expect(validate(noteSchema, note)).toEqual([]);
+    expect(validate(noteSchema, { ...note, Signed: true })).toEqual([]);
+  });
+
+  it('reports type mismatches with their path', () => {
+    const issues = validate(noteSchema, {
+      ...note,
+      Date: '2024-06-03',
+      Status: 'draft',
+      Tags: ['intake', 7],
+    });
+
+    expect(issues).toEqual([
+      {
+        type: 'type_mismatch',
+        path: '$.Status',
+        expected: '"locked" | "unlocked"',
+        received: 'string',
+      },
+      {
+        type: 'type_mismatch',
+        path: '$.Date',
+        expected: 'number',
+        received: 'string',
+      },
+      {
+        type: 'type_mismatch',
+        path: '$.Tags[1]',
+        expected: 'string',
+        received: 'number',
+      },
+    ]);
+  });
+
+  it('reports missing and unknown fields', () => {
+    const value: Record<string, unknown> = { ...note, Pinned: true };
+    delete value.Tags;
+
+    expect(validate(noteSchema, value)).toEqual([
+      { type: 'missing_field', path: '$.Tags', expected: 'string[]' },
+      { type: 'unknown_field', path: '$.Pinned', received: 'boolean' },
+    ]);
+  });
+
+  it('allows null anywhere unless told otherwise', () => {
+    const value = { ...note, Date: null, Author: null };
+
+    expect(validate(noteSchema, value)).toEqual([]);
+    expect(validate(noteSchema, value, { allowNull: false })).toEqual([
+      {
+        type: 'type_mismatch',
+        path: '$.Date',
+        expected: 'number',
+        received: 'null',
+      },
+    ]);
+  });
+
+  it('checks arrays and objects at the top level', () => {
+    expect(validate(s.array(noteSchema), [note, 'n2'])).toEqual([
+      {
+        type: 'type_mismatch',
+        path: '$[1]',
+        expected: 'object',
+        received: 'string',
+      },
+    ]);
+    expect(validate(noteSchema, [])).toEqual([
+      {
+        type: 'type_mismatch',
+        path: '$',
+        expected: 'object',
+        received: 'array',
+      },
+    ]);
+  });
+
+  it('accepts anything for unknown', () => {
+    expect(validate(s.unknown(), { any: 'thing' })).toEqual([]);
+    expect(validate(s.unknown(), null, { allowNull: false })).toEqual([]);
+  });
+});
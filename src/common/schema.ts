@@ -0,0 +1,141 @@
+import { ValidationIssue } from './interfaces';
+
+export type Schema =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'unknown' }
+  | { kind: 'enum'; values: readonly (string | number)[] }
+  | { kind: 'array'; items: Schema }
+  | { kind: 'object'; fields: Record<string, Schema> }
+  | { kind: 'optional'; schema: Schema }
+  | { kind: 'nullable'; schema: Schema };
+
+/**
+ * Builders for the runtime schemas responses are validated against.
+ * `s.object<T>()` requires a schema for every key of `T`, so a schema fails
+ * to compile when its interface changes.
+ */
+export const s = {
+  string: (): Schema => ({ kind: 'string' }),
+  number: (): Schema => ({ kind: 'number' }),
+  boolean: (): Schema => ({ kind: 'boolean' }),
+  unknown: (): Schema => ({ kind: 'unknown' }),
+  enum: (...values: (string | number)[]): Schema => ({ kind: 'enum', values }),
+  array: (items: Schema): Schema => ({ kind: 'array', items }),
+  object: <T>(fields: { [K in keyof T]-?: Schema }): Schema => ({
+    kind: 'object',
+    fields,
+  }),
+  optional: (schema: Schema): Schema => ({ kind: 'optional', schema }),
+  nullable: (schema: Schema): Schema => ({ kind: 'nullable', schema }),
+};
+
+function describe(schema: Schema): string {
+  switch (schema.kind) {
+    case 'enum':
+      return schema.values.map((value) => JSON.stringify(value)).join(' | ');
+    case 'array':
+      return `${describe(schema.items)}[]`;
+    case 'optional':
+      return `${describe(schema.schema)} | undefined`;
+    case 'nullable':
+      return `${describe(schema.schema)} | null`;
+    default:
+      return schema.kind;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against a schema, returning every unknown field, missing
+ * field and type mismatch that was found
+ * @param schema The schema to validate against
+ * @param value The value to validate
+ * @param options.allowNull Accept `null` for any field, as IntakeQ often
+ * sends null for empty values. Defaults to true.
+ * @param path The path of the value, used in the reported issues
+ */
+export function validate(
+  schema: Schema,
+  value: unknown,
+  options: { allowNull?: boolean } = {},
+  path = '$'
+): ValidationIssue[] {
+  const { allowNull = true } = options;
+  const mismatch = (): ValidationIssue[] => [
+    {
+      type: 'type_mismatch',
+      path,
+      expected: describe(schema),
+      received: typeOf(value),
+    },
+  ];
+
+  if (schema.kind === 'optional') {
+    return value === undefined
+      ? []
+      : validate(schema.schema, value, options, path);
+  }
+  if (value === null) {
+    return schema.kind === 'nullable' || schema.kind === 'unknown' || allowNull
+      ? []
+      : mismatch();
+  }
+
+  switch (schema.kind) {
+    case 'nullable':
+      return validate(schema.schema, value, options, path);
+    case 'unknown':
+      return [];
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === schema.kind ? [] : mismatch();
+    case 'enum':
+      return schema.values.includes(value as string | number) ? [] : mismatch();
+    case 'array':
+      if (!Array.isArray(value)) return mismatch();
+      return value.reduce<ValidationIssue[]>(
+        (issues, item, index) =>
+          issues.concat(
+            validate(schema.items, item, options, `${path}[${index}]`)
+          ),
+        []
+      );
+    case 'object': {
+      if (typeOf(value) !== 'object') return mismatch();
+      const record = value as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+
+      Object.keys(schema.fields).forEach((key) => {
+        const field = schema.fields[key];
+        if (!(key in record) && field.kind !== 'optional') {
+          issues.push({
+            type: 'missing_field',
+            path: `${path}.${key}`,
+            expected: describe(field),
+          });
+          return;
+        }
+        issues.push(...validate(field, record[key], options, `${path}.${key}`));
+      });
+
+      Object.keys(record).forEach((key) => {
+        if (key in schema.fields) return;
+        issues.push({
+          type: 'unknown_field',
+          path: `${path}.${key}`,
+          received: typeOf(record[key]),
+        });
+      });
+
+      return issues;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/** A calendar day and time of day, as read on a clock in some time zone */
+export interface WallTime {
+  year: number;
+  /** 1 to 12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  if (!formatters.has(timeZone)) {
+    formatters.set(
+      timeZone,
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        weekday: 'short',
+      })
+    );
+  }
+  return formatters.get(timeZone);
+}
+
+/**
+ * Read the clock in a time zone at an instant
+ * @param date The instant
+ * @param timeZone An IANA time zone, e.g. `America/New_York`. Defaults to the
+ * zone of the process.
+ * @returns The wall time, with the day of the week from 0 for Sunday
+ */
+export function toWallTime(
+  date: Date,
+  timeZone?: string
+): WallTime & { weekday: number; second: number } {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      weekday: date.getDay(),
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  formatterFor(timeZone)
+    .formatToParts(date)
+    .forEach(({ type, value }) => {
+      parts[type] = value;
+    });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * The instant a clock in a time zone shows a wall time. A time skipped when
+ * clocks go forward is moved forward by the gap; a time that happens twice
+ * when clocks go back is taken the first time.
+ * @param wall The wall time
+ * @param timeZone An IANA time zone, e.g. `America/New_York`. Defaults to the
+ * zone of the process.
+ */
+export function fromWallTime(wall: WallTime, timeZone?: string): Date {
+  const { year, month, day, hour, minute } = wall;
+  if (!timeZone) return new Date(year, month - 1, day, hour, minute);
+
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const shown = toWallTime(new Date(instant), timeZone);
+    return (
+      Date.UTC(
+        shown.year,
+        shown.month - 1,
+        shown.day,
+        shown.hour,
+        shown.minute,
+        shown.second
+      ) - instant
+    );
+  };
+
+  const first = offsetAt(asUtc);
+  const guess = asUtc - first;
+  const second = offsetAt(guess);
+  if (second === first) return new Date(guess);
+  // The offset changes between the guess and the wall time
+  const later = asUtc - second;
+  return offsetAt(later) === second ? new Date(later) : new Date(guess);
+}
+
+/**
+ * The calendar days from one day to another, both included. Days are read as
+ * dates alone, whatever zone they are later placed in.
+ * @param start The first day
+ * @param end The last day
+ */
+export function eachDay(
+  start: Pick<WallTime, 'year' | 'month' | 'day'>,
+  end: Pick<WallTime, 'year' | 'month' | 'day'>
+): { year: number; month: number; day: number; weekday: number }[] {
+  const days = [];
+  const last = Date.UTC(end.year, end.month - 1, end.day);
+  for (
+    let time = Date.UTC(start.year, start.month - 1, start.day);
+    time <= last;
+    time += 24 * 60 * 60 * 1000
+  ) {
+    const date = new Date(time);
+    days.push({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday: date.getUTCDay(),
+    });
+  }
+  return days;
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Writable } from 'stream';
+import { IntakeQApi } from '../index';
+import { buildInvoice, buildPracticeSeed, toUnix } from '../testing/builders';
+import { IntakeQFake } from '../testing/fake';
+import { DataExporter } from './exporter';
+
+function setup() {
+  const seed = buildPracticeSeed();
+  const [jane] = seed.clients;
+  const invoice = buildInvoice(
+    {
+      IssuedDate: toUnix('2024-06-03T12:00:00Z'),
+      Payments: [
+        {
+          Date: toUnix('2024-06-04T12:00:00Z'),
+          Amount: 100,
+          Currency: 'USD',
+          Method: 'CreditCard',
+          TipAmount: 0,
+          RefundedAmount: 0,
+          ProcessedBy: 'Sam',
+          ProcessedByType: 'Provider',
+          AdditionalInfo: '',
+          CardDetails: {
+            Brand: 'Visa',
+            LastDigits: '4242',
+            ExpirationMonth: 12,
+            ExpirationYear: 2030,
+            CardId: 'card-1',
+          },
+        },
+      ],
+    },
+    jane
+  );
+  const fake = new IntakeQFake({ seed }).seed({ invoices: [invoice] });
+  const api = new IntakeQApi('test', { transport: fake, retry: false });
+  return { api, seed, invoice };
+}
+
+/** A stream that keeps what is written to it */
+function sink() {
+  const stream = new PassThrough();
+  const chunks: string[] = [];
+  stream.on('data', (chunk) => chunks.push(String(chunk)));
+  return { stream, text: () => chunks.join('') };
+}
+
+describe('DataExporter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intakeq-export-'));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('writes clients as CSV with a fixed header and ISO dates', async () => {
+    const { api, seed } = setup();
+    const exporter = new DataExporter(api);
+    const { stream, text } = sink();
+
+    const result = await exporter.exportClients(stream);
+
+    const [header, first] = text().trim().split('\r\n');
+    const columns = exporter.columnsOf('clients');
+    expect(header).toBe(columns.join(','));
+    expect(result).toEqual({ dataset: 'clients', rows: 2, columns });
+    expect(first).toContain('Jane Doe');
+    expect(first).toContain(
+      new Date(seed.clients[0].DateCreated * 1000).toISOString()
+    );
+  });
+
+  it('leaves out PHI columns unless allowed', async () => {
+    const { api } = setup();
+    const exporter = new DataExporter(api, {
+      excludePhi: true,
+      allowFields: ['ClientName'],
+    });
+
+    expect(exporter.columnsOf('clients')).not.toContain('Email');
+    expect(exporter.columnsOf('appointments')).toContain('ClientName');
+    expect(exporter.columnsOf('appointments')).not.toContain('ClientEmail');
+    expect(exporter.columnsOf('invoicePayments')).not.toContain(
+      'CardDetails.LastDigits'
+    );
+  });
+
+  it('writes NDJSON with the chosen columns', async () => {
+    const { api, seed } = setup();
+    const exporter = new DataExporter(api, {
+      format: 'ndjson',
+      columns: { appointments: ['Id', 'ClientName', 'Status'] },
+    });
+    const { stream, text } = sink();
+
+    await exporter.exportAppointments(stream);
+
+    expect(
+      text()
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+    ).toEqual([
+      {
+        Id: seed.appointments[0].Id,
+        ClientName: 'Jane Doe',
+        Status: seed.appointments[0].Status,
+      },
+    ]);
+  });
+
+  it('flattens invoice items and payments into their own rows', async () => {
+    const { api, invoice } = setup();
+    const exporter = new DataExporter(api, { format: 'ndjson' });
+    const items = sink();
+    const payments = sink();
+
+    const results = await exporter.exportInvoices({
+      items: items.stream,
+      payments: payments.stream,
+    });
+
+    expect(results.map(({ dataset, rows }) => [dataset, rows])).toEqual([
+      ['invoiceItems', 1],
+      ['invoicePayments', 1],
+    ]);
+    expect(JSON.parse(payments.text())).toMatchObject({
+      InvoiceId: invoice.Id,
+      InvoiceNumber: invoice.Number,
+      Date: '2024-06-04T12:00:00.000Z',
+      'CardDetails.LastDigits': '4242',
+    });
+  });
+
+  it('writes every dataset to a directory', async () => {
+    const { api } = setup();
+    const target = path.join(dir, 'export');
+
+    const results = await new DataExporter(api).exportAll(target);
+
+    expect((await fs.readdir(target)).sort()).toEqual([
+      'appointments.csv',
+      'clients.csv',
+      'intakes.csv',
+      'invoice-items.csv',
+      'invoice-payments.csv',
+      'invoices.csv',
+    ]);
+    expect(results.map(({ rows }) => rows)).toEqual([2, 1, 1, 1, 1, 0]);
+  });
+
+  it('rejects when the file cannot be opened', async () => {
+    const { api } = setup();
+    const target = path.join(dir, 'missing', 'clients.csv');
+
+    await expect(new DataExporter(api).exportClients(target)).rejects.toThrow(
+      /ENOENT/
+    );
+  });
+
+  it('rejects when the stream fails while waiting on IntakeQ', async () => {
+    const fake = new IntakeQFake({ seed: buildPracticeSeed() });
+    const api = new IntakeQApi('test', {
+      transport: {
+        send: async (request) => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return fake.send(request);
+        },
+      },
+      retry: false,
+    });
+    const stream = new Writable({
+      write(chunk, encoding, callback) {
+        setImmediate(() => callback(new Error('Disk full')));
+      },
+    });
+
+    await expect(new DataExporter(api).exportClients(stream)).rejects.toThrow(
+      'Disk full'
+    );
+  });
+});
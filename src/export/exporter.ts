@@ -0,0 +1,538 @@
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { csvRow } from '../common/csv';
+import { Hydrator } from '../common/hydration';
+import { PHI_FIELDS } from '../common/redaction';
+import type { IntakeQApi } from '../index';
+import {
+  ExportDataset,
+  ExportOptions,
+  ExportRange,
+  ExportResult,
+  ExportTarget,
+} from './interfaces';
+
+type Row = Record<string, unknown>;
+
+/** The columns exported for each dataset unless others are chosen */
+export const EXPORT_COLUMNS: Record<ExportDataset, string[]> = {
+  clients: [
+    'ClientId',
+    'Name',
+    'FirstName',
+    'MiddleName',
+    'LastName',
+    'Email',
+    'Phone',
+    'MobilePhone',
+    'HomePhone',
+    'WorkPhone',
+    'DateOfBirth',
+    'Gender',
+    'MaritalStatus',
+    'Address',
+    'StreetAddress',
+    'UnitNumber',
+    'City',
+    'StateShort',
+    'PostalCode',
+    'Country',
+    'PractitionerId',
+    'Tags',
+    'Archived',
+    'PrimaryInsuranceCompany',
+    'PrimaryInsurancePolicyNumber',
+    'PrimaryInsuranceGroupNumber',
+    'PrimaryInsuranceHolderName',
+    'PrimaryInsuranceRelationship',
+    'PrimaryInsuranceHolderDateOfBirth',
+    'SecondaryInsuranceCompany',
+    'SecondaryInsurancePolicyNumber',
+    'SecondaryInsuranceGroupNumber',
+    'SecondaryInsuranceHolderName',
+    'SecondaryInsuranceRelationship',
+    'SecondaryInsuranceHolderDateOfBirth',
+    'AdditionalInformation',
+    'CustomFields',
+    'DateCreated',
+    'LastActivityDate',
+  ],
+  appointments: [
+    'Id',
+    'ClientId',
+    'ClientName',
+    'ClientEmail',
+    'ClientPhone',
+    'Status',
+    'StartDateIso',
+    'EndDateIso',
+    'Duration',
+    'ServiceId',
+    'ServiceName',
+    'LocationId',
+    'LocationName',
+    'PractitionerId',
+    'PractitionerName',
+    'PractitionerEmail',
+    'Price',
+    'IntakeId',
+    'AppointmentPackageId',
+    'AppointmentPackageName',
+    'BookedByClient',
+    'CreatedBy',
+    'TelehealthInfo.Provider',
+    'TelehealthInfo.StartUrl',
+    'DateCreated',
+  ],
+  invoices: [
+    'Id',
+    'Number',
+    'ClientIdNumber',
+    'ClientName',
+    'ClientEmail',
+    'Status',
+    'IssuedDate',
+    'DueDate',
+    'CurrencyIso',
+    'SubTotal',
+    'DiscountType',
+    'DiscountAmount',
+    'DiscountPercent',
+    'TipAmount',
+    'TotalAmount',
+    'AmountPaid',
+    'AmountDue',
+    'NoteToClient',
+    'DiagnosisList',
+    'Automated',
+    'CreatedBy',
+    'DateCreated',
+  ],
+  invoiceItems: [
+    'InvoiceId',
+    'InvoiceNumber',
+    'AppointmentId',
+    'ProductId',
+    'ServiceCode',
+    'Description',
+    'Date',
+    'Units',
+    'Price',
+    'TotalTaxAmount',
+    'TotalAmount',
+    'TaxesIncludedInPrice',
+    'IsCopay',
+    'Taxes',
+    'SubItems',
+  ],
+  invoicePayments: [
+    'InvoiceId',
+    'InvoiceNumber',
+    'Date',
+    'Amount',
+    'Currency',
+    'Method',
+    'TipAmount',
+    'RefundedAmount',
+    'ProcessedBy',
+    'ProcessedByType',
+    'AdditionalInfo',
+    'CardDetails.Brand',
+    'CardDetails.LastDigits',
+  ],
+  intakes: [
+    'Id',
+    'ClientId',
+    'ClientName',
+    'ClientEmail',
+    'Status',
+    'QuestionnaireId',
+    'QuestionnaireName',
+    'PractitionerId',
+    'Practitioner',
+    'AppointmentId',
+    'DateCreated',
+    'DateSubmitted',
+  ],
+};
+
+/** Columns holding Unix timestamps, exported as ISO dates */
+const DATE_COLUMNS = [
+  'DateOfBirth',
+  'PrimaryInsuranceHolderDateOfBirth',
+  'SecondaryInsuranceHolderDateOfBirth',
+  'DateCreated',
+  'LastActivityDate',
+  'StartDate',
+  'EndDate',
+  'IssuedDate',
+  'DueDate',
+  'DateSubmitted',
+  'Date',
+];
+
+const FILE_NAMES: Record<ExportDataset, string> = {
+  clients: 'clients',
+  appointments: 'appointments',
+  invoices: 'invoices',
+  invoiceItems: 'invoice-items',
+  invoicePayments: 'invoice-payments',
+  intakes: 'intakes',
+};
+
+/** Writes rows to a file or stream, waiting whenever the stream is full */
+class RowWriter {
+  rows = 0;
+
+  private stream: Writable;
+
+  private file?: string;
+
+  private error?: Error;
+
+  /** Keeps stream errors, such as a file that cannot be opened, to reject with */
+  private onError = (error: Error) => {
+    this.error = this.error ?? error;
+  };
+
+  constructor(
+    target: ExportTarget,
+    private columns: string[],
+    private format: 'csv' | 'ndjson'
+  ) {
+    if (typeof target === 'string') {
+      this.file = target;
+      this.stream = createWriteStream(target, 'utf8');
+    } else {
+      this.stream = target;
+    }
+    this.stream.on('error', this.onError);
+  }
+
+  async start(): Promise<void> {
+    if (this.format === 'csv') await this.write(`${csvRow(this.columns)}\r\n`);
+  }
+
+  async row(values: Row): Promise<void> {
+    this.rows += 1;
+    if (this.format === 'csv') {
+      await this.write(
+        `${csvRow(this.columns.map((column) => values[column]))}\r\n`
+      );
+    } else {
+      await this.write(`${JSON.stringify(values)}\n`);
+    }
+  }
+
+  /**
+   * Close the file, when the writer opened it, and throw any error the
+   * stream had
+   */
+  async end(): Promise<string | undefined> {
+    try {
+      if (this.file && !this.error) {
+        this.stream.end();
+        await once(this.stream, 'finish');
+      }
+    } finally {
+      this.stream.off('error', this.onError);
+    }
+    if (this.error) throw this.error;
+    return this.file;
+  }
+
+  private async write(chunk: string): Promise<void> {
+    if (this.error) throw this.error;
+    if (!this.stream.write(chunk)) await once(this.stream, 'drain');
+  }
+}
+
+/**
+ * Streams clients, appointments, invoices and intake summaries to CSV or
+ * NDJSON, a page at a time, so memory stays flat however large the account.
+ * Columns are fixed per dataset, so every export of a dataset has the same
+ * header whatever the data holds.
+ *
+ * ```ts
+ * const exporter = new DataExporter(api, { format: 'csv', excludePhi: true });
+ *
+ * await exporter.exportAll('exports/2024-q1', {
+ *   startDate: '2024-01-01',
+ *   endDate: '2024-03-31',
+ * });
+ * ```
+ */
+export class DataExporter {
+  private hydrator: Hydrator;
+
+  /**
+   * @param api The API to export from
+   * @param options The format, columns and PHI exclusion
+   */
+  constructor(
+    private api: IntakeQApi<boolean>,
+    private options: ExportOptions = {}
+  ) {
+    this.hydrator = new Hydrator(options.timestampUnit);
+  }
+
+  /**
+   * The columns a dataset is exported with, after PHI exclusion
+   * @param dataset The dataset
+   */
+  columnsOf(dataset: ExportDataset): string[] {
+    const { columns = {}, excludePhi = false, allowFields = [] } = this.options;
+    return (columns[dataset] ?? EXPORT_COLUMNS[dataset]).filter((column) => {
+      const field = column.split('.')[0];
+      return (
+        !excludePhi ||
+        allowFields.includes(column) ||
+        allowFields.includes(field) ||
+        !PHI_FIELDS.includes(field)
+      );
+    });
+  }
+
+  /**
+   * Export the clients created in a date range, with their profiles
+   * @param target The file or stream to write
+   * @param range Creation dates, and limits and abort signal for the paging
+   */
+  async exportClients(
+    target: ExportTarget,
+    range: ExportRange = {}
+  ): Promise<ExportResult> {
+    const { startDate, endDate, ...pagination } = range;
+    return this.export(
+      'clients',
+      target,
+      this.api.Client.iterateClients(
+        { dateCreatedStart: startDate, dateCreatedEnd: endDate },
+        true,
+        pagination
+      )
+    );
+  }
+
+  /**
+   * Export the appointments in a date range
+   * @param target The file or stream to write
+   * @param range Start dates, and limits and abort signal for the paging
+   */
+  async exportAppointments(
+    target: ExportTarget,
+    range: ExportRange = {}
+  ): Promise<ExportResult> {
+    const { startDate, endDate, ...pagination } = range;
+    return this.export(
+      'appointments',
+      target,
+      this.api.Appointment.iterate({ startDate, endDate }, pagination)
+    );
+  }
+
+  /**
+   * Export the invoices in a date range. Their items and payments are
+   * flattened into rows of their own, written to the `items` and `payments`
+   * targets when those are given.
+   * @param targets The files or streams to write
+   * @param range Invoice dates, and limits and abort signal for the paging
+   */
+  async exportInvoices(
+    targets: {
+      invoices?: ExportTarget;
+      items?: ExportTarget;
+      payments?: ExportTarget;
+    },
+    range: ExportRange = {}
+  ): Promise<ExportResult[]> {
+    const { startDate, endDate, ...pagination } = range;
+    const format = this.options.format ?? 'csv';
+    const writers: Partial<Record<ExportDataset, RowWriter>> = {};
+    if (targets.invoices) {
+      writers.invoices = new RowWriter(
+        targets.invoices,
+        this.columnsOf('invoices'),
+        format
+      );
+    }
+    if (targets.items) {
+      writers.invoiceItems = new RowWriter(
+        targets.items,
+        this.columnsOf('invoiceItems'),
+        format
+      );
+    }
+    if (targets.payments) {
+      writers.invoicePayments = new RowWriter(
+        targets.payments,
+        this.columnsOf('invoicePayments'),
+        format
+      );
+    }
+    const datasets = Object.keys(writers) as ExportDataset[];
+    const files: Partial<Record<ExportDataset, string>> = {};
+    let failure: unknown;
+
+    try {
+      for (const dataset of datasets) await writers[dataset].start();
+      const invoices = this.api.Invoice.iterateInvoices(
+        { startDate, endDate },
+        pagination
+      );
+      for await (const invoice of invoices) {
+        const parent = { InvoiceId: invoice.Id, InvoiceNumber: invoice.Number };
+        await writers.invoices?.row(this.flatten('invoices', invoice));
+        for (const item of writers.invoiceItems ? invoice.Items ?? [] : []) {
+          await writers.invoiceItems.row(
+            this.flatten('invoiceItems', { ...parent, ...item })
+          );
+        }
+        for (const payment of writers.invoicePayments
+          ? invoice.Payments ?? []
+          : []) {
+          await writers.invoicePayments.row(
+            this.flatten('invoicePayments', { ...parent, ...payment })
+          );
+        }
+      }
+    } catch (error) {
+      failure = error;
+    }
+
+    // Close every file, even when the export or one of the files failed
+    for (const dataset of datasets) {
+      try {
+        files[dataset] = await writers[dataset].end();
+      } catch (error) {
+        failure = failure ?? error;
+      }
+    }
+    if (failure) throw failure;
+
+    return datasets.map((dataset) => ({
+      dataset,
+      rows: writers[dataset].rows,
+      columns: this.columnsOf(dataset),
+      file: files[dataset],
+    }));
+  }
+
+  /**
+   * Export the intake form summaries created in a date range
+   * @param target The file or stream to write
+   * @param range Creation dates, and limits and abort signal for the paging
+   */
+  async exportIntakes(
+    target: ExportTarget,
+    range: ExportRange = {}
+  ): Promise<ExportResult> {
+    const { startDate, endDate, ...pagination } = range;
+    return this.export(
+      'intakes',
+      target,
+      this.api.Questionnaire.iterateIntakeForms(
+        { startDate, endDate },
+        pagination
+      )
+    );
+  }
+
+  /**
+   * Export every dataset to a directory, one file per dataset named like
+   * `clients.csv` or `invoice-items.ndjson`
+   * @param directory Where to write the files. It is created if missing.
+   * @param range The date range of every dataset
+   */
+  async exportAll(
+    directory: string,
+    range: ExportRange = {}
+  ): Promise<ExportResult[]> {
+    await fs.mkdir(directory, { recursive: true });
+    const extension = this.options.format ?? 'csv';
+    const file = (dataset: ExportDataset) =>
+      path.join(directory, `${FILE_NAMES[dataset]}.${extension}`);
+
+    return [
+      await this.exportClients(file('clients'), range),
+      await this.exportAppointments(file('appointments'), range),
+      ...(await this.exportInvoices(
+        {
+          invoices: file('invoices'),
+          items: file('invoiceItems'),
+          payments: file('invoicePayments'),
+        },
+        range
+      )),
+      await this.exportIntakes(file('intakes'), range),
+    ];
+  }
+
+  private async export(
+    dataset: ExportDataset,
+    target: ExportTarget,
+    records: AsyncIterable<object>
+  ): Promise<ExportResult> {
+    const columns = this.columnsOf(dataset);
+    const writer = new RowWriter(target, columns, this.options.format ?? 'csv');
+    let file: string | undefined;
+    try {
+      await writer.start();
+      for await (const record of records) {
+        await writer.row(this.flatten(dataset, record));
+      }
+    } finally {
+      file = await writer.end();
+    }
+    return { dataset, rows: writer.rows, columns, file };
+  }
+
+  /** Pick a record's columns, formatting dates and lists */
+  private flatten(dataset: ExportDataset, record: object): Row {
+    const row: Row = {};
+    this.columnsOf(dataset).forEach((column) => {
+      row[column] = this.format(column, this.valueOf(record, column));
+    });
+    return row;
+  }
+
+  private valueOf(record: object, column: string): unknown {
+    const [field, ...rest] = column.split('.');
+    if (field === 'CustomFields' && rest.length) {
+      const fieldId = rest.join('.');
+      const fields = (record as Row).CustomFields as {
+        FieldId: string;
+        Value: string;
+      }[];
+      return fields?.find((custom) => custom.FieldId === fieldId)?.Value;
+    }
+    return column
+      .split('.')
+      .reduce<unknown>(
+        (value, key) =>
+          value && typeof value === 'object' ? (value as Row)[key] : undefined,
+        record
+      );
+  }
+
+  private format(column: string, value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (DATE_COLUMNS.includes(column.split('.').pop())) {
+      const date =
+        value instanceof Date
+          ? value
+          : typeof value === 'number'
+          ? this.hydrator.toDate(value)
+          : null;
+      return date ? date.toISOString() : null;
+    }
+    if (Array.isArray(value) && this.options.format !== 'ndjson') {
+      return value.every((item) => typeof item !== 'object')
+        ? value.join('; ')
+        : value;
+    }
+    return value;
+  }
+}
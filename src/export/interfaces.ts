@@ -0,0 +1,61 @@
+import { Writable } from 'stream';
+import { PaginationOptions, TimestampUnit } from '../common/interfaces';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+/**
+ * * clients – Clients with their profiles, by creation date.
+ * * appointments – Appointments, by start date.
+ * * invoices – Invoices, by issue date.
+ * * invoiceItems – One row per invoice item, with its invoice id and number.
+ * * invoicePayments – One row per invoice payment, with its invoice id and
+ *   number.
+ * * intakes – Intake form summaries, by creation date.
+ */
+export type ExportDataset =
+  | 'clients'
+  | 'appointments'
+  | 'invoices'
+  | 'invoiceItems'
+  | 'invoicePayments'
+  | 'intakes';
+
+/** A file path, or a stream the rows are written to and left open */
+export type ExportTarget = string | Writable;
+
+export interface ExportOptions {
+  /** Defaults to csv */
+  format?: ExportFormat;
+  /**
+   * The columns of each dataset, in order. A nested field is named with a
+   * dot, e.g. `TelehealthInfo.StartUrl`, and a client custom field as
+   * `CustomFields.<FieldId>`. Defaults to the columns in `EXPORT_COLUMNS`.
+   */
+  columns?: Partial<Record<ExportDataset, string[]>>;
+  /** Leave out the columns holding PHI, see `PHI_FIELDS`. Defaults to false */
+  excludePhi?: boolean;
+  /** PHI columns to keep when `excludePhi` is set, e.g. `ClientName` */
+  allowFields?: string[];
+  /**
+   * The unit of the Unix timestamps IntakeQ returns, which are exported as
+   * ISO dates. Defaults to seconds.
+   */
+  timestampUnit?: TimestampUnit;
+}
+
+export interface ExportRange extends PaginationOptions {
+  /** yyyy-MM-dd, or a `Date` */
+  startDate?: string | Date;
+  /** yyyy-MM-dd, or a `Date` */
+  endDate?: string | Date;
+}
+
+export interface ExportResult {
+  dataset: ExportDataset;
+  /** How many rows were written */
+  rows: number;
+  /** The columns that were written, in order */
+  columns: string[];
+  /** The file that was written, when a path was given */
+  file?: string;
+}
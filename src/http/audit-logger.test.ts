@@ -0,0 +1,105 @@
+import {
+  AuditEntry,
+  AuditLoggerOptions,
+  createAuditLogger,
+} from './audit-logger';
+import { HttpClient } from './client';
+import { TransportResponse } from './interfaces';
+
+function setup(responses: TransportResponse[], includeBody = false) {
+  const entries: AuditEntry[] = [];
+  const client = new HttpClient({
+    transport: { send: async () => responses.shift() },
+    retry: { baseDelayMs: 1 },
+    middleware: [
+      createAuditLogger({ log: (entry) => entries.push(entry), includeBody }),
+    ],
+  });
+  return { client, entries };
+}
+
+describe('createAuditLogger', () => {
+  it('logs each request with the record ids it touched', async () => {
+    const { client, entries } = setup([
+      {
+        status: 200,
+        headers: {},
+        data: { ClientId: 7, Name: 'Jane Doe', Email: 'jane@example.com' },
+      },
+    ]);
+
+    await client.post('/clients?x=1', { ClientId: 7, Name: 'Jane Doe' });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      method: 'POST',
+      endpoint: '/clients',
+      status: 200,
+      attempt: 0,
+      recordIds: ['7'],
+    });
+    expect(entries[0].latencyMs).toBeGreaterThanOrEqual(0);
+    expect(JSON.stringify(entries)).not.toContain('Jane');
+  });
+
+  it('logs the response body with PHI redacted when asked to', async () => {
+    const { client, entries } = setup(
+      [
+        {
+          status: 200,
+          headers: {},
+          data: [{ Id: 'a1', ClientName: 'Jane Doe', Status: 'Confirmed' }],
+        },
+      ],
+      true
+    );
+
+    await client.get('/appointments');
+
+    expect(entries[0].recordIds).toEqual(['a1']);
+    expect(entries[0].body).toEqual([
+      { Id: 'a1', ClientName: '[REDACTED]', Status: 'Confirmed' },
+    ]);
+  });
+
+  it('logs each attempt once, whatever its status', async () => {
+    const { client, entries } = setup([
+      { status: 503, headers: {}, data: { Message: 'Try again' } },
+      { status: 200, headers: {}, data: [] },
+    ]);
+
+    await client.get('/practitioners');
+
+    expect(
+      entries.map(({ attempt, status, error }) => ({ attempt, status, error }))
+    ).toEqual([
+      { attempt: 0, status: 503, error: undefined },
+      { attempt: 1, status: 200, error: undefined },
+    ]);
+  });
+
+  it('logs the error when no response was received', async () => {
+    const entries: AuditEntry[] = [];
+    const client = new HttpClient({
+      transport: {
+        send: async () => {
+          throw new Error('socket hang up');
+        },
+      },
+      retry: false,
+      middleware: [createAuditLogger({ log: (entry) => entries.push(entry) })],
+    });
+
+    await expect(client.get('/practitioners')).rejects.toThrow();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].status).toBeUndefined();
+    expect(entries[0].error).toContain('socket hang up');
+  });
+
+  it('needs a log to write to', () => {
+    expect(() => createAuditLogger({} as AuditLoggerOptions)).toThrow(
+      'createAuditLogger needs a log function to write to'
+    );
+  });
+});
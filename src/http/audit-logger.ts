@@ -0,0 +1,97 @@
+import { redactPhi } from '../common/redaction';
+import {
+  HttpMethod,
+  Middleware,
+  RequestContext,
+  TransportResponse,
+} from './interfaces';
+
+const ID_FIELDS = ['Id', 'ClientId', 'AppointmentId', 'IntakeId'];
+
+export interface AuditEntry {
+  timestamp: string;
+  method: HttpMethod;
+  endpoint: string;
+  /** Missing when no response was received, e.g. on a timeout */
+  status?: number;
+  latencyMs: number;
+  attempt: number;
+  /** The record ids found in the request and response bodies */
+  recordIds: string[];
+  error?: string;
+  /** The response body with PHI redacted, when `includeBody` is set */
+  body?: unknown;
+}
+
+export interface AuditLoggerOptions {
+  /** Where entries are written, such as your logger or an audit table */
+  log: (entry: AuditEntry) => void;
+  /** PHI fields to log as they are instead of redacting */
+  allowFields?: string[];
+  /** Include the redacted response body in each entry. Defaults to false */
+  includeBody?: boolean;
+}
+
+/**
+ * Collect the top-level ids of a body, or of each item when it is a list
+ */
+function collectIds(body: unknown, ids: Set<string>) {
+  const items = Array.isArray(body) ? body : [body];
+  items.forEach((item) => {
+    if (!item || typeof item !== 'object') return;
+    ID_FIELDS.forEach((field) => {
+      const id = (item as Record<string, unknown>)[field];
+      if (id !== undefined && id !== null && id !== '') ids.add(String(id));
+    });
+  });
+}
+
+/**
+ * Create middleware that writes one audit entry per request attempt. Entries
+ * hold the record ids touched but never PHI: response bodies are only logged
+ * when asked for, and then with PHI redacted.
+ * @param options Where to write entries and what to include in them
+ */
+export function createAuditLogger(options: AuditLoggerOptions): Middleware {
+  const { log, allowFields, includeBody = false } = options;
+  if (typeof log !== 'function') {
+    throw new Error('createAuditLogger needs a log function to write to');
+  }
+  // Attempts that failed with a status were already logged in afterResponse
+  const responded = new WeakSet<RequestContext>();
+
+  const write = (
+    context: RequestContext,
+    response?: TransportResponse,
+    error?: unknown
+  ) => {
+    const ids = new Set<string>();
+    collectIds(context.body, ids);
+    if (response) collectIds(response.data, ids);
+
+    log({
+      timestamp: new Date(context.startedAt).toISOString(),
+      method: context.method,
+      endpoint: context.endpoint,
+      status: response?.status,
+      latencyMs: Date.now() - context.startedAt,
+      attempt: context.attempt,
+      recordIds: Array.from(ids),
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+      ...(includeBody &&
+        response && { body: redactPhi(response.data, { allowFields }) }),
+    });
+  };
+
+  return {
+    afterResponse(context, response) {
+      responded.add(context);
+      write(context, response);
+    },
+    onError(context, error) {
+      if (!responded.has(context)) write(context, undefined, error);
+    },
+  };
+}
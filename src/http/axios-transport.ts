@@ -0,0 +1,48 @@
+import axios, { AxiosInstance, CancelTokenSource } from 'axios';
+import { TimeoutError } from '../common/errors';
+import { abortError } from '../common/abort';
+import { Transport, TransportRequest, TransportResponse } from './interfaces';
+
+/**
+ * Sends requests with axios. This is the default transport.
+ */
+export class AxiosTransport implements Transport {
+  constructor(private instance: AxiosInstance = axios.create()) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const { method, url, headers, body, timeout, signal } = request;
+    let source: CancelTokenSource | undefined;
+    const onAbort = () => source.cancel();
+
+    if (signal) {
+      if (signal.aborted) throw abortError();
+      source = axios.CancelToken.source();
+      signal.addEventListener('abort', onAbort);
+    }
+
+    try {
+      const res = await this.instance.request({
+        method,
+        url,
+        headers,
+        data: body,
+        timeout,
+        cancelToken: source?.token,
+        validateStatus: () => true,
+      });
+      return { status: res.status, headers: res.headers, data: res.data };
+    } catch (error) {
+      if (axios.isCancel(error)) throw abortError();
+      if (error?.code === 'ECONNABORTED') {
+        throw new TimeoutError(error.message, {
+          method,
+          endpoint: url.split('?')[0],
+          cause: error,
+        });
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { MemoryCacheStore, ResponseCache } from './cache';
+
+describe('ResponseCache', () => {
+  it('calls the loader every time when caching is off', async () => {
+    const cache = new ResponseCache();
+    const load = jest.fn(async () => ['a']);
+
+    await cache.wrap('settings', load);
+    await cache.wrap('settings', load);
+
+    expect(cache.enabled).toBe(false);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares a single load between concurrent calls', async () => {
+    const cache = new ResponseCache(true);
+    const load = jest.fn(async () => [{ Id: '1' }]);
+
+    const [first, second] = await Promise.all([
+      cache.wrap('practitioners', load),
+      cache.wrap('practitioners', load),
+    ]);
+    const third = await cache.wrap('practitioners', load);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(first).toEqual([{ Id: '1' }]);
+    expect(second).toEqual(first);
+    expect(third).toEqual(first);
+  });
+
+  it('gives every caller its own copy', async () => {
+    const cache = new ResponseCache(true);
+    const load = async () => [{ Id: '1' }];
+
+    const first = await cache.wrap('practitioners', load);
+    first[0].Id = 'changed';
+    const second = await cache.wrap('practitioners', load);
+
+    expect(second).toEqual([{ Id: '1' }]);
+  });
+
+  it('loads again after the entry is invalidated or expires', async () => {
+    const cache = new ResponseCache({ ttl: { questionnaires: 20 } });
+    const load = jest.fn(async () => []);
+
+    await cache.wrap('settings', load);
+    await cache.invalidate('settings');
+    await cache.wrap('settings', load);
+    await cache.wrap('questionnaires', load);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await cache.wrap('questionnaires', load);
+
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not cache a failed load', async () => {
+    const cache = new ResponseCache(true);
+    const load = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce({ Id: 'settings' });
+
+    await expect(cache.wrap('settings', load)).rejects.toThrow('offline');
+    await expect(cache.wrap('settings', load)).resolves.toEqual({
+      Id: 'settings',
+    });
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', 1, 1000);
+    store.set('b', 2, 1000);
+    store.get('a');
+    store.set('c', 3, 1000);
+
+    expect(store.get('a')).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(3);
+  });
+});
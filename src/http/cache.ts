@@ -0,0 +1,116 @@
+import { CacheableEndpoint, CacheOptions, CacheStore } from './interfaces';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export const DEFAULT_CACHE_TTL: Record<CacheableEndpoint, number> = {
+  settings: FIVE_MINUTES,
+  practitioners: FIVE_MINUTES,
+  questionnaires: FIVE_MINUTES,
+};
+
+/**
+ * An in-memory `CacheStore` that evicts the least recently used entry once it
+ * holds `maxEntries` entries.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private maxEntries = 100) {}
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so the entry becomes the most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  set<T>(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Caches responses from the slow-changing reference endpoints. When caching
+ * is turned off every call goes straight to the loader.
+ */
+export class ResponseCache {
+  private store?: CacheStore;
+
+  private ttl: Record<CacheableEndpoint, number>;
+
+  private keyPrefix: string;
+
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(options?: CacheOptions | boolean) {
+    const config = options === true ? {} : options || undefined;
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...config?.ttl };
+    this.keyPrefix = config?.keyPrefix ?? 'intakeq:';
+    if (config) {
+      this.store = config.store ?? new MemoryCacheStore();
+    }
+  }
+
+  get enabled(): boolean {
+    return !!this.store;
+  }
+
+  /**
+   * Return the cached value for the endpoint, or load and cache it.
+   * Concurrent calls for the same endpoint share a single load. Every caller
+   * gets its own copy, so changing it leaves the cache as it was.
+   * @param endpoint The reference endpoint being loaded
+   * @param load Loads the value from IntakeQ
+   */
+  async wrap<T>(endpoint: CacheableEndpoint, load: () => Promise<T>) {
+    if (!this.store) return load();
+
+    const key = this.keyPrefix + endpoint;
+    const cached = await this.store.get<T>(key);
+    if (cached !== undefined) return clone(cached);
+
+    if (!this.pending.has(key)) {
+      const promise = load()
+        .then(async (value) => {
+          await this.store.set(key, value, this.ttl[endpoint]);
+          return value;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, promise);
+    }
+    return clone(await (this.pending.get(key) as Promise<T>));
+  }
+
+  /**
+   * Drop cached values so the next call loads them from IntakeQ again
+   * @param endpoint The endpoint to invalidate. Invalidates every endpoint
+   * when omitted.
+   */
+  async invalidate(endpoint?: CacheableEndpoint): Promise<void> {
+    if (!this.store) return;
+    const endpoints = endpoint
+      ? [endpoint]
+      : (Object.keys(this.ttl) as CacheableEndpoint[]);
+    await Promise.all(
+      endpoints.map((name) => this.store.delete(this.keyPrefix + name))
+    );
+  }
+}
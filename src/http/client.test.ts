@@ -0,0 +1,69 @@
+import { ResponseValidationError } from '../common/errors';
+import { s } from '../common/schema';
+import { HttpClient } from './client';
+import { TransportResponse } from './interfaces';
+
+const schema = s.object<{ Id: string }>({ Id: s.string() });
+
+function respondWith(data: unknown) {
+  return {
+    send: async (): Promise<TransportResponse> => ({
+      status: 200,
+      headers: {},
+      data,
+    }),
+  };
+}
+
+describe('HttpClient response validation', () => {
+  it('reports issues to onIssues and returns the response', async () => {
+    const onIssues = jest.fn();
+    const client = new HttpClient({
+      transport: respondWith({ Id: 7 }),
+      validation: { onIssues },
+    });
+
+    const res = await client.get('/notes/n1?x=1', { schema });
+
+    expect(res.data).toEqual({ Id: 7 });
+    expect(onIssues).toHaveBeenCalledWith({
+      method: 'GET',
+      endpoint: '/notes/n1',
+      issues: [
+        {
+          type: 'type_mismatch',
+          path: '$.Id',
+          expected: 'string',
+          received: 'number',
+        },
+      ],
+    });
+  });
+
+  it('writes nothing to the console without onIssues', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const client = new HttpClient({
+        transport: respondWith({ Id: 7 }),
+        validation: {},
+      });
+
+      await client.get('/notes/n1', { schema });
+
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('throws in throw mode', async () => {
+    const client = new HttpClient({
+      transport: respondWith({}),
+      validation: { mode: 'throw' },
+    });
+
+    await expect(client.get('/notes/n1', { schema })).rejects.toBeInstanceOf(
+      ResponseValidationError
+    );
+  });
+});
@@ -0,0 +1,244 @@
+import { isAbortError } from '../common/abort';
+import {
+  createErrorFromResponse,
+  IntakeQError,
+  ResponseValidationError,
+} from '../common/errors';
+import { ValidationOptions } from '../common/interfaces';
+import { validate } from '../common/schema';
+import { buildQuery } from '../common/query';
+import { AxiosTransport } from './axios-transport';
+import { ResponseCache } from './cache';
+import { RateLimiter } from './rate-limiter';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableError,
+  sleep,
+} from './retry';
+import {
+  HttpClientOptions,
+  HttpMethod,
+  HttpResponse,
+  Middleware,
+  RequestContext,
+  RequestOptions,
+  RetryOptions,
+  Transport,
+} from './interfaces';
+
+export const DEFAULT_BASE_URL = 'https://intakeq.com/api/v1';
+
+export const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * Sends requests to IntakeQ through a `Transport`, applying rate limiting and
+ * retries, and throwing an `IntakeQError` for failed requests.
+ */
+export class HttpClient {
+  /** The cache for reference endpoints, use it to invalidate entries */
+  readonly cache: ResponseCache;
+
+  private baseURL: string;
+
+  private timeout: number;
+
+  private headers: Record<string, string>;
+
+  private transport: Transport;
+
+  private retry: RetryOptions | null;
+
+  private limiter?: RateLimiter;
+
+  private validation?: ValidationOptions;
+
+  private middleware: Middleware[];
+
+  constructor(options: HttpClientOptions = {}) {
+    this.baseURL = (options.baseURL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.headers = {
+      Accept: 'application/json',
+      ...(options.userAgent && { 'User-Agent': options.userAgent }),
+      ...options.headers,
+    };
+    this.transport = options.transport ?? new AxiosTransport();
+    this.retry =
+      options.retry === false
+        ? null
+        : { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    if (options.rateLimit) {
+      this.limiter = new RateLimiter(options.rateLimit);
+    }
+    this.validation = options.validation;
+    this.cache = new ResponseCache(options.cache);
+    this.middleware = [...(options.middleware ?? [])];
+  }
+
+  /**
+   * Add middleware to run around every request
+   * @param middleware The hooks to add
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  get<T = any>(url: string, options: RequestOptions = {}) {
+    if (options.cache) {
+      return this.cache.wrap(options.cache, () =>
+        this.request<T>('GET', url, undefined, options)
+      );
+    }
+    return this.request<T>('GET', url, undefined, options);
+  }
+
+  post<T = any>(url: string, data?: unknown, options?: RequestOptions) {
+    return this.request<T>('POST', url, data, options);
+  }
+
+  put<T = any>(url: string, data?: unknown, options?: RequestOptions) {
+    return this.request<T>('PUT', url, data, options);
+  }
+
+  delete<T = any>(url: string, options?: RequestOptions) {
+    return this.request<T>('DELETE', url, undefined, options);
+  }
+
+  async request<T>(
+    method: HttpMethod,
+    url: string,
+    data?: unknown,
+    options: RequestOptions = {}
+  ): Promise<HttpResponse<T>> {
+    const maxRetries = this.shouldRetry(method, options)
+      ? this.retry.maxRetries
+      : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      let res: HttpResponse<T>;
+      try {
+        res = await this.send<T>(method, url, data, options, attempt);
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryableError(error, this.retry)) {
+          throw error;
+        }
+        const delay = getRetryDelay(attempt, error, this.retry);
+        if (delay === undefined) throw error;
+        await sleep(delay, options.signal);
+        continue;
+      }
+      this.validate(method, url, res.data, options);
+      return res;
+    }
+  }
+
+  private validate(
+    method: HttpMethod,
+    url: string,
+    data: unknown,
+    options: RequestOptions
+  ): void {
+    if (!this.validation || !options.schema) return;
+    const { mode = 'report', onIssues, allowNull } = this.validation;
+    const issues = validate(options.schema, data, { allowNull });
+    if (!issues.length) return;
+
+    const endpoint = url.split('?')[0];
+    if (mode === 'throw') {
+      throw new ResponseValidationError(
+        `Response from ${method} ${endpoint} does not match the expected schema`,
+        { method, endpoint, body: data, issues }
+      );
+    }
+    onIssues?.({ method, endpoint, issues });
+  }
+
+  private shouldRetry(method: HttpMethod, options: RequestOptions): boolean {
+    if (!this.retry) return false;
+    return options.retry ?? this.retry.methods.includes(method);
+  }
+
+  private async send<T>(
+    method: HttpMethod,
+    url: string,
+    data: unknown,
+    options: RequestOptions,
+    attempt: number
+  ): Promise<HttpResponse<T>> {
+    const endpoint = url.split('?')[0];
+    const query = buildQuery(options.query);
+    const separator = url.includes('?') ? '&' : '?';
+    const path = url.replace(/^\/+/, '') + (query ? separator + query : '');
+    const context: RequestContext = {
+      method,
+      endpoint,
+      url: `${this.baseURL}/${path}`,
+      headers: {
+        ...this.headers,
+        ...(data !== undefined && { 'Content-Type': 'application/json' }),
+        ...options.headers,
+      },
+      body: data,
+      attempt,
+      startedAt: Date.now(),
+    };
+
+    const release = this.limiter ? await this.limiter.acquire() : undefined;
+    try {
+      await this.runHooks('beforeRequest', context);
+      context.startedAt = Date.now();
+
+      const res = await this.transport
+        .send({
+          method,
+          url: context.url,
+          headers: context.headers,
+          body: data,
+          timeout: options.timeout ?? this.timeout,
+          signal: options.signal,
+        })
+        .catch((error) => {
+          if (error instanceof IntakeQError || isAbortError(error)) {
+            throw error;
+          }
+          throw new IntakeQError(error?.message ?? 'Network error', {
+            endpoint,
+            method,
+            cause: error,
+          });
+        });
+
+      await this.runHooks('afterResponse', context, res);
+
+      if (res.status < 200 || res.status >= 300) {
+        throw createErrorFromResponse(
+          { status: res.status, headers: res.headers, body: res.data },
+          { endpoint, method }
+        );
+      }
+      return { data: res.data as T, status: res.status, headers: res.headers };
+    } catch (error) {
+      await this.runHooks('onError', context, error);
+      throw error;
+    } finally {
+      release?.();
+    }
+  }
+
+  private async runHooks(
+    hook: keyof Middleware,
+    context: RequestContext,
+    arg?: unknown
+  ): Promise<void> {
+    // Hooks run in registration order; a throwing hook fails the attempt
+    for (const middleware of this.middleware) {
+      await (middleware[hook] as (...args: unknown[]) => unknown)?.call(
+        middleware,
+        context,
+        arg
+      );
+    }
+  }
+}
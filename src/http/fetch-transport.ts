@@ -0,0 +1,83 @@
+import { TimeoutError } from '../common/errors';
+import { abortError } from '../common/abort';
+import { Transport, TransportRequest, TransportResponse } from './interfaces';
+
+type Fetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+async function parseBody(res: Response): Promise<unknown> {
+  const contentType = res.headers.get('content-type') ?? '';
+  if (contentType.includes('json')) {
+    const text = await res.text();
+    return text ? JSON.parse(text) : undefined;
+  }
+  if (contentType.startsWith('text/') || !contentType) {
+    return res.text();
+  }
+  return res.arrayBuffer();
+}
+
+/**
+ * Sends requests with the native `fetch`, for edge runtimes and browsers
+ * where axios is not wanted.
+ */
+export class FetchTransport implements Transport {
+  private fetch: Fetch;
+
+  /**
+   * @param fetchImpl The fetch implementation to use. Defaults to the global
+   * `fetch`.
+   */
+  constructor(fetchImpl?: Fetch) {
+    this.fetch = fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const { method, url, headers, body, timeout, signal } = request;
+    if (signal?.aborted) throw abortError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    try {
+      const res = await this.fetch(url, {
+        method,
+        headers,
+        body:
+          body === undefined || typeof body === 'string'
+            ? (body as string)
+            : JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const responseHeaders: Record<string, string> = {};
+      res.headers.forEach((value, name) => {
+        responseHeaders[name.toLowerCase()] = value;
+      });
+      return {
+        status: res.status,
+        headers: responseHeaders,
+        data: await parseBody(res),
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeout}ms`, {
+          method,
+          endpoint: url.split('?')[0],
+          cause: error,
+        });
+      }
+      if (controller.signal.aborted) throw abortError();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { ValidationOptions } from '../common/interfaces';
+import { Schema } from '../common/schema';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface HttpResponse<T = any> {
+  /** The parsed response body */
+  data: T;
+  /** The HTTP status code */
+  status: number;
+  /** The response headers, with lower-cased names */
+  headers: Record<string, string>;
+}
+
+export interface RetryOptions {
+  /** How many times a failed request is retried. Defaults to 3 */
+  maxRetries: number;
+  /** The delay before the first retry, doubled on each attempt. Defaults to 500ms */
+  baseDelayMs: number;
+  /**
+   * The longest we will wait between attempts. A `Retry-After` asking for
+   * longer than this fails the request instead. Defaults to 30s
+   */
+  maxDelayMs: number;
+  /** Response statuses that are retried. Defaults to 408, 429, 500, 502, 503 and 504 */
+  retryOnStatus: number[];
+  /**
+   * Methods that are retried without opting in per request. Defaults to GET
+   * only, so a POST such as creating an appointment is never sent twice
+   * unless the caller asks for it.
+   */
+  methods: HttpMethod[];
+}
+
+export interface RateLimitOptions {
+  /** How many requests may start per second, on average */
+  requestsPerSecond?: number;
+  /** How many requests may start at once before throttling kicks in. Defaults to `requestsPerSecond` */
+  burst?: number;
+  /** How many requests may be in flight at the same time */
+  maxConcurrent?: number;
+}
+
+export interface RequestOptions {
+  /** Query parameters, serialized with `buildQuery` */
+  query?: object;
+  /**
+   * Override whether this request is retried. Set to `true` to opt a
+   * non-idempotent request such as a POST into retries.
+   */
+  retry?: boolean;
+  /** Abort the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Override the client timeout for this request, in milliseconds */
+  timeout?: number;
+  /** Extra headers to send with this request */
+  headers?: Record<string, string>;
+  /** The schema the response body is validated against, when validation is on */
+  schema?: Schema;
+  /** Serve this GET from the response cache, when caching is on */
+  cache?: CacheableEndpoint;
+}
+
+export interface TransportRequest {
+  method: HttpMethod;
+  /** The absolute URL, including the query string */
+  url: string;
+  headers: Record<string, string>;
+  /** The request body, serialized as JSON by the transport */
+  body?: unknown;
+  /** Timeout in milliseconds */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  /** The response headers, with lower-cased names */
+  headers: Record<string, string>;
+  /** The parsed response body */
+  data: unknown;
+}
+
+/**
+ * Sends a single HTTP request. A transport must resolve for every HTTP status,
+ * throw a `TimeoutError` when the timeout elapses and an error named
+ * `AbortError` when the signal is aborted. Retries, rate limiting and status
+ * handling are done by the `HttpClient` on top of it.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export interface RequestContext {
+  method: HttpMethod;
+  /** The endpoint path, without the base URL or query string */
+  endpoint: string;
+  /** The absolute URL, including the query string */
+  url: string;
+  /** The request headers. `beforeRequest` hooks may change them */
+  headers: Record<string, string>;
+  body?: unknown;
+  /** The attempt number, starting at 0 and increasing with each retry */
+  attempt: number;
+  /** When the attempt started, in milliseconds since the epoch */
+  startedAt: number;
+}
+
+/**
+ * Hooks run around every request attempt, in the order the middleware were
+ * added. `afterResponse` runs for every response received, whatever its
+ * status. `onError` runs when the attempt fails, including for failing
+ * statuses.
+ */
+export interface Middleware {
+  beforeRequest?(context: RequestContext): void | Promise<void>;
+  afterResponse?(
+    context: RequestContext,
+    response: TransportResponse
+  ): void | Promise<void>;
+  onError?(context: RequestContext, error: unknown): void | Promise<void>;
+}
+
+/** The slow-changing reference endpoints whose responses may be cached */
+export type CacheableEndpoint = 'settings' | 'practitioners' | 'questionnaires';
+
+/**
+ * Where cached responses are kept. Implement this to share the cache between
+ * processes, e.g. with Redis.
+ */
+export interface CacheStore {
+  get<T>(key: string): T | undefined | Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  /** Defaults to an in-memory LRU store */
+  store?: CacheStore;
+  /** Time to live per endpoint, in milliseconds. Defaults to 5 minutes */
+  ttl?: Partial<Record<CacheableEndpoint, number>>;
+  /**
+   * Prefix for every cache key. Use a different prefix per IntakeQ account
+   * when sharing a store. Defaults to `intakeq:`
+   */
+  keyPrefix?: string;
+}
+
+export interface HttpClientOptions {
+  /** Defaults to `https://intakeq.com/api/v1` */
+  baseURL?: string;
+  /** Request timeout in milliseconds. Defaults to 5000 */
+  timeout?: number;
+  /** Sent as the `User-Agent` header */
+  userAgent?: string;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** The HTTP layer to send requests with. Defaults to an `AxiosTransport` */
+  transport?: Transport;
+  /** Retry behaviour, or `false` to never retry */
+  retry?: Partial<RetryOptions> | false;
+  /** Client-side rate limiting. No limit is applied when omitted */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Validate responses against the SDK's runtime schemas to catch IntakeQ API
+   * drift. Off when omitted
+   */
+  validation?: ValidationOptions;
+  /**
+   * Cache the settings, practitioners and questionnaire templates. Pass
+   * `true` for the defaults. Off when omitted
+   */
+  cache?: CacheOptions | boolean;
+  /** Middleware run around every request */
+  middleware?: Middleware[];
+}
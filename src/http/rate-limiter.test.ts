@@ -0,0 +1,93 @@
+import { RateLimiter } from './rate-limiter';
+
+/** Let the callbacks of settled promises run */
+async function settle() {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+/** Ask for `count` slots, recording the order they are granted in */
+function acquireAll(limiter: RateLimiter, count: number) {
+  const granted: number[] = [];
+  const releases: (() => void)[] = [];
+  for (let i = 0; i < count; i++) {
+    limiter.acquire().then((release) => {
+      granted.push(i);
+      releases[i] = release;
+    });
+  }
+  return { granted, releases };
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lets a burst through, then spaces requests by the rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 2 });
+
+    const { granted, releases } = acquireAll(limiter, 4);
+    await settle();
+    expect(granted).toEqual([0, 1]);
+
+    releases.forEach((release) => release());
+    jest.advanceTimersByTime(99);
+    await settle();
+    expect(granted).toEqual([0, 1]);
+
+    jest.advanceTimersByTime(1);
+    await settle();
+    expect(granted).toEqual([0, 1, 2]);
+
+    jest.advanceTimersByTime(100);
+    await settle();
+    expect(granted).toEqual([0, 1, 2, 3]);
+  });
+
+  it('limits the rate alone when no cap is set', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+
+    const { granted } = acquireAll(limiter, 3);
+    await settle();
+    expect(granted).toEqual([0, 1]);
+
+    jest.advanceTimersByTime(500);
+    await settle();
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it('caps requests in flight alone when no rate is set', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+
+    const { granted, releases } = acquireAll(limiter, 3);
+    await settle();
+    expect(granted).toEqual([0, 1]);
+    expect(jest.getTimerCount()).toBe(0);
+
+    releases[0]();
+    await settle();
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it('waits for a request to finish when too many are in flight', async () => {
+    const limiter = new RateLimiter({
+      requestsPerSecond: 100,
+      maxConcurrent: 1,
+    });
+
+    const { granted, releases } = acquireAll(limiter, 2);
+    jest.advanceTimersByTime(1000);
+    await settle();
+    expect(granted).toEqual([0]);
+
+    releases[0]();
+    // Releasing twice must not free a second slot
+    releases[0]();
+    await settle();
+    expect(granted).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,89 @@
+import { RateLimitOptions } from './interfaces';
+
+/**
+ * A client-side token bucket that also caps the number of requests in flight.
+ * Without `requestsPerSecond` only the cap applies. Callers wait in FIFO order.
+ */
+export class RateLimiter {
+  private tokens: number;
+
+  private capacity: number;
+
+  /** Tokens added per millisecond, unset when only concurrency is capped */
+  private refillPerMs?: number;
+
+  private maxConcurrent: number;
+
+  private lastRefill = Date.now();
+
+  private active = 0;
+
+  private waiting: ((release: () => void) => void)[] = [];
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimitOptions = {}) {
+    const { requestsPerSecond, maxConcurrent = Infinity } = options;
+    this.capacity = options.burst ?? Math.max(1, requestsPerSecond ?? 1);
+    this.tokens = this.capacity;
+    if (requestsPerSecond !== undefined) {
+      this.refillPerMs = requestsPerSecond / 1000;
+    }
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * Wait for a free slot. The returned function must be called once the
+   * request has finished.
+   */
+  acquire(): Promise<() => void> {
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    if (this.refillPerMs === undefined) return;
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (
+      this.waiting.length &&
+      this.active < this.maxConcurrent &&
+      (this.refillPerMs === undefined || this.tokens >= 1)
+    ) {
+      if (this.refillPerMs !== undefined) this.tokens -= 1;
+      this.active++;
+      let released = false;
+      this.waiting.shift()(() => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.drain();
+      });
+    }
+
+    // Only out of tokens, so wake up once the next one has been refilled
+    if (
+      this.refillPerMs !== undefined &&
+      this.waiting.length &&
+      this.active < this.maxConcurrent &&
+      !this.timer
+    ) {
+      const wait = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, wait);
+    }
+  }
+}
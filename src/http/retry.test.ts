@@ -0,0 +1,109 @@
+import { RateLimitError, ServerError } from '../common/errors';
+import { HttpClient } from './client';
+import { TransportRequest, TransportResponse } from './interfaces';
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay } from './retry';
+
+function stubTransport(responses: TransportResponse[]) {
+  const requests: TransportRequest[] = [];
+  return {
+    requests,
+    async send(request: TransportRequest) {
+      requests.push(request);
+      return responses.shift();
+    },
+  };
+}
+
+describe('getRetryDelay', () => {
+  it('uses Retry-After when IntakeQ sends it', () => {
+    const error = new RateLimitError('Too many requests', {
+      retryAfterMs: 2000,
+    });
+    expect(getRetryDelay(0, error, DEFAULT_RETRY_OPTIONS)).toBe(2000);
+  });
+
+  it('uses Retry-After on a server error', () => {
+    const error = new ServerError('Service unavailable', {
+      status: 503,
+      retryAfterMs: 1500,
+    });
+    expect(getRetryDelay(0, error, DEFAULT_RETRY_OPTIONS)).toBe(1500);
+  });
+
+  it('gives up when Retry-After is longer than maxDelayMs', () => {
+    const error = new RateLimitError('Too many requests', {
+      retryAfterMs: 60000,
+    });
+    expect(getRetryDelay(0, error, DEFAULT_RETRY_OPTIONS)).toBeUndefined();
+  });
+
+  it('backs off exponentially up to maxDelayMs', () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    try {
+      const options = { ...DEFAULT_RETRY_OPTIONS, maxDelayMs: 3000 };
+      expect(getRetryDelay(0, undefined, options)).toBeLessThan(500);
+      expect(getRetryDelay(2, undefined, options)).toBeGreaterThan(1999);
+      expect(getRetryDelay(5, undefined, options)).toBeLessThan(3000);
+    } finally {
+      random.mockRestore();
+    }
+  });
+});
+
+describe('HttpClient retries', () => {
+  it('retries a GET after a retryable status', async () => {
+    const transport = stubTransport([
+      { status: 503, headers: {}, data: null },
+      { status: 200, headers: {}, data: { ok: true } },
+    ]);
+    const client = new HttpClient({ transport, retry: { baseDelayMs: 1 } });
+
+    const res = await client.get('/settings');
+
+    expect(res.data).toEqual({ ok: true });
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('waits for Retry-After before retrying', async () => {
+    const transport = stubTransport([
+      { status: 429, headers: { 'retry-after': '0.05' }, data: null },
+      { status: 200, headers: {}, data: [] },
+    ]);
+    const client = new HttpClient({ transport });
+
+    const startedAt = Date.now();
+    await client.get('/practitioners');
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('fails without retrying when Retry-After is too long', async () => {
+    const transport = stubTransport([
+      { status: 429, headers: { 'retry-after': '120' }, data: null },
+    ]);
+    const client = new HttpClient({ transport });
+
+    await expect(client.get('/practitioners')).rejects.toMatchObject({
+      name: 'RateLimitError',
+      retryAfterMs: 120000,
+    });
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('does not retry a POST unless the request opts in', async () => {
+    const transport = stubTransport([
+      { status: 503, headers: {}, data: null },
+      { status: 503, headers: {}, data: null },
+      { status: 200, headers: {}, data: {} },
+    ]);
+    const client = new HttpClient({ transport, retry: { baseDelayMs: 1 } });
+
+    await expect(client.post('/appointments', {})).rejects.toMatchObject({
+      status: 503,
+    });
+    await client.post('/appointments', {}, { retry: true });
+
+    expect(transport.requests).toHaveLength(3);
+  });
+});
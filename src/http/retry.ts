@@ -0,0 +1,74 @@
+import { abortError } from '../common/abort';
+import { IntakeQError, RateLimitError, ServerError } from '../common/errors';
+import { RetryOptions } from './interfaces';
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  methods: ['GET'],
+};
+
+/**
+ * Whether the error is worth retrying. Timeouts and network failures have no
+ * status and are always retried.
+ * @param error The error thrown by the request
+ * @param options The retry options in use
+ */
+export function isRetryableError(
+  error: unknown,
+  options: RetryOptions
+): boolean {
+  if (!(error instanceof IntakeQError)) return false;
+  if (error.status === undefined) return true;
+  return options.retryOnStatus.includes(error.status);
+}
+
+/**
+ * How long to wait before the next attempt, or `undefined` if we should give
+ * up. Uses exponential backoff with full jitter, unless IntakeQ told us how
+ * long to wait with `Retry-After`.
+ * @param attempt The attempt that just failed, starting at 0
+ * @param error The error thrown by the request
+ * @param options The retry options in use
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: unknown,
+  options: RetryOptions
+): number | undefined {
+  if (
+    (error instanceof RateLimitError || error instanceof ServerError) &&
+    error.retryAfterMs !== undefined
+  ) {
+    return error.retryAfterMs <= options.maxDelayMs
+      ? error.retryAfterMs
+      : undefined;
+  }
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return Math.random() * ceiling;
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ * @param ms How long to wait
+ * @param signal Cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,47 +1,206 @@
-import axios, { AxiosInstance } from 'axios';
 import { AppointmentApi } from './appointment/api';
 import { ClientApi } from './client/api';
 import { InvoiceApi } from './invoice/api';
 import { NotesApi } from './notes/api';
 import { QuestionnaireApi } from './questionnaire/api';
+import { HttpClient } from './http/client';
+import { HttpClientOptions, Middleware } from './http/interfaces';
+import { Hydrator } from './common/hydration';
+import { TimestampUnit } from './common/interfaces';
+import { ResponseCache } from './http/cache';
 
-export class IntakeQApi {
-  protected api: AxiosInstance;
+export interface IntakeQApiOptions<H extends boolean = false>
+  extends HttpClientOptions {
+  /** Your IntakeQ API key */
+  apiKey?: string;
+  /**
+   * Return hydrated responses, with `Date`s (or `null`) in place of the Unix
+   * timestamp fields of appointments, clients, invoices, notes and intake
+   * forms
+   */
+  hydrate?: H;
+  /** The unit IntakeQ timestamps are in when hydrating. Defaults to seconds */
+  timestampUnit?: TimestampUnit;
+}
+
+export class IntakeQApi<H extends boolean = false> {
+  protected api: HttpClient;
+
+  public Appointment: AppointmentApi<H>;
+
+  public Client: ClientApi<H>;
+
+  public Invoice: InvoiceApi<H>;
+
+  public Notes: NotesApi<H>;
 
-  public Appointment: AppointmentApi;
+  public Questionnaire: QuestionnaireApi<H>;
 
-  public Client: ClientApi;
+  /** Invalidate cached reference data with `Cache.invalidate()` */
+  public Cache: ResponseCache;
 
-  public Invoice: InvoiceApi;
+  /**
+   * @param apiKey Your IntakeQ API key
+   * @param options Transport, timeout, retry and rate limiting behaviour
+   */
+  constructor(apiKey: string, options?: IntakeQApiOptions<H>);
 
-  public Notes: NotesApi;
+  /**
+   * @param options Your API key along with the transport, timeout, retry and
+   * rate limiting behaviour
+   */
+  constructor(options: IntakeQApiOptions<H> & { apiKey: string });
 
-  public Questionnaire: QuestionnaireApi;
+  constructor(
+    apiKeyOrOptions: string | IntakeQApiOptions<H>,
+    options: IntakeQApiOptions<H> = {}
+  ) {
+    const { apiKey, hydrate, timestampUnit, ...httpOptions } =
+      typeof apiKeyOrOptions === 'string'
+        ? { ...options, apiKey: apiKeyOrOptions }
+        : apiKeyOrOptions;
 
-  constructor(apiKey: string) {
-    this.api = axios.create({
-      baseURL: 'https://intakeq.com/api/v1',
-      timeout: 5000,
-      headers: { 'X-Auth-Key': apiKey },
+    this.api = new HttpClient({
+      ...httpOptions,
+      headers: { ...httpOptions.headers, 'X-Auth-Key': apiKey },
     });
 
-    this.Appointment = new AppointmentApi(this.api);
-    this.Client = new ClientApi(this.api);
-    this.Invoice = new InvoiceApi(this.api);
-    this.Notes = new NotesApi(this.api);
-    this.Questionnaire = new QuestionnaireApi(this.api);
+    this.Cache = this.api.cache;
+
+    const hydrator = hydrate ? new Hydrator(timestampUnit) : undefined;
+
+    this.Appointment = new AppointmentApi(this.api, hydrator);
+    this.Client = new ClientApi(this.api, hydrator);
+    this.Invoice = new InvoiceApi(this.api, hydrator);
+    this.Notes = new NotesApi(this.api, hydrator);
+    this.Questionnaire = new QuestionnaireApi(this.api, hydrator);
+  }
+
+  /**
+   * Add middleware to run around every request, e.g. `createAuditLogger({ log })`
+   * @param middleware The hooks to add
+   */
+  use(middleware: Middleware): this {
+    this.api.use(middleware);
+    return this;
   }
 }
 
 // Export all interface types
+export * from './http/interfaces';
+export * from './common/interfaces';
 export * from './appointment/interfaces';
 export * from './client/interfaces';
 export * from './invoice/interfaces';
 export * from './notes/interfaces';
 export * from './questionnaire/interfaces';
 
+export { paginate, collect, PAGE_SIZE } from './common/pagination';
+export { buildQuery, formatDate, parseDate, QueryValue } from './common/query';
+export { Hydrator } from './common/hydration';
+export { Schema, validate } from './common/schema';
+export * from './appointment/schemas';
+export * from './client/schemas';
+export * from './invoice/schemas';
+export * from './notes/schemas';
+export * from './questionnaire/schemas';
+export {
+  IntakeQError,
+  IntakeQErrorDetails,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ResponseValidationError,
+  WebhookValidationError,
+  CustomFieldValidationError,
+  DuplicateClientError,
+  SchedulingConflictError,
+  RescheduleIncompleteError,
+} from './common/errors';
+export { CustomFieldMapping, customField } from './client/custom-fields';
+export {
+  scoreDuplicate,
+  buildDuplicateReport,
+  duplicateReportToCsv,
+  DUPLICATE_THRESHOLD,
+} from './client/duplicates';
+export {
+  AvailabilityService,
+  AvailabilityBackend,
+  DEFAULT_BUSINESS_HOURS,
+  BLOCKING_STATUSES,
+  appointmentSpan,
+  isWithinBusinessHours,
+} from './appointment/availability';
+export { findConflicts, Booking } from './appointment/conflicts';
+export {
+  appointmentsToIcs,
+  calendarFeedToken,
+  verifyCalendarFeedToken,
+  initials,
+} from './appointment/ics';
+export {
+  AppointmentSeriesService,
+  SeriesBackend,
+  MAX_OCCURRENCES,
+  parseRecurrence,
+  expandRecurrence,
+} from './appointment/series';
+export { MemorySeriesStore, FileSeriesStore } from './appointment/series-store';
+export { ClientImporter, ClientImportBackend } from './client/import';
+export { matchesSegment } from './client/segments';
+export {
+  csvCell,
+  csvRow,
+  toCsv,
+  parseCsv,
+  parseCsvRecords,
+} from './common/csv';
+export { mapConcurrent } from './common/concurrency';
+export * from './export/interfaces';
+export { DataExporter, EXPORT_COLUMNS } from './export/exporter';
+export { HttpClient } from './http/client';
+export { ResponseCache, MemoryCacheStore } from './http/cache';
+export {
+  createAuditLogger,
+  AuditEntry,
+  AuditLoggerOptions,
+} from './http/audit-logger';
+export {
+  redactPhi,
+  RedactOptions,
+  REDACTED,
+  PHI_FIELDS,
+  CLIENT_PHI_FIELDS,
+  APPOINTMENT_PHI_FIELDS,
+  INVOICE_PHI_FIELDS,
+} from './common/redaction';
+export { AxiosTransport } from './http/axios-transport';
+export { FetchTransport } from './http/fetch-transport';
+export * from './webhook/interfaces';
+export { WebhookRouter } from './webhook/router';
+export {
+  MemoryWebhookEventStore,
+  FileWebhookEventStore,
+  webhookEventKey,
+  webhookEntityId,
+} from './webhook/store';
+export { WebhookForwarder } from './webhook/forwarder';
+export { MemoryOutboxStore, FileOutboxStore } from './webhook/outbox';
+export {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  SIGNATURE_HEADER,
+} from './webhook/signature';
+
 // Export voice assistant components
 export * from './voice/interfaces';
 export { VoiceAssistantApi } from './voice/voice-assistant-api';
 export { CommandProcessor } from './voice/command-processor';
-export { BlandWebhookServer, createBlandServer } from './voice/bland-webhook-server';
+export {
+  BlandWebhookServer,
+  createBlandServer,
+} from './voice/bland-webhook-server';
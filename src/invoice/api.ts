@@ -1,36 +1,74 @@
-import { AxiosInstance } from 'axios';
-import { Invoice, ListInvoicesRequest } from './interfaces';
+import { HttpClient } from '../http/client';
+import { HydratedInvoice, Invoice, ListInvoicesRequest } from './interfaces';
+import { MaybeHydrated, PaginationOptions } from '../common/interfaces';
+import { Hydrator } from '../common/hydration';
+import { collect, paginate } from '../common/pagination';
+import { s } from '../common/schema';
+import { invoiceSchema } from './schemas';
 
 const ENDPOINT = 'invoices';
 
-export class InvoiceApi {
-  constructor(private api: AxiosInstance) {}
+type InvoiceOf<H extends boolean> = MaybeHydrated<H, Invoice, HydratedInvoice>;
+
+export class InvoiceApi<H extends boolean = false> {
+  constructor(private api: HttpClient, private hydrator?: Hydrator) {}
+
+  private hydrate(invoice: Invoice): InvoiceOf<H> {
+    return (this.hydrator
+      ? this.hydrator.invoice(invoice)
+      : invoice) as InvoiceOf<H>;
+  }
 
   /**
    * Use this endpoint to query for matching invoices.
    * @param params - The request object for querying invoices
    */
-  async listInvoices(params: ListInvoicesRequest): Promise<Invoice[]> {
-    const urlParams = [];
-
-    Object.keys(params).forEach((key) => {
-      if (!params[key]) return;
-      urlParams.push(`${key}=${params[key]}`);
+  async listInvoices(params: ListInvoicesRequest): Promise<InvoiceOf<H>[]> {
+    const res = await this.api.get<Invoice[]>(ENDPOINT, {
+      query: params,
+      schema: s.array(invoiceSchema),
     });
 
-    const res = await this.api.get<Invoice[]>(
-      `${ENDPOINT}?${urlParams.join('&')}`
+    return res.data.map((invoice) => this.hydrate(invoice));
+  }
+
+  /**
+   * Iterate over every invoice matching the query, fetching further pages as
+   * needed. Paging starts from `params.page` if it is set.
+   * @param params - The request object for querying invoices
+   * @param options - Limits and abort signal for the iteration
+   */
+  iterateInvoices(
+    params: ListInvoicesRequest,
+    options?: PaginationOptions
+  ): AsyncGenerator<InvoiceOf<H>, void, undefined> {
+    return paginate(
+      (page) => this.listInvoices({ ...params, page: String(page) }),
+      options,
+      params.page ? Number(params.page) : undefined
     );
+  }
 
-    return res.data;
+  /**
+   * Load every invoice matching the query across all pages
+   * @param params - The request object for querying invoices
+   * @param options - Limits and abort signal for the iteration
+   */
+  async listAllInvoices(
+    params: ListInvoicesRequest,
+    options?: PaginationOptions
+  ): Promise<InvoiceOf<H>[]> {
+    return collect(this.iterateInvoices(params, options));
   }
 
   /**
    * Loads a single invoice from it's ID.
    * @param invoiceId The ID of the invoice to load
    */
-  async getInvoice(invoiceId: string): Promise<Invoice> {
-    const res = await this.api.get<Invoice>(`${ENDPOINT}/${invoiceId}`);
-    return res.data;
+  async getInvoice(invoiceId: string): Promise<InvoiceOf<H>> {
+    const res = await this.api.get<Invoice>(`${ENDPOINT}/${invoiceId}`, {
+      schema: invoiceSchema,
+    });
+    return this.hydrate(res.data);
   }
 }
@@ -1,3 +1,5 @@
+import { Hydrated } from '../common/interfaces';
+
 export interface CardDetails {
   Brand: string;
   LastDigits: string;
@@ -101,19 +103,39 @@ export interface Invoice {
   DiagnosisList: string[];
 }
 
+export type HydratedInvoicePayment = Hydrated<InvoicePayment, 'Date'>;
+
+export type HydratedInvoiceSubItem = Hydrated<InvoiceSubItem, 'Date'>;
+
+export type HydratedInvoiceItem = Omit<
+  Hydrated<InvoiceItem, 'Date'>,
+  'SubItems'
+> & {
+  SubItems: HydratedInvoiceSubItem[];
+};
+
+export type HydratedInvoice = Omit<
+  Hydrated<Invoice, 'IssuedDate' | 'DueDate' | 'DateCreated'>,
+  'Payments' | 'Items'
+> & {
+  Payments: HydratedInvoicePayment[];
+  Items: HydratedInvoiceItem[];
+};
+
 export interface ListInvoicesRequest {
   /** An integer used to search the client by ID */
   clientId?: string;
   /**
    * Return only invoices that are scheduled for after the specified date. Use
-   * the following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * the following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a `Date`.
    */
-  startDate?: string;
+  startDate?: string | Date;
   /**
    * Return only invoices that are scheduled for before the specified date.
-   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a
+   * `Date`.
    */
-  endDate?: string;
+  endDate?: string | Date;
   /**
    * Possible values are "Draft", "Scheduled", "Unpaid", "Paid", "PastDue",
    * "Refunded", "Forgiven" and "Canceled".
@@ -132,14 +154,15 @@ export interface ListInvoicesRequest {
   page?: string;
   /**
    * Return only invoices that have been changed after the specified date. Use
-   * the following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * the following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a `Date`.
    */
-  lastUpdateStartDate?: string;
+  lastUpdateStartDate?: string | Date;
   /**
    * Return only invoices that have been changed before the specified date.
-   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * Use the following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a
+   * `Date`.
    */
-  lastUpdateEndDate?: string;
+  lastUpdateEndDate?: string | Date;
 }
 
 export interface InvoiceReceived {
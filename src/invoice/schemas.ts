@@ -0,0 +1,115 @@
+import { s } from '../common/schema';
+import {
+  CardDetails,
+  Invoice,
+  InvoiceItem,
+  InvoicePayment,
+  InvoiceReceived,
+  InvoiceSubItem,
+} from './interfaces';
+
+const cardDetailsSchema = s.object<CardDetails>({
+  Brand: s.string(),
+  LastDigits: s.string(),
+  ExpirationMonth: s.number(),
+  ExpirationYear: s.number(),
+  CardId: s.string(),
+});
+
+const invoicePaymentSchema = s.object<InvoicePayment>({
+  Date: s.number(),
+  Amount: s.number(),
+  Currency: s.string(),
+  Method: s.enum(
+    'Stripe',
+    'CreditCard',
+    'Cash',
+    'Check',
+    'DebitCard',
+    'Square',
+    'CreditBalance',
+    'BankTransfer',
+    'Insurance',
+    'GiftCard',
+    'Other'
+  ),
+  ProcessedBy: s.string(),
+  ProcessedByType: s.enum('Client', 'Provider', 'Automation'),
+  TipAmount: s.number(),
+  RefundedAmount: s.number(),
+  AdditionalInfo: s.string(),
+  CardDetails: s.nullable(cardDetailsSchema),
+});
+
+const invoiceSubItemSchema = s.object<InvoiceSubItem>({
+  ServiceCode: s.number(),
+  Price: s.number(),
+  Units: s.number(),
+  Description: s.string(),
+  Date: s.number(),
+  Modifiers: s.array(s.unknown()),
+});
+
+const invoiceItemSchema = s.object<InvoiceItem>({
+  AppointmentId: s.string(),
+  ProductId: s.string(),
+  Description: s.string(),
+  TotalTaxAmount: s.number(),
+  Units: s.number(),
+  Price: s.number(),
+  Date: s.number(),
+  Taxes: s.array(
+    s.object<InvoiceItem['Taxes'][number]>({
+      Name: s.string(),
+      Percentage: s.number(),
+    })
+  ),
+  TaxesIncludedInPrice: s.boolean(),
+  IsCopay: s.boolean(),
+  TotalAmount: s.number(),
+  ServiceCode: s.number(),
+  SubItems: s.array(invoiceSubItemSchema),
+});
+
+export const invoiceSchema = s.object<Invoice>({
+  Id: s.string(),
+  Number: s.number(),
+  ClientName: s.string(),
+  ClientEmail: s.string(),
+  ClientId: s.string(),
+  ClientIdNumber: s.number(),
+  Status: s.enum('Draft', 'Paid', 'Unpaid', 'PastDue', 'Refunded', 'Canceled'),
+  IssuedDate: s.number(),
+  DueDate: s.number(),
+  DateCreated: s.number(),
+  CurrencyIso: s.string(),
+  DiscountAmount: s.number(),
+  DiscountPercent: s.number(),
+  DiscountType: s.enum('Percentage', 'Amount'),
+  SubTotal: s.number(),
+  TotalAmount: s.number(),
+  AmountDue: s.number(),
+  AmountPaid: s.number(),
+  NoteToClient: s.string(),
+  AllowTipping: s.boolean(),
+  TipAmount: s.number(),
+  Automated: s.boolean(),
+  CreatedBy: s.string(),
+  AdditionalEmailRecipients: s.array(s.string()),
+  Payments: s.array(invoicePaymentSchema),
+  Items: s.array(invoiceItemSchema),
+  DiagnosisList: s.array(s.string()),
+});
+
+export const invoiceReceivedSchema = s.object<InvoiceReceived>({
+  EventType: s.enum(
+    'InvoiceIssued',
+    'InvoicePaid',
+    'InvoicePaymentPlanChargeFailed',
+    'InvoiceAutoChargeFailed',
+    'InvoiceCancelled',
+    'InvoicePaymentRefunded'
+  ),
+  ActionPerformedByClient: s.boolean(),
+  Invoice: invoiceSchema,
+});
@@ -0,0 +1,25 @@
+import { TransportRequest } from '../http/interfaces';
+import { IntakeQApi } from '../index';
+import { buildTreatmentNote } from '../testing/builders';
+import { IntakeQFake } from '../testing/fake';
+
+describe('NotesApi.downloadNotePDF', () => {
+  it('asks IntakeQ for a PDF', async () => {
+    const note = buildTreatmentNote();
+    const fake = new IntakeQFake({ seed: { notes: [note] } });
+    const sent: TransportRequest[] = [];
+    const transport = {
+      send: (request: TransportRequest) => {
+        sent.push(request);
+        return fake.send(request);
+      },
+    };
+    const api = new IntakeQApi('test', { transport, retry: false });
+
+    const res = await api.Notes.downloadNotePDF(note.Id);
+
+    expect(sent[0].headers.Accept).toBe('application/pdf');
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/pdf');
+  });
+});
@@ -1,14 +1,34 @@
-import { AxiosInstance } from 'axios';
+import { HttpClient } from '../http/client';
+import { HttpResponse } from '../http/interfaces';
 import {
   ListTreatmentNotesRequest,
   TreatmentNoteSummary,
   TreatmentNote,
+  HydratedTreatmentNoteSummary,
+  HydratedTreatmentNote,
 } from './interfaces';
+import { MaybeHydrated, PaginationOptions } from '../common/interfaces';
+import { Hydrator } from '../common/hydration';
+import { collect, paginate } from '../common/pagination';
+import { s } from '../common/schema';
+import { treatmentNoteSchema, treatmentNoteSummarySchema } from './schemas';
 
 const ENDPOINT = 'notes';
 
-export class NotesApi {
-  constructor(private api: AxiosInstance) {}
+type TreatmentNoteSummaryOf<H extends boolean> = MaybeHydrated<
+  H,
+  TreatmentNoteSummary,
+  HydratedTreatmentNoteSummary
+>;
+
+type TreatmentNoteOf<H extends boolean> = MaybeHydrated<
+  H,
+  TreatmentNote,
+  HydratedTreatmentNote
+>;
+
+export class NotesApi<H extends boolean = false> {
+  constructor(private api: HttpClient, private hydrator?: Hydrator) {}
 
   /**
    * Use this method to query treatment note summaries. The result set does not contain all the contents of the notes, but only their basic information (id, status, client info).
@@ -21,21 +41,58 @@ export class NotesApi {
    */
   async listTreatmentNotes(
     params: ListTreatmentNotesRequest
-  ): Promise<TreatmentNoteSummary[]> {
-    const urlParams = Object.keys(params).map((key) => `${key}=${params[key]}`);
+  ): Promise<TreatmentNoteSummaryOf<H>[]> {
     const res = await this.api.get<TreatmentNoteSummary[]>(
-      `${ENDPOINT}/summary?${urlParams.join('&')}`
+      `${ENDPOINT}/summary`,
+      { query: params, schema: s.array(treatmentNoteSummarySchema) }
+    );
+
+    return res.data.map(
+      (note) =>
+        (this.hydrator
+          ? this.hydrator.treatmentNote(note)
+          : note) as TreatmentNoteSummaryOf<H>
+    );
+  }
+
+  /**
+   * Iterate over every treatment note summary matching the query, fetching
+   * further pages as needed. Paging starts from `params.page` if it is set.
+   * @param params The list treatment notes request parameters
+   * @param options Limits and abort signal for the iteration
+   */
+  iterateTreatmentNotes(
+    params: ListTreatmentNotesRequest,
+    options?: PaginationOptions
+  ): AsyncGenerator<TreatmentNoteSummaryOf<H>, void, undefined> {
+    return paginate(
+      (page) => this.listTreatmentNotes({ ...params, page }),
+      options,
+      params.page
     );
+  }
 
-    return res.data;
+  /**
+   * Load every treatment note summary matching the query across all pages
+   * @param params The list treatment notes request parameters
+   * @param options Limits and abort signal for the iteration
+   */
+  async listAllTreatmentNotes(
+    params: ListTreatmentNotesRequest,
+    options?: PaginationOptions
+  ): Promise<TreatmentNoteSummaryOf<H>[]> {
+    return collect(this.iterateTreatmentNotes(params, options));
   }
 
   /**
    * Use this method to download the note as a PDF file.
+   * Resolves to the `HttpResponse`, with the file as its `data`.
    * @param noteId The id of the note to download
    */
-  async downloadNotePDF(noteId: string) {
-    return this.api.get(`${ENDPOINT}/${noteId}/pdf`);
+  async downloadNotePDF(noteId: string): Promise<HttpResponse> {
+    return this.api.get(`${ENDPOINT}/${noteId}/pdf`, {
+      headers: { Accept: 'application/pdf' },
+    });
   }
 
   /**
@@ -43,8 +100,12 @@ export class NotesApi {
    * The full note is very similar to note summary object, except it adds an array of questions.
    * @param noteId The id of the note to get
    */
-  async getTreatmentNote(noteId: string): Promise<TreatmentNote> {
-    const res = await this.api.get<TreatmentNote>(`${ENDPOINT}/${noteId}`);
-    return res.data;
+  async getTreatmentNote(noteId: string): Promise<TreatmentNoteOf<H>> {
+    const res = await this.api.get<TreatmentNote>(`${ENDPOINT}/${noteId}`, {
+      schema: treatmentNoteSchema,
+    });
+    return (this.hydrator
+      ? this.hydrator.treatmentNote(res.data)
+      : res.data) as TreatmentNoteOf<H>;
   }
 }
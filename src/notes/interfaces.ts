@@ -1,3 +1,4 @@
+import { Hydrated } from '../common/interfaces';
 import { QuestionList } from '../questionnaire/interfaces';
 
 export type TreatmentNoteStatus = 'locked' | 'unlocked';
@@ -36,11 +37,20 @@ export interface TreatmentNote extends TreatmentNoteSummary {
   Questions: QuestionList;
 }
 
+export type HydratedTreatmentNoteSummary = Hydrated<
+  TreatmentNoteSummary,
+  'Date'
+>;
+
+export type HydratedTreatmentNote = Hydrated<TreatmentNote, 'Date'>;
+
 export interface ListTreatmentNotesRequest {
   client?: string;
   clientId?: number;
   status?: TreatmentNoteStatus;
-  startDate?: string;
-  endDate?: string;
+  /** yyyy-MM-dd, or a `Date` */
+  startDate?: string | Date;
+  /** yyyy-MM-dd, or a `Date` */
+  endDate?: string | Date;
   page?: number;
 }
@@ -0,0 +1,26 @@
+import { s } from '../common/schema';
+import { questionSchema } from '../questionnaire/schemas';
+import { TreatmentNote, TreatmentNoteSummary } from './interfaces';
+
+const treatmentNoteSummaryFields = {
+  Id: s.string(),
+  ClientName: s.string(),
+  ClientEmail: s.string(),
+  ClientId: s.number(),
+  Status: s.enum('locked', 'unlocked'),
+  Date: s.number(),
+  NoteName: s.string(),
+  PractitionerEmail: s.string(),
+  PractitionerName: s.string(),
+  PractitionerId: s.number(),
+  AppointmentId: s.optional(s.string()),
+};
+
+export const treatmentNoteSummarySchema = s.object<TreatmentNoteSummary>(
+  treatmentNoteSummaryFields
+);
+
+export const treatmentNoteSchema = s.object<TreatmentNote>({
+  ...treatmentNoteSummaryFields,
+  Questions: s.array(questionSchema),
+});
@@ -1,4 +1,5 @@
-import { AxiosInstance } from 'axios';
+import { HttpClient } from '../http/client';
+import { HttpResponse, RequestOptions } from '../http/interfaces';
 import {
   ListIntakeFormsRequest,
   IntakeFormSummary,
@@ -6,14 +7,44 @@ import {
   Questionnaire,
   Practitioner,
   SendQuestionnaireRequest,
+  HydratedIntakeFormSummary,
+  HydratedIntakeForm,
 } from './interfaces';
+import { MaybeHydrated, PaginationOptions } from '../common/interfaces';
+import { Hydrator } from '../common/hydration';
+import { collect, paginate } from '../common/pagination';
+import { s } from '../common/schema';
+import {
+  intakeFormSchema,
+  intakeFormSummarySchema,
+  practitionerSchema,
+  questionnaireSchema,
+} from './schemas';
 
 const ENDPOINT = 'intakes';
 const QUESTIONNAIRE_ENDPOINT = 'questionnaires';
 const PRACTITIONER_ENDPOINT = 'practitioners';
 
-export class QuestionnaireApi {
-  constructor(private api: AxiosInstance) {}
+type IntakeFormSummaryOf<H extends boolean> = MaybeHydrated<
+  H,
+  IntakeFormSummary,
+  HydratedIntakeFormSummary
+>;
+
+type IntakeFormOf<H extends boolean> = MaybeHydrated<
+  H,
+  IntakeForm,
+  HydratedIntakeForm
+>;
+
+export class QuestionnaireApi<H extends boolean = false> {
+  constructor(private api: HttpClient, private hydrator?: Hydrator) {}
+
+  private hydrate(form: IntakeForm): IntakeFormOf<H> {
+    return (this.hydrator
+      ? this.hydrator.intakeForm(form)
+      : form) as IntakeFormOf<H>;
+  }
 
   /**
    * Use this method to query client intake form summaries. The result set does not contain all the contents of the intake forms, but only their basic information (id, status, client info).
@@ -25,20 +56,57 @@ export class QuestionnaireApi {
    */
   async listIntakeForms(
     params: ListIntakeFormsRequest
-  ): Promise<IntakeFormSummary[]> {
-    const urlParams = Object.keys(params).map((key) => `${key}=${params[key]}`);
-    const res = await this.api.get<IntakeFormSummary[]>(
-      `${ENDPOINT}/summary?${urlParams.join('&')}`
+  ): Promise<IntakeFormSummaryOf<H>[]> {
+    const res = await this.api.get<IntakeFormSummary[]>(`${ENDPOINT}/summary`, {
+      query: params,
+      schema: s.array(intakeFormSummarySchema),
+    });
+    return res.data.map(
+      (form) =>
+        (this.hydrator
+          ? this.hydrator.intakeForm(form)
+          : form) as IntakeFormSummaryOf<H>
     );
-    return res.data;
+  }
+
+  /**
+   * Iterate over every intake form summary matching the query, fetching
+   * further pages as needed. Paging starts from `params.page` if it is set.
+   * @param params The list intake forms request parameters
+   * @param options Limits and abort signal for the iteration
+   */
+  iterateIntakeForms(
+    params: ListIntakeFormsRequest,
+    options?: PaginationOptions
+  ): AsyncGenerator<IntakeFormSummaryOf<H>, void, undefined> {
+    return paginate(
+      (page) => this.listIntakeForms({ ...params, page }),
+      options,
+      params.page
+    );
+  }
+
+  /**
+   * Load every intake form summary matching the query across all pages
+   * @param params The list intake forms request parameters
+   * @param options Limits and abort signal for the iteration
+   */
+  async listAllIntakeForms(
+    params: ListIntakeFormsRequest,
+    options?: PaginationOptions
+  ): Promise<IntakeFormSummaryOf<H>[]> {
+    return collect(this.iterateIntakeForms(params, options));
   }
 
   /**
    * Use this method to download a client’s complete intake package as a PDF file.
+   * Resolves to the `HttpResponse`, with the file as its `data`.
    * @param intakeId The id of the intake to download
    */
-  downloadIntakeFormPDF(intakeId: string) {
-    return this.api.get(`${ENDPOINT}/${intakeId}/pdf`);
+  downloadIntakeFormPDF(intakeId: string): Promise<HttpResponse> {
+    return this.api.get(`${ENDPOINT}/${intakeId}/pdf`, {
+      headers: { Accept: 'application/pdf' },
+    });
   }
 
   /**
@@ -46,24 +114,34 @@ export class QuestionnaireApi {
    * The full intake form is very similar to intake summary object, except it adds an array of questions.
    * @param intakeId The id of the intake to get
    */
-  async getIntakeForm(intakeId: string): Promise<IntakeForm> {
-    const res = await this.api.get<IntakeForm>(`${ENDPOINT}/${intakeId}`);
-    return res.data;
+  async getIntakeForm(intakeId: string): Promise<IntakeFormOf<H>> {
+    const res = await this.api.get<IntakeForm>(`${ENDPOINT}/${intakeId}`, {
+      schema: intakeFormSchema,
+    });
+    return this.hydrate(res.data);
   }
 
   /**
    * Use this method to get a list of questionnaire templates. This list is useful for learning the ID of each questionnaire so it can be used in the Send Questionnaire method (see next section).
+   * Served from the cache when caching is turned on.
    */
   async listQuestionnaireTemplates(): Promise<Questionnaire[]> {
-    const res = await this.api.get<Questionnaire[]>(QUESTIONNAIRE_ENDPOINT);
+    const res = await this.api.get<Questionnaire[]>(QUESTIONNAIRE_ENDPOINT, {
+      schema: s.array(questionnaireSchema),
+      cache: 'questionnaires',
+    });
     return res.data;
   }
 
   /**
    * Use this method to get a list of practitioners in the account. This list is useful for learning the ID of each practitioner so it can be used in other methods.
+   * Served from the cache when caching is turned on.
    */
   async listPractitioners(): Promise<Practitioner[]> {
-    const res = await this.api.get<Practitioner[]>(PRACTITIONER_ENDPOINT);
+    const res = await this.api.get<Practitioner[]>(PRACTITIONER_ENDPOINT, {
+      schema: s.array(practitionerSchema),
+      cache: 'practitioners',
+    });
     return res.data;
   }
 
@@ -74,11 +152,16 @@ export class QuestionnaireApi {
    * @param params.ClientEmail Mandatory only if ClientId is not provided.
    * @param params.PractitionerId The ID of the practitioner associated with this intake. If not provided, IntakeQ will try to use the practitioner who is already associated with this client. If that fails, IntakeQ will use the main account practitioner. If the main account is not a practitioner, the method will fail
    * @param params.ClientId The ID of the client. This is a positive integer and can be retrieved using the /clients endpoint. When this field is provided, IntakeQ will ignore the ClientName and ClientEmail fields and look for an exact match on the ClientId to find an existing client. If the client is not found, the method will fail.
+   * @param options Set `retry: true` to retry this request on transient failures
    */
   async sendQuestionnaire(
-    params: SendQuestionnaireRequest
-  ): Promise<IntakeForm> {
-    const res = await this.api.post<IntakeForm>(`${ENDPOINT}/send`, params);
-    return res.data;
+    params: SendQuestionnaireRequest,
+    options?: RequestOptions
+  ): Promise<IntakeFormOf<H>> {
+    const res = await this.api.post<IntakeForm>(`${ENDPOINT}/send`, params, {
+      ...options,
+      schema: intakeFormSchema,
+    });
+    return this.hydrate(res.data);
   }
 }
@@ -1,3 +1,5 @@
+import { Hydrated } from '../common/interfaces';
+
 export interface BaseQuestion {
   Id: string;
   Text: string;
@@ -68,7 +70,7 @@ export interface IntakeFormSummary {
   QuestionnaireId: string;
   /**  The email of the practitioner associated with the intake (for accounts with multiple practitioners) */
   Practitioner: string;
-  /** 
+  /**
    * The ID of the practitioner associated with the intake (for accounts with
    * multiple practitioners)
    */
@@ -96,6 +98,18 @@ export interface IntakeForm extends IntakeFormSummary {
   }[];
 }
 
+export type HydratedIntakeFormSummary = Hydrated<
+  IntakeFormSummary,
+  'DateCreated' | 'DateSubmitted'
+>;
+
+export type HydratedIntakeForm = Omit<
+  Hydrated<IntakeForm, 'DateCreated' | 'DateSubmitted'>,
+  'ConsentForms'
+> & {
+  ConsentForms: Hydrated<IntakeForm['ConsentForms'][number], 'DateSubmitted'>[];
+};
+
 export interface Questionnaire {
   Id: string;
   Name: string;
@@ -121,14 +135,14 @@ export interface ListIntakeFormsRequest {
   client?: string;
   /**
    * Return only intakes that were created after the specified date. Use the
-   * following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a `Date`.
    */
-  startDate?: string;
+  startDate?: string | Date;
   /**
    * Return only intakes that were created before the specified date. Use the
-   * following date format: yyyy-MM-dd (ex.: 2016-08-21)
+   * following date format: yyyy-MM-dd (ex.: 2016-08-21), or pass a `Date`.
    */
-  endDate?: string;
+  endDate?: string | Date;
   /**
    * This method returns a maximum of 100 records. Use the page parameter to
    * implement paging from your end. Use 1 for page 1, 2 for page 2, etc.
@@ -169,3 +183,18 @@ export interface SendQuestionnaireRequestNoClientId
 export type SendQuestionnaireRequest =
   | SendQuestionnaireRequestClientId
   | SendQuestionnaireRequestNoClientId;
+
+/**
+ * The body IntakeQ posts to the intake webhook when a client submits an
+ * intake package or form. Fetch the full form with `getIntakeForm(IntakeId)`.
+ */
+export interface IntakeReceived {
+  /** The ID of the submitted intake */
+  IntakeId: string;
+  /** What happened, e.g. "Intake Submitted" or "Form Submitted" */
+  Type: string;
+  /** The ID of the client who submitted the intake */
+  ClientId: number;
+  /** The external client ID, if one was set when saving the client */
+  ExternalClientId?: string;
+}
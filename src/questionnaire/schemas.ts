@@ -0,0 +1,116 @@
+import { s } from '../common/schema';
+import {
+  IntakeForm,
+  IntakeFormSummary,
+  IntakeReceived,
+  Practitioner,
+  Questionnaire,
+} from './interfaces';
+
+/**
+ * A single schema for every question type. The fields that only some types
+ * have are optional.
+ */
+export const questionSchema = s.object<{
+  Id: string;
+  Text: string;
+  QuestionType: string;
+  OfficeUse: boolean;
+  OfficeNote: string;
+  Answer: string;
+  Rows: unknown;
+  ColumnNames: unknown;
+  Attachments: unknown;
+}>({
+  Id: s.string(),
+  Text: s.string(),
+  QuestionType: s.enum(
+    'OpenQuestion',
+    'MultipleChoice',
+    'Matrix',
+    'Attachment'
+  ),
+  OfficeUse: s.boolean(),
+  OfficeNote: s.string(),
+  Answer: s.optional(s.string()),
+  Rows: s.optional(
+    s.array(
+      s.object<{ Text: string; Answers: string[] }>({
+        Text: s.string(),
+        Answers: s.array(s.string()),
+      })
+    )
+  ),
+  ColumnNames: s.optional(s.array(s.string())),
+  Attachments: s.optional(
+    s.array(
+      s.object<{
+        Id: string;
+        Url: string;
+        ContentType: string;
+        FileName: string;
+      }>({
+        Id: s.string(),
+        Url: s.string(),
+        ContentType: s.string(),
+        FileName: s.string(),
+      })
+    )
+  ),
+});
+
+const intakeFormSummaryFields = {
+  Id: s.string(),
+  ClientName: s.string(),
+  ClientEmail: s.string(),
+  ClientId: s.number(),
+  Status: s.enum('Completed', 'Sent', 'Partial', 'Offline'),
+  DateCreated: s.number(),
+  DateSubmitted: s.nullable(s.number()),
+  QuestionnaireName: s.string(),
+  QuestionnaireId: s.string(),
+  Practitioner: s.string(),
+  PractitionerId: s.string(),
+  ExternalClientId: s.optional(s.string()),
+  AppointmentId: s.optional(s.string()),
+};
+
+export const intakeFormSummarySchema = s.object<IntakeFormSummary>(
+  intakeFormSummaryFields
+);
+
+export const intakeFormSchema = s.object<IntakeForm>({
+  ...intakeFormSummaryFields,
+  Questions: s.array(questionSchema),
+  ConsentForms: s.array(
+    s.object<IntakeForm['ConsentForms'][number]>({
+      Id: s.string(),
+      Name: s.string(),
+      DocumentType: s.enum('Html'),
+      Signed: s.boolean(),
+      DateSubmitted: s.nullable(s.number()),
+    })
+  ),
+});
+
+export const questionnaireSchema = s.object<Questionnaire>({
+  Id: s.string(),
+  Name: s.string(),
+  Archived: s.boolean(),
+  Anonymous: s.boolean(),
+});
+
+export const practitionerSchema = s.object<Practitioner>({
+  Id: s.string(),
+  CompleteName: s.string(),
+  FirstName: s.string(),
+  LastName: s.string(),
+  Email: s.string(),
+});
+
+export const intakeReceivedSchema = s.object<IntakeReceived>({
+  IntakeId: s.string(),
+  Type: s.string(),
+  ClientId: s.number(),
+  ExternalClientId: s.optional(s.string()),
+});
@@ -0,0 +1,410 @@
+import { Appointment, GetSettingsResponse } from '../appointment/interfaces';
+import { ClientWithProfile } from '../client/interfaces';
+import { Invoice } from '../invoice/interfaces';
+import { TreatmentNote } from '../notes/interfaces';
+import {
+  IntakeForm,
+  Practitioner,
+  Questionnaire,
+} from '../questionnaire/interfaces';
+import { FakeSeed } from './interfaces';
+
+export type Location = GetSettingsResponse['Locations'][number];
+export type Service = GetSettingsResponse['Services'][number];
+
+let sequence = 0;
+
+/** A unique, increasing number for generated ids */
+export function nextId(): number {
+  sequence += 1;
+  return sequence;
+}
+
+/** A Unix timestamp in seconds, the way IntakeQ sends them */
+export function toUnix(date: Date | string | number): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+/**
+ * Build a practitioner
+ * @param overrides Fields to set instead of the generated ones
+ */
+export function buildPractitioner(
+  overrides: Partial<Practitioner> = {}
+): Practitioner {
+  const id = nextId();
+  const FirstName = overrides.FirstName ?? 'Pat';
+  const LastName = overrides.LastName ?? `Practitioner${id}`;
+  return {
+    Id: `prac-${id}`,
+    FirstName,
+    LastName,
+    CompleteName: `${FirstName} ${LastName}`,
+    Email: `practitioner${id}@example.com`,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a service offered in appointments settings
+ * @param overrides Fields to set instead of the generated ones
+ */
+export function buildService(overrides: Partial<Service> = {}): Service {
+  const id = nextId();
+  return {
+    Id: `svc-${id}`,
+    Name: `Service ${id}`,
+    Duration: 60,
+    Price: 100,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a location offered in appointments settings
+ * @param overrides Fields to set instead of the generated ones
+ */
+export function buildLocation(overrides: Partial<Location> = {}): Location {
+  const id = nextId();
+  return {
+    Id: String(id),
+    Name: `Location ${id}`,
+    Address: `${id} Main Street`,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a questionnaire template
+ * @param overrides Fields to set instead of the generated ones
+ */
+export function buildQuestionnaire(
+  overrides: Partial<Questionnaire> = {}
+): Questionnaire {
+  const id = nextId();
+  return {
+    Id: `quest-${id}`,
+    Name: `Questionnaire ${id}`,
+    Archived: false,
+    Anonymous: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a client with its full profile
+ * @param overrides Fields to set instead of the generated ones
+ */
+export function buildClient(
+  overrides: Partial<ClientWithProfile> = {}
+): ClientWithProfile {
+  const id = nextId();
+  const FirstName = overrides.FirstName ?? 'Client';
+  const LastName = overrides.LastName ?? `Number${id}`;
+  const now = toUnix(Date.now());
+  return {
+    ClientId: id,
+    Name: `${FirstName} ${LastName}`,
+    Email: `client${id}@example.com`,
+    Phone: '555-010-0000',
+    FirstName,
+    LastName,
+    MiddleName: '',
+    DateOfBirth: 0,
+    MaritalStatus: '',
+    Gender: '',
+    Tags: [],
+    Archived: false,
+    HomePhone: '',
+    WorkPhone: '',
+    MobilePhone: '555-010-0000',
+    Address: '',
+    UnitNumber: '',
+    StreetAddress: '',
+    City: '',
+    StateShort: '',
+    Country: '',
+    PostalCode: '',
+    AdditionalInformation: '',
+    PrimaryInsuranceCompany: '',
+    PrimaryInsurancePolicyNumber: '',
+    PrimaryInsuranceGroupNumber: '',
+    PrimaryInsuranceHolderName: '',
+    PrimaryInsuranceRelationship: '',
+    PrimaryInsuranceHolderDateOfBirth: 0,
+    SecondaryInsuranceCompany: '',
+    SecondaryInsurancePolicyNumber: '',
+    SecondaryInsuranceGroupNumber: '',
+    SecondaryInsuranceHolderName: '',
+    SecondaryInsuranceRelationship: '',
+    SecondaryInsuranceHolderDateOfBirth: 0,
+    DateCreated: now,
+    LastActivityDate: now,
+    CustomFields: [],
+    PractitionerId: '',
+    Guid: `guid-${id}`,
+    StripeCustomerId: null,
+    SquareCustomerId: null,
+    ...overrides,
+  };
+}
+
+export interface AppointmentParties {
+  client?: ClientWithProfile;
+  practitioner?: Practitioner;
+  service?: Service;
+  location?: Location;
+}
+
+/**
+ * The date fields of an appointment starting at `startDate`
+ * @param startDate When the appointment starts in Unix timestamp
+ * @param duration The duration in minutes
+ */
+export function appointmentDates(
+  startDate: number,
+  duration: number
+): Pick<
+  Appointment,
+  | 'StartDate'
+  | 'EndDate'
+  | 'Duration'
+  | 'StartDateIso'
+  | 'EndDateIso'
+  | 'StartDateLocal'
+  | 'EndDateLocal'
+  | 'StartDateLocalFormatted'
+> {
+  const EndDate = startDate + duration * 60;
+  const start = new Date(startDate * 1000);
+  const end = new Date(EndDate * 1000);
+  return {
+    StartDate: startDate,
+    EndDate,
+    Duration: duration,
+    StartDateIso: start.toISOString(),
+    EndDateIso: end.toISOString(),
+    StartDateLocal: start.toISOString().replace('Z', ''),
+    EndDateLocal: end.toISOString().replace('Z', ''),
+    StartDateLocalFormatted: start.toUTCString(),
+  };
+}
+
+/**
+ * Build an appointment. The client, practitioner, service and location fields
+ * are copied from `parties` when given, and the end date follows from the
+ * start date and the duration.
+ * @param overrides Fields to set instead of the generated ones
+ * @param parties The records the appointment belongs to
+ */
+export function buildAppointment(
+  overrides: Partial<Appointment> = {},
+  parties: AppointmentParties = {}
+): Appointment {
+  const id = nextId();
+  const { client, practitioner, service, location } = parties;
+  return {
+    Id: `appt-${id}`,
+    ClientName: client?.Name ?? 'Client Name',
+    ClientEmail: client?.Email ?? 'client@example.com',
+    ClientPhone: client?.Phone ?? '',
+    ClientId: client?.ClientId ?? 0,
+    Status: 'Confirmed',
+    ...appointmentDates(
+      overrides.StartDate ?? toUnix(Date.now() + 24 * 60 * 60 * 1000),
+      overrides.Duration ?? service?.Duration ?? 60
+    ),
+    ServiceName: service?.Name ?? 'Service',
+    ServiceId: service?.Id ?? '',
+    LocationName: location?.Name ?? 'Location',
+    LocationId: location ? Number(location.Id) : 0,
+    Price: service?.Price ?? 0,
+    PractitionerEmail: practitioner?.Email ?? 'practitioner@example.com',
+    PractitionerName: practitioner?.CompleteName ?? 'Practitioner',
+    PractitionerId: practitioner?.Id ?? '',
+    DateCreated: toUnix(Date.now()),
+    IntakeId: '',
+    BookedByClient: false,
+    CreatedBy: 'Fake',
+    AppointmentPackageId: '',
+    AppointmentPackageName: '',
+    TelehealthInfo: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Build an invoice with a single item
+ * @param overrides Fields to set instead of the generated ones
+ * @param client The client the invoice is for
+ */
+export function buildInvoice(
+  overrides: Partial<Invoice> = {},
+  client?: ClientWithProfile
+): Invoice {
+  const id = nextId();
+  const now = toUnix(Date.now());
+  const total = overrides.TotalAmount ?? 100;
+  return {
+    Id: `inv-${id}`,
+    Number: id,
+    ClientName: client?.Name ?? 'Client Name',
+    ClientEmail: client?.Email ?? 'client@example.com',
+    ClientId: String(client?.ClientId ?? 0),
+    ClientIdNumber: client?.ClientId ?? 0,
+    Status: 'Unpaid',
+    IssuedDate: now,
+    DueDate: now + 30 * 24 * 60 * 60,
+    DateCreated: now,
+    CurrencyIso: 'USD',
+    DiscountAmount: 0,
+    DiscountPercent: 0,
+    DiscountType: 'Amount',
+    SubTotal: total,
+    TotalAmount: total,
+    AmountDue: total,
+    AmountPaid: 0,
+    NoteToClient: '',
+    AllowTipping: false,
+    TipAmount: 0,
+    Automated: false,
+    CreatedBy: 'Fake',
+    AdditionalEmailRecipients: [],
+    Payments: [],
+    Items: [
+      {
+        AppointmentId: '',
+        ProductId: '',
+        Description: 'Session',
+        TotalTaxAmount: 0,
+        Units: 1,
+        Price: total,
+        Date: now,
+        Taxes: [],
+        TaxesIncludedInPrice: false,
+        IsCopay: false,
+        TotalAmount: total,
+        ServiceCode: 0,
+        SubItems: [],
+      },
+    ],
+    DiagnosisList: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Build a treatment note
+ * @param overrides Fields to set instead of the generated ones
+ * @param client The client the note is about
+ * @param practitioner The practitioner who wrote the note
+ */
+export function buildTreatmentNote(
+  overrides: Partial<TreatmentNote> = {},
+  client?: ClientWithProfile,
+  practitioner?: Practitioner
+): TreatmentNote {
+  const id = nextId();
+  return {
+    Id: `note-${id}`,
+    ClientName: client?.Name ?? 'Client Name',
+    ClientEmail: client?.Email ?? 'client@example.com',
+    ClientId: client?.ClientId ?? 0,
+    Status: 'locked',
+    Date: toUnix(Date.now()),
+    NoteName: 'Progress Note',
+    PractitionerEmail: practitioner?.Email ?? 'practitioner@example.com',
+    PractitionerName: practitioner?.CompleteName ?? 'Practitioner',
+    PractitionerId: 0,
+    Questions: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Build a submitted intake form
+ * @param overrides Fields to set instead of the generated ones
+ * @param client The client who filled out the form
+ * @param questionnaire The template the form was created from
+ */
+export function buildIntakeForm(
+  overrides: Partial<IntakeForm> = {},
+  client?: ClientWithProfile,
+  questionnaire?: Questionnaire
+): IntakeForm {
+  const id = nextId();
+  const now = toUnix(Date.now());
+  return {
+    Id: `intake-${id}`,
+    ClientName: client?.Name ?? 'Client Name',
+    ClientEmail: client?.Email ?? 'client@example.com',
+    ClientId: client?.ClientId ?? 0,
+    Status: 'Completed',
+    DateCreated: now,
+    DateSubmitted: now,
+    QuestionnaireName: questionnaire?.Name ?? 'Intake',
+    QuestionnaireId: questionnaire?.Id ?? '',
+    Practitioner: 'practitioner@example.com',
+    PractitionerId: '',
+    Questions: [],
+    ConsentForms: [],
+    ...overrides,
+  };
+}
+
+/**
+ * A small practice to seed an `IntakeQFake` with: one location, service,
+ * practitioner and questionnaire, two clients, and an appointment tomorrow for
+ * the first client. Enough for `VoiceAssistantApi` and `BlandWebhookServer`
+ * to find clients, book, list and cancel appointments and send intake forms.
+ */
+export function buildPracticeSeed(): Required<
+  Pick<
+    FakeSeed,
+    | 'locations'
+    | 'services'
+    | 'practitioners'
+    | 'questionnaires'
+    | 'clients'
+    | 'appointments'
+  >
+> {
+  const location = buildLocation({ Name: 'Main Office' });
+  const service = buildService({ Name: 'Initial Consultation' });
+  const practitioner = buildPractitioner({
+    FirstName: 'Sam',
+    LastName: 'Carter',
+    Email: 'sam.carter@example.com',
+  });
+  const questionnaire = buildQuestionnaire({ Name: 'New Client Intake' });
+  const jane = buildClient({
+    FirstName: 'Jane',
+    LastName: 'Doe',
+    Email: 'jane.doe@example.com',
+    Phone: '5550100001',
+  });
+  const john = buildClient({
+    FirstName: 'John',
+    LastName: 'Smith',
+    Email: 'john.smith@example.com',
+    Phone: '5550100002',
+  });
+
+  const tomorrow = new Date();
+  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+  tomorrow.setUTCHours(15, 0, 0, 0);
+
+  return {
+    locations: [location],
+    services: [service],
+    practitioners: [practitioner],
+    questionnaires: [questionnaire],
+    clients: [jane, john],
+    appointments: [
+      buildAppointment(
+        { StartDate: toUnix(tomorrow) },
+        { client: jane, practitioner, service, location }
+      ),
+    ],
+  };
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { REDACTED } from '../common/redaction';
+import { IntakeQApi } from '../index';
+import { RecordingTransport, ReplayTransport } from './cassette';
+import { IntakeQFake } from './fake';
+import { buildPracticeSeed } from './builders';
+
+describe('cassettes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intakeq-cassette-'));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('replays recorded requests with the API key and PHI scrubbed', async () => {
+    const seed = buildPracticeSeed();
+    const recorder = new RecordingTransport(new IntakeQFake({ seed }));
+    const recorded = new IntakeQApi('secret-key', { transport: recorder });
+    const clients = await recorded.Client.listClients({ search: 'Jane' });
+    const appointments = await recorded.Appointment.list({ client: 'Jane' });
+    const file = path.join(dir, 'fixtures', 'jane.json');
+    await recorder.save(file);
+
+    const text = await fs.readFile(file, 'utf8');
+    expect(text).not.toContain('secret-key');
+    expect(text).not.toContain('Jane');
+    expect(text).not.toContain('jane.doe@example.com');
+
+    const replayer = await ReplayTransport.load(file);
+    const replayed = new IntakeQApi('other-key', { transport: replayer });
+    const replayedClients = await replayed.Client.listClients({
+      search: 'Someone else',
+    });
+    const replayedAppointments = await replayed.Appointment.list({
+      client: 'Someone else',
+    });
+
+    expect(replayedClients.map(({ ClientId }) => ClientId)).toEqual(
+      clients.map(({ ClientId }) => ClientId)
+    );
+    expect(replayedClients[0].Name).toBe(REDACTED);
+    expect(replayedAppointments[0].Id).toBe(appointments[0].Id);
+    expect(replayedAppointments[0].ClientName).toBe(REDACTED);
+    expect(replayer.unused()).toEqual([]);
+  });
+
+  it('throws for a request that was not recorded', async () => {
+    const replayer = new ReplayTransport({
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      interactions: [],
+    });
+    const api = new IntakeQApi('test', { transport: replayer, retry: false });
+
+    await expect(api.Client.listClients({})).rejects.toThrow(
+      'No recorded interaction for GET clients'
+    );
+  });
+
+  it('fails on repeats when allowRepeats is false', async () => {
+    const recorder = new RecordingTransport(
+      new IntakeQFake({ seed: buildPracticeSeed() })
+    );
+    await new IntakeQApi('test', { transport: recorder }).Client.listClients(
+      {}
+    );
+    const replayer = new ReplayTransport(recorder.toCassette(), {
+      allowRepeats: false,
+    });
+    const api = new IntakeQApi('test', { transport: replayer, retry: false });
+
+    await api.Client.listClients({});
+    await expect(api.Client.listClients({})).rejects.toThrow(
+      'No recorded interaction'
+    );
+  });
+
+  it('records binary bodies as a placeholder unless recordBinary is set', async () => {
+    const pdf = Buffer.from('%PDF-1.4 client notes');
+    const inner = {
+      send: async () => ({
+        status: 200,
+        headers: { 'content-type': 'application/pdf' },
+        data: pdf,
+      }),
+    };
+    const request = {
+      method: 'GET' as const,
+      url: 'https://intakeq.com/api/v1/notes/note-1/pdf',
+      headers: {},
+    };
+    const scrubbed = new RecordingTransport(inner);
+    const kept = new RecordingTransport(inner, { recordBinary: true });
+    await scrubbed.send(request);
+    await kept.send(request);
+
+    const replayScrubbed = new ReplayTransport(scrubbed.toCassette());
+    const replayKept = new ReplayTransport(kept.toCassette());
+
+    expect((await replayScrubbed.send(request)).data).toEqual(
+      Buffer.from(REDACTED)
+    );
+    expect((await replayKept.send(request)).data).toEqual(pdf);
+  });
+});
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { redactPhi, REDACTED } from '../common/redaction';
+import { AxiosTransport } from '../http/axios-transport';
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from '../http/interfaces';
+import {
+  Cassette,
+  CassetteInteraction,
+  RecordingOptions,
+  ReplayOptions,
+} from './interfaces';
+
+/** Headers that carry credentials and are never written to a cassette */
+const SECRET_HEADERS = ['x-auth-key', 'authorization', 'cookie', 'set-cookie'];
+
+/** Query parameters that hold client names or emails */
+const PHI_QUERY_PARAMS = ['search', 'client'];
+
+function scrubHeaders(headers: Record<string, unknown> = {}) {
+  const scrubbed: Record<string, string> = {};
+  Object.keys(headers).forEach((name) => {
+    const key = name.toLowerCase();
+    scrubbed[key] = SECRET_HEADERS.includes(key)
+      ? REDACTED
+      : String(headers[name]);
+  });
+  return scrubbed;
+}
+
+/**
+ * The route and scrubbed query string of a request URL. Replayed requests
+ * are scrubbed the same way, so they match the recorded ones.
+ */
+function routeOf(url: string): { path: string; query: string } {
+  const { pathname, searchParams } = new URL(url);
+  searchParams.forEach((value, key) => {
+    if (PHI_QUERY_PARAMS.includes(key) || key.startsWith('custom[')) {
+      searchParams.set(key, REDACTED);
+    }
+  });
+  return {
+    // Accept both the IntakeQ base URL and a bare local one
+    path: pathname.replace(/^.*?\/api\/v1/, '').replace(/^\/+|\/+$/g, ''),
+    query: searchParams.toString(),
+  };
+}
+
+/**
+ * A response body with its PHI scrubbed. Binary bodies are stored in base64,
+ * and replaced by a placeholder unless `recordBinary` is set.
+ */
+function encodeData(
+  data: unknown,
+  options: RecordingOptions
+): Pick<CassetteInteraction['response'], 'data' | 'encoding'> {
+  if (!(data instanceof ArrayBuffer) && !Buffer.isBuffer(data)) {
+    return { data: redactPhi(data, { allowFields: options.allowFields }) };
+  }
+  const body = options.recordBinary ? Buffer.from(data) : Buffer.from(REDACTED);
+  return { data: body.toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * A transport that sends requests through another transport and records
+ * every request/response pair, with the API key and PHI scrubbed, so they can
+ * be saved as a cassette and replayed with `ReplayTransport`. Binary bodies,
+ * such as PDFs, are recorded as a placeholder unless `recordBinary` is set.
+ *
+ * ```ts
+ * const recorder = new RecordingTransport();
+ * const api = new IntakeQApi({ apiKey, transport: recorder });
+ * // ... exercise the API
+ * await recorder.save('fixtures/find-client.json');
+ * ```
+ */
+export class RecordingTransport implements Transport {
+  readonly interactions: CassetteInteraction[] = [];
+
+  /**
+   * @param inner The transport that sends the requests. Defaults to axios.
+   * @param options How PHI is scrubbed
+   */
+  constructor(
+    private inner: Transport = new AxiosTransport(),
+    private options: RecordingOptions = {}
+  ) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.inner.send(request);
+    const { allowFields, scrub = (interaction) => interaction } = this.options;
+
+    this.interactions.push(
+      scrub({
+        request: {
+          method: request.method,
+          ...routeOf(request.url),
+          headers: scrubHeaders(request.headers),
+          body: redactPhi(request.body, { allowFields }),
+        },
+        response: {
+          status: response.status,
+          headers: scrubHeaders(response.headers),
+          ...encodeData(response.data, this.options),
+        },
+      })
+    );
+    return response;
+  }
+
+  /** The recorded interactions as a cassette */
+  toCassette(): Cassette {
+    return {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+  }
+
+  /**
+   * Write the recorded interactions to a JSON cassette
+   * @param file Where to write the cassette. Missing directories are created.
+   */
+  async save(file: string): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(
+      file,
+      JSON.stringify(this.toCassette(), null, 2) + '\n',
+      'utf8'
+    );
+  }
+}
+
+/**
+ * A transport that answers requests from a cassette instead of the network.
+ * A request is matched on its method, route and query string, and matching
+ * interactions are served in the order they were recorded.
+ */
+export class ReplayTransport implements Transport {
+  private used = new Set<CassetteInteraction>();
+
+  /**
+   * @param cassette The recorded interactions
+   * @param options How repeat requests are served
+   */
+  constructor(
+    private cassette: Cassette,
+    private options: ReplayOptions = {}
+  ) {}
+
+  /**
+   * Load a JSON cassette written by `RecordingTransport.save()`
+   * @param file The cassette to load
+   * @param options How repeat requests are served
+   */
+  static async load(
+    file: string,
+    options?: ReplayOptions
+  ): Promise<ReplayTransport> {
+    const cassette: Cassette = JSON.parse(await fs.readFile(file, 'utf8'));
+    return new ReplayTransport(cassette, options);
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const { path: route, query } = routeOf(request.url);
+    const matches = this.cassette.interactions.filter(
+      ({ request: recorded }) =>
+        recorded.method === request.method &&
+        recorded.path === route &&
+        recorded.query === query
+    );
+    const interaction =
+      matches.find((match) => !this.used.has(match)) ??
+      (this.options.allowRepeats === false
+        ? undefined
+        : matches[matches.length - 1]);
+
+    if (!interaction) {
+      throw new Error(
+        `No recorded interaction for ${request.method} ${route}${
+          query ? '?' + query : ''
+        }`
+      );
+    }
+    this.used.add(interaction);
+
+    const { status, headers, data, encoding } = interaction.response;
+    return {
+      status,
+      headers: { ...headers },
+      data:
+        encoding === 'base64'
+          ? Buffer.from(data as string, 'base64')
+          : data === undefined
+          ? undefined
+          : JSON.parse(JSON.stringify(data)),
+    };
+  }
+
+  /** The recorded interactions that have not been served yet */
+  unused(): CassetteInteraction[] {
+    return this.cassette.interactions.filter((i) => !this.used.has(i));
+  }
+}
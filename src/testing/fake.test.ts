@@ -0,0 +1,62 @@
+import { IntakeQApi } from '../index';
+import {
+  buildAppointment,
+  buildClient,
+  buildPracticeSeed,
+  toUnix,
+} from './builders';
+import { IntakeQFake } from './fake';
+
+describe('IntakeQFake', () => {
+  it('lists appointments newest first', async () => {
+    const seed = buildPracticeSeed();
+    const earlier = buildAppointment({ StartDate: toUnix('2024-01-01') });
+    const later = buildAppointment({ StartDate: toUnix('2024-02-01') });
+    const fake = new IntakeQFake({ seed }).seed({
+      appointments: [earlier, later],
+    });
+    const api = new IntakeQApi('test', { transport: fake });
+
+    const appointments = await api.Appointment.list({});
+
+    expect(appointments.map(({ Id }) => Id)).toEqual([
+      seed.appointments[0].Id,
+      later.Id,
+      earlier.Id,
+    ]);
+  });
+
+  it('rejects requests with the wrong API key', async () => {
+    const fake = new IntakeQFake({ apiKey: 'secret' });
+    const api = new IntakeQApi('wrong', { transport: fake });
+
+    await expect(api.Client.listClients({})).rejects.toMatchObject({
+      status: 401,
+    });
+  });
+
+  it('saves, tags and searches clients', async () => {
+    const fake = new IntakeQFake();
+    const api = new IntakeQApi('test', { transport: fake });
+
+    const saved = await api.Client.save({ FirstName: 'Ada', LastName: 'King' });
+    await api.Client.addTag(saved.ClientId, 'vip');
+    const found = await api.Client.listClients({ search: 'ada' }, true);
+
+    expect(found.map(({ Name, Tags }) => ({ Name, Tags }))).toEqual([
+      { Name: 'Ada King', Tags: ['vip'] },
+    ]);
+    expect(
+      fake.requests.map(({ method, path }) => `${method} ${path}`)
+    ).toEqual(['POST clients', 'POST clientTags', 'GET clients']);
+  });
+
+  it('keeps its own copy of the seed', async () => {
+    const client = buildClient({ Name: 'Jane Doe' });
+    const fake = new IntakeQFake({ seed: { clients: [client] } });
+
+    client.Name = 'Changed';
+
+    expect(fake.clients[0].Name).toBe('Jane Doe');
+  });
+});
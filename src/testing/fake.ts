@@ -0,0 +1,648 @@
+import http from 'http';
+import {
+  Appointment,
+  AppointmentStatus,
+  CreateAppointmentRequest,
+  GetSettingsResponse,
+  UpdateAppointmentRequest,
+} from '../appointment/interfaces';
+import { ClientWithProfile } from '../client/interfaces';
+import { PAGE_SIZE } from '../common/pagination';
+import {
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from '../http/interfaces';
+import { Invoice } from '../invoice/interfaces';
+import { TreatmentNote } from '../notes/interfaces';
+import {
+  IntakeForm,
+  Practitioner,
+  Questionnaire,
+  SendQuestionnaireRequest,
+} from '../questionnaire/interfaces';
+import {
+  appointmentDates,
+  buildAppointment,
+  buildClient,
+  buildIntakeForm,
+  toUnix,
+} from './builders';
+import {
+  FakeRequest,
+  FakeSeed,
+  FakeServer,
+  IntakeQFakeOptions,
+} from './interfaces';
+
+const STATUSES: AppointmentStatus[] = [
+  'Confirmed',
+  'WaitingConfirmation',
+  'Declined',
+  'Canceled',
+  'Missed',
+];
+
+/** Appointments in these statuses can no longer be changed */
+const CLOSED_STATUSES: AppointmentStatus[] = ['Canceled', 'Declined'];
+
+const PDF = '%PDF-1.4\n% IntakeQFake\n';
+
+type Query = Record<string, string>;
+
+class FakeError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function contains(haystack: string, needle: string): boolean {
+  return (haystack ?? '').toLowerCase().includes(needle.toLowerCase());
+}
+
+/**
+ * Whether a Unix timestamp falls between `yyyy-MM-dd` dates, both inclusive
+ */
+function inRange(timestamp: number, start?: string, end?: string): boolean {
+  if (start && timestamp < toUnix(`${start}T00:00:00Z`)) return false;
+  if (end && timestamp >= toUnix(`${end}T00:00:00Z`) + 24 * 60 * 60) {
+    return false;
+  }
+  return true;
+}
+
+function omit<T, K extends keyof T>(value: T, keys: K[]): Omit<T, K> {
+  const copy = { ...value };
+  keys.forEach((key) => delete copy[key]);
+  return copy;
+}
+
+/**
+ * An in-memory IntakeQ backend for tests. It serves every route the SDK uses
+ * with IntakeQ's paging and status rules, either in-process as the
+ * `transport` of an `IntakeQApi` or over HTTP with `listen()`.
+ *
+ * ```ts
+ * const fake = new IntakeQFake({ seed: buildPracticeSeed() });
+ * const api = new IntakeQApi({ apiKey: 'test', transport: fake });
+ * ```
+ */
+export class IntakeQFake implements Transport {
+  clients: ClientWithProfile[] = [];
+
+  appointments: Appointment[] = [];
+
+  invoices: Invoice[] = [];
+
+  notes: TreatmentNote[] = [];
+
+  intakes: IntakeForm[] = [];
+
+  questionnaires: Questionnaire[] = [];
+
+  practitioners: Practitioner[] = [];
+
+  locations: GetSettingsResponse['Locations'] = [];
+
+  services: GetSettingsResponse['Services'] = [];
+
+  /** Every request received, oldest first */
+  requests: FakeRequest[] = [];
+
+  constructor(private options: IntakeQFakeOptions = {}) {
+    if (options.seed) this.seed(options.seed);
+  }
+
+  /**
+   * Add records. They are copied, so later changes to them are not seen.
+   * @param data The records to add
+   */
+  seed(data: FakeSeed): this {
+    (Object.keys(data) as (keyof FakeSeed)[]).forEach((key) => {
+      (this[key] as unknown[]).push(...clone(data[key] ?? []));
+    });
+    return this;
+  }
+
+  /** Remove every record and recorded request */
+  reset(): this {
+    this.clients = [];
+    this.appointments = [];
+    this.invoices = [];
+    this.notes = [];
+    this.intakes = [];
+    this.questionnaires = [];
+    this.practitioners = [];
+    this.locations = [];
+    this.services = [];
+    this.requests = [];
+    return this;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const url = new URL(request.url);
+    const query: Query = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+    const body =
+      typeof request.body === 'string' && request.body
+        ? JSON.parse(request.body)
+        : request.body;
+    return this.handle(
+      request.method,
+      url.pathname,
+      query,
+      request.headers,
+      body
+    );
+  }
+
+  /**
+   * Serve the fake over HTTP on localhost
+   * @param port The port to listen on. Defaults to a free one
+   */
+  listen(port = 0): Promise<FakeServer> {
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        const headers: Record<string, string> = {};
+        Object.keys(req.headers).forEach((name) => {
+          headers[name] = String(req.headers[name]);
+        });
+        this.send({
+          method: req.method as HttpMethod,
+          url: `http://localhost${req.url}`,
+          headers,
+          body: text || undefined,
+        })
+          .then((response) => {
+            res.writeHead(response.status, response.headers);
+            res.end(
+              typeof response.data === 'string'
+                ? response.data
+                : JSON.stringify(response.data ?? '')
+            );
+          })
+          .catch((error) => {
+            res.writeHead(500, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({ Message: String(error?.message) }));
+          });
+      });
+    });
+
+    return new Promise((resolve) => {
+      server.listen(port, '127.0.0.1', () => {
+        const address = server.address() as { port: number };
+        resolve({
+          url: `http://127.0.0.1:${address.port}`,
+          port: address.port,
+          close: () => new Promise<void>((done) => server.close(() => done())),
+        });
+      });
+    });
+  }
+
+  private handle(
+    method: HttpMethod,
+    pathname: string,
+    query: Query,
+    headers: Record<string, string>,
+    body: any
+  ): TransportResponse {
+    // Accept both the IntakeQ base URL and a bare local one
+    const path = pathname
+      .replace(/^.*?\/api\/v1/, '')
+      .replace(/^\/+|\/+$/g, '');
+    this.requests.push({ method, path, query, body: clone(body) });
+
+    try {
+      this.authenticate(headers);
+      const data = this.route(method, path, query, body);
+      if (typeof data === 'string') {
+        return {
+          status: 200,
+          headers: { 'content-type': 'application/pdf' },
+          data,
+        };
+      }
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8' },
+        data: clone(data),
+      };
+    } catch (error) {
+      if (!(error instanceof FakeError)) throw error;
+      return {
+        status: error.status,
+        headers: { 'content-type': 'application/json; charset=utf-8' },
+        data: { Message: error.message },
+      };
+    }
+  }
+
+  private authenticate(headers: Record<string, string>) {
+    const name = Object.keys(headers).find(
+      (header) => header.toLowerCase() === 'x-auth-key'
+    );
+    const key = name ? headers[name] : undefined;
+    if (!key || (this.options.apiKey && key !== this.options.apiKey)) {
+      throw new FakeError(401, 'Authorization has been denied');
+    }
+  }
+
+  private route(
+    method: HttpMethod,
+    path: string,
+    query: Query,
+    body: any
+  ): unknown {
+    const [resource, id, action] = path.split('/');
+    const route = `${method} ${resource}${
+      id ? '/' + (action ? ':id/' + action : id) : ''
+    }`;
+
+    switch (route) {
+      case 'GET clients':
+        return this.listClients(query);
+      case 'POST clients':
+        return this.saveClient(body);
+      case 'POST clientTags':
+        return this.addTag(body);
+      case 'DELETE clientTags':
+        return this.removeTag(query);
+      case 'GET appointments':
+        return this.listAppointments(query);
+      case 'GET appointments/settings':
+        return {
+          Locations: this.locations,
+          Services: this.services,
+          Practitioners: this.practitioners,
+        };
+      case 'POST appointments':
+        return this.createAppointment(body);
+      case 'PUT appointments':
+        return this.updateAppointment(body);
+      case 'POST appointments/cancellation':
+        return this.cancelAppointment(body);
+      case 'GET invoices':
+        return this.listInvoices(query);
+      case 'GET notes/summary':
+        return this.page(
+          this.notes
+            .filter(
+              (note) =>
+                (!query.client ||
+                  contains(note.ClientName, query.client) ||
+                  contains(note.ClientEmail, query.client)) &&
+                (!query.clientId || note.ClientId === Number(query.clientId)) &&
+                (!query.status || note.Status === query.status) &&
+                inRange(note.Date, query.startDate, query.endDate)
+            )
+            .map((note) => omit(note, ['Questions'])),
+          query
+        );
+      case 'GET intakes/summary':
+        return this.listIntakes(query);
+      case 'POST intakes/send':
+        return this.sendQuestionnaire(body);
+      case 'GET questionnaires':
+        return this.questionnaires;
+      case 'GET practitioners':
+        return this.practitioners;
+      case 'GET notes/:id/pdf':
+        this.find(this.notes, id, 'Treatment note');
+        return PDF;
+      case 'GET intakes/:id/pdf':
+        this.find(this.intakes, id, 'Intake');
+        return PDF;
+    }
+
+    if (method === 'GET' && id && !action) {
+      switch (resource) {
+        case 'appointments':
+          return this.find(this.appointments, id, 'Appointment');
+        case 'invoices':
+          return this.find(this.invoices, id, 'Invoice');
+        case 'notes':
+          return this.find(this.notes, id, 'Treatment note');
+        case 'intakes':
+          return this.find(this.intakes, id, 'Intake');
+      }
+    }
+
+    throw new FakeError(404, `No route for ${method} /${path}`);
+  }
+
+  /** One page of records, using the 1-based `page` parameter */
+  private page<T>(records: T[], query: Query): T[] {
+    const page = Math.max(Number(query.page) || 1, 1);
+    return records.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  }
+
+  private find<T extends { Id: string }>(
+    records: T[],
+    id: string,
+    label: string
+  ): T {
+    const record = records.find((r) => r.Id === id);
+    if (!record) throw new FakeError(404, `${label} ${id} was not found`);
+    return record;
+  }
+
+  private findClient(clientId: number, status = 404): ClientWithProfile {
+    const client = this.clients.find((c) => c.ClientId === Number(clientId));
+    if (!client) {
+      throw new FakeError(status, `Client ${clientId} was not found`);
+    }
+    return client;
+  }
+
+  private listClients(query: Query) {
+    const custom = Object.keys(query)
+      .map((key) => /^custom\[(.+)\]$/.exec(key))
+      .filter(Boolean)
+      .map((match) => ({ fieldId: match[1], value: query[match[0]] }));
+
+    const matches = this.clients.filter(
+      (client) =>
+        (!query.search ||
+          contains(client.Name, query.search) ||
+          contains(client.Email, query.search) ||
+          contains(client.Phone, query.search) ||
+          contains(String(client.ClientId), query.search)) &&
+        inRange(
+          client.DateCreated,
+          query.dateCreatedStart,
+          query.dateCreatedEnd
+        ) &&
+        custom.every(({ fieldId, value }) =>
+          client.CustomFields.some(
+            (field) => field.FieldId === fieldId && field.Value === value
+          )
+        )
+    );
+
+    const page = this.page(matches, query);
+    if (query.includeProfile === 'true') return page;
+    return page.map(({ ClientId, Name, Email, Phone }) => ({
+      ClientNumber: ClientId,
+      Name,
+      Email,
+      Phone,
+    }));
+  }
+
+  private saveClient(body: Partial<ClientWithProfile>): ClientWithProfile {
+    const fullName = (client: Partial<ClientWithProfile>) =>
+      [client.FirstName, client.LastName].filter(Boolean).join(' ');
+
+    if (body.ClientId) {
+      const client = this.findClient(body.ClientId);
+      Object.assign(client, body, {
+        Name: body.Name ?? (fullName(body) || client.Name),
+        LastActivityDate: toUnix(Date.now()),
+      });
+      return client;
+    }
+
+    if (!body.Name && !fullName(body)) {
+      throw new FakeError(400, 'The client name is required');
+    }
+    const client = buildClient({
+      ...body,
+      Name: body.Name || fullName(body),
+      Email: body.Email ?? '',
+      Tags: body.Tags ?? [],
+      CustomFields: body.CustomFields ?? [],
+    });
+    this.clients.push(client);
+    return client;
+  }
+
+  private addTag(body: { ClientId: number; Tag: string }) {
+    if (!body?.Tag) throw new FakeError(400, 'The tag is required');
+    const client = this.findClient(body.ClientId);
+    if (!client.Tags.includes(body.Tag)) client.Tags.push(body.Tag);
+    return { ClientId: client.ClientId, Tag: body.Tag };
+  }
+
+  private removeTag(query: Query) {
+    const client = this.findClient(Number(query.clientId));
+    client.Tags = client.Tags.filter((tag) => tag !== query.tag);
+    return '';
+  }
+
+  private listAppointments(query: Query) {
+    const matches = this.appointments
+      .filter(
+        (appointment) =>
+          (!query.client ||
+            contains(appointment.ClientName, query.client) ||
+            contains(appointment.ClientEmail, query.client)) &&
+          (!query.status || appointment.Status === query.status) &&
+          (!query.practitionerEmail ||
+            appointment.PractitionerEmail.toLowerCase() ===
+              query.practitionerEmail.toLowerCase()) &&
+          inRange(appointment.StartDate, query.startDate, query.endDate)
+      )
+      .sort((a, b) => b.StartDate - a.StartDate);
+    return this.page(matches, query);
+  }
+
+  private settingsFor(body: Partial<CreateAppointmentRequest>) {
+    const practitioner =
+      body.PractitionerId === undefined
+        ? undefined
+        : this.practitioners.find((p) => p.Id === body.PractitionerId);
+    if (body.PractitionerId !== undefined && !practitioner) {
+      throw new FakeError(400, `Practitioner ${body.PractitionerId} not found`);
+    }
+    const service =
+      body.ServiceId === undefined
+        ? undefined
+        : this.services.find((s) => s.Id === body.ServiceId);
+    if (body.ServiceId !== undefined && !service) {
+      throw new FakeError(400, `Service ${body.ServiceId} not found`);
+    }
+    const location =
+      body.LocationId === undefined
+        ? undefined
+        : this.locations.find((l) => Number(l.Id) === Number(body.LocationId));
+    if (body.LocationId !== undefined && !location) {
+      throw new FakeError(400, `Location ${body.LocationId} not found`);
+    }
+    if (body.Status !== undefined && !STATUSES.includes(body.Status)) {
+      throw new FakeError(400, `Invalid status ${body.Status}`);
+    }
+    return { practitioner, service, location };
+  }
+
+  private createAppointment(body: CreateAppointmentRequest): Appointment {
+    const missing = ([
+      'ClientId',
+      'PractitionerId',
+      'ServiceId',
+      'LocationId',
+      'UtcDateTime',
+    ] as const).filter(
+      (field) => body?.[field] === undefined || body[field] === null
+    );
+    if (missing.length) {
+      throw new FakeError(
+        400,
+        `Missing required fields: ${missing.join(', ')}`
+      );
+    }
+    if (CLOSED_STATUSES.includes(body.Status)) {
+      throw new FakeError(400, `Cannot create a ${body.Status} appointment`);
+    }
+
+    const client = this.findClient(body.ClientId, 400);
+    const appointment = buildAppointment(
+      {
+        StartDate: body.UtcDateTime,
+        Status: body.Status ?? 'Confirmed',
+      },
+      { client, ...this.settingsFor(body) }
+    );
+    this.appointments.push(appointment);
+    return appointment;
+  }
+
+  private updateAppointment(body: UpdateAppointmentRequest): Appointment {
+    if (!body?.Id) throw new FakeError(400, 'The appointment Id is required');
+    const existing = this.find(this.appointments, body.Id, 'Appointment');
+    if (CLOSED_STATUSES.includes(existing.Status)) {
+      throw new FakeError(
+        400,
+        `Appointment ${body.Id} is ${existing.Status} and cannot be updated`
+      );
+    }
+
+    const { service, location } = this.settingsFor(body);
+    Object.assign(existing, {
+      ...appointmentDates(
+        body.UtcDateTime ?? existing.StartDate,
+        service?.Duration ?? existing.Duration
+      ),
+      ...(service && {
+        ServiceId: service.Id,
+        ServiceName: service.Name,
+        Price: service.Price,
+      }),
+      ...(location && {
+        LocationId: Number(location.Id),
+        LocationName: location.Name,
+      }),
+      ...(body.Status && { Status: body.Status }),
+    });
+    return existing;
+  }
+
+  private cancelAppointment(body: { AppointmentId: string; Reason?: string }) {
+    const appointment = this.find(
+      this.appointments,
+      body?.AppointmentId,
+      'Appointment'
+    );
+    if (appointment.Status === 'Canceled') {
+      throw new FakeError(
+        400,
+        `Appointment ${appointment.Id} is already canceled`
+      );
+    }
+    appointment.Status = 'Canceled';
+    return '';
+  }
+
+  private listInvoices(query: Query) {
+    // Invoices carry no practitioner, so `practitionerEmail` is not applied,
+    // and the last update is taken to be the creation date
+    const matches = this.invoices.filter(
+      (invoice) =>
+        (!query.clientId ||
+          invoice.ClientIdNumber === Number(query.clientId)) &&
+        (!query.status || invoice.Status === query.status) &&
+        inRange(invoice.IssuedDate, query.startDate, query.endDate) &&
+        inRange(
+          invoice.DateCreated,
+          query.lastUpdateStartDate,
+          query.lastUpdateEndDate
+        )
+    );
+    return this.page(matches, query);
+  }
+
+  private listIntakes(query: Query) {
+    const matches = this.intakes.filter(
+      (intake) =>
+        (query.all === 'true' || intake.Status === 'Completed') &&
+        (!query.client ||
+          contains(intake.ClientName, query.client) ||
+          contains(intake.ClientEmail, query.client)) &&
+        (!query.clientId || intake.ClientId === Number(query.clientId)) &&
+        (!query.externalClientId ||
+          intake.ExternalClientId === query.externalClientId) &&
+        inRange(intake.DateCreated, query.startDate, query.endDate)
+    );
+    return this.page(matches, query).map((intake) =>
+      omit(intake, ['Questions', 'ConsentForms'])
+    );
+  }
+
+  private sendQuestionnaire(body: SendQuestionnaireRequest): IntakeForm {
+    const questionnaire = this.questionnaires.find(
+      (q) => q.Id === body?.QuestionnaireId
+    );
+    if (!questionnaire) {
+      throw new FakeError(
+        400,
+        `Questionnaire ${body?.QuestionnaireId} not found`
+      );
+    }
+    const practitioner = this.practitioners.find(
+      (p) => p.Id === body.PractitionerId
+    );
+    if (!practitioner) {
+      throw new FakeError(400, `Practitioner ${body.PractitionerId} not found`);
+    }
+
+    let client: ClientWithProfile;
+    if ('ClientId' in body) {
+      client = this.findClient(body.ClientId, 400);
+    } else {
+      if (!body.ClientName || !body.ClientEmail) {
+        throw new FakeError(
+          400,
+          'ClientId or ClientName and ClientEmail are required'
+        );
+      }
+      client =
+        this.clients.find(
+          (c) => c.Email.toLowerCase() === body.ClientEmail.toLowerCase()
+        ) ??
+        this.saveClient({ Name: body.ClientName, Email: body.ClientEmail });
+    }
+
+    const intake = buildIntakeForm(
+      {
+        Status: 'Sent',
+        DateSubmitted: 0,
+        Practitioner: practitioner.Email,
+        PractitionerId: practitioner.Id,
+      },
+      client,
+      questionnaire
+    );
+    this.intakes.push(intake);
+    return intake;
+  }
+}
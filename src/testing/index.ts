@@ -0,0 +1,4 @@
+export * from './interfaces';
+export { IntakeQFake } from './fake';
+export { RecordingTransport, ReplayTransport } from './cassette';
+export * from './builders';
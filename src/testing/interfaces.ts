@@ -0,0 +1,98 @@
+import { Appointment, GetSettingsResponse } from '../appointment/interfaces';
+import { ClientWithProfile } from '../client/interfaces';
+import { HttpMethod } from '../http/interfaces';
+import { Invoice } from '../invoice/interfaces';
+import { TreatmentNote } from '../notes/interfaces';
+import {
+  IntakeForm,
+  Practitioner,
+  Questionnaire,
+} from '../questionnaire/interfaces';
+
+/** Records to load into an `IntakeQFake` */
+export interface FakeSeed {
+  clients?: ClientWithProfile[];
+  appointments?: Appointment[];
+  invoices?: Invoice[];
+  notes?: TreatmentNote[];
+  intakes?: IntakeForm[];
+  questionnaires?: Questionnaire[];
+  practitioners?: Practitioner[];
+  locations?: GetSettingsResponse['Locations'];
+  services?: GetSettingsResponse['Services'];
+}
+
+export interface IntakeQFakeOptions {
+  /**
+   * The only API key accepted. By default any non-empty `X-Auth-Key` is
+   * accepted and a missing one gets a 401.
+   */
+  apiKey?: string;
+  /** Records to start with */
+  seed?: FakeSeed;
+}
+
+/** A request received by an `IntakeQFake`, kept for assertions */
+export interface FakeRequest {
+  method: HttpMethod;
+  /** The route, e.g. `appointments/cancellation` */
+  path: string;
+  query: Record<string, string>;
+  body?: any;
+}
+
+export interface FakeServer {
+  /** Use as the `baseURL` of an `IntakeQApi` */
+  url: string;
+  port: number;
+  close(): Promise<void>;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: HttpMethod;
+    /** The route, e.g. `appointments/cancellation` */
+    path: string;
+    /** The query string without the leading `?`, with PHI redacted */
+    query: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+    /** Set when `data` holds a binary body, such as a PDF, in base64 */
+    encoding?: 'base64';
+  };
+}
+
+/** Recorded request/response pairs, stored as JSON */
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface RecordingOptions {
+  /** PHI fields to record as they are instead of redacting */
+  allowFields?: string[];
+  /**
+   * Record binary bodies, such as note and intake form PDFs, as they are.
+   * They are all PHI, so by default a placeholder is recorded instead.
+   */
+  recordBinary?: boolean;
+  /**
+   * Change each interaction before it is stored, e.g. to replace names with
+   * stable pseudonyms. Runs after the built-in scrubbing.
+   */
+  scrub?: (interaction: CassetteInteraction) => CassetteInteraction;
+}
+
+export interface ReplayOptions {
+  /**
+   * Serve an interaction again once every matching one has been used.
+   * Defaults to true; set to false to fail on unexpected repeat requests.
+   */
+  allowRepeats?: boolean;
+}
@@ -1,9 +1,12 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import { IntakeQApi } from '../index';
+import { IntakeQApi, formatDate } from '../index';
 import { VoiceAssistantApi } from './voice-assistant-api';
 import { CommandProcessor } from './command-processor';
+import { WebhookRouter } from '../webhook/router';
+import { MemoryWebhookEventStore } from '../webhook/store';
+import { appointmentsToIcs, verifyCalendarFeedToken } from '../appointment/ics';
 import { 
   BlandWebhookRequest, 
   BlandWebhookResponse, 
@@ -16,11 +19,18 @@ export class BlandWebhookServer {
   private voiceApi: VoiceAssistantApi;
   private commandProcessor: CommandProcessor;
   private config: VoiceConfig;
+  private webhookRouter = new WebhookRouter({
+    store: new MemoryWebhookEventStore()
+  });
 
+  /**
+   * @param intakeQApiKey Your IntakeQ API key, or an `IntakeQApi` to use, e.g.
+   * one backed by an `IntakeQFake` in tests
+   */
   constructor(
-    intakeQApiKey: string, 
+    intakeQApiKey: string | IntakeQApi, 
     voiceConfig: Partial<VoiceConfig> = {},
-    port: number = 3000
+    _port: number = 3000
   ) {
     this.app = express();
     this.config = {
@@ -33,7 +43,9 @@ export class BlandWebhookServer {
     };
 
     // Initialize APIs
-    this.intakeQApi = new IntakeQApi(intakeQApiKey);
+    this.intakeQApi = typeof intakeQApiKey === 'string'
+      ? new IntakeQApi(intakeQApiKey, { cache: true })
+      : intakeQApiKey;
     this.voiceApi = new VoiceAssistantApi(this.intakeQApi, this.config);
     this.commandProcessor = new CommandProcessor(this.voiceApi);
 
@@ -122,16 +134,60 @@ export class BlandWebhookServer {
         businessHours: this.config.businessHours,
         hasTransferNumber: !!this.config.transferNumber,
         hasDefaultPractitioner: !!this.config.defaultPractitionerEmail,
-        hasDefaultService: !!this.config.defaultServiceId
+        hasDefaultService: !!this.config.defaultServiceId,
+        hasCalendarFeed: !!this.config.calendarFeed
       });
     });
 
+    // IntakeQ webhooks, dispatched to the handlers added with getWebhookRouter().on()
+    this.app.post('/intakeq-webhook', this.webhookRouter.middleware());
+
+    // Practitioner calendar feeds, subscribed to with ?token=calendarFeedToken(email, secret)
+    this.app.get('/calendar/:email.ics', async (req, res) => {
+      try {
+        await this.handleCalendarFeed(req, res);
+      } catch (error) {
+        console.error('Error serving calendar feed:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
     // 404 handler
     this.app.use('*', (req, res) => {
       res.status(404).json({ error: 'Endpoint not found' });
     });
   }
 
+  private async handleCalendarFeed(req: express.Request, res: express.Response): Promise<void> {
+    if (!this.config.calendarFeed) {
+      res.status(404).json({ error: 'Endpoint not found' });
+      return;
+    }
+
+    const { secret, minimalPhi = true, daysBack = 30, daysAhead = 90 } = this.config.calendarFeed;
+    const email = req.params.email;
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    if (!verifyCalendarFeedToken(email, token, secret)) {
+      res.status(403).json({ error: 'Invalid calendar token' });
+      return;
+    }
+
+    const day = 24 * 60 * 60 * 1000;
+    const appointments = await this.intakeQApi.Appointment.listAll({
+      practitionerEmail: email,
+      startDate: formatDate(new Date(Date.now() - daysBack * day)),
+      endDate: formatDate(new Date(Date.now() + daysAhead * day))
+    });
+
+    // Never serve another practitioner's appointments, whatever the filter returns
+    const own = appointments.filter(
+      appointment => appointment.PractitionerEmail?.toLowerCase() === email.toLowerCase()
+    );
+    res
+      .type('text/calendar; charset=utf-8')
+      .send(appointmentsToIcs(own, { calendarName: `Appointments – ${email}`, minimalPhi }));
+  }
+
   private async handleBlandWebhook(req: express.Request, res: express.Response): Promise<void> {
     const webhookData: BlandWebhookRequest = req.body;
     
@@ -230,6 +286,10 @@ export class BlandWebhookServer {
           console.log(`🔗 Webhook URL: http://localhost:${serverPort}/bland-webhook`);
           console.log(`🧪 Test endpoint: http://localhost:${serverPort}/test-command`);
           console.log(`⚙️  Config endpoint: http://localhost:${serverPort}/config`);
+          console.log(`📨 IntakeQ webhook URL: http://localhost:${serverPort}/intakeq-webhook`);
+          if (this.config.calendarFeed) {
+            console.log(`📅 Calendar feeds: http://localhost:${serverPort}/calendar/<practitioner email>.ics?token=...`);
+          }
           resolve();
         });
       } catch (error) {
@@ -245,6 +305,13 @@ export class BlandWebhookServer {
     return this.app;
   }
 
+  /**
+   * Get the router for IntakeQ webhooks posted to /intakeq-webhook
+   */
+  public getWebhookRouter(): WebhookRouter {
+    return this.webhookRouter;
+  }
+
   /**
    * Update voice configuration
    */
@@ -257,7 +324,7 @@ export class BlandWebhookServer {
 
 // Factory function for easy server creation
 export function createBlandServer(
-  intakeQApiKey: string,
+  intakeQApiKey: string | IntakeQApi,
   voiceConfig?: Partial<VoiceConfig>
 ): BlandWebhookServer {
   return new BlandWebhookServer(intakeQApiKey, voiceConfig);
@@ -199,7 +199,7 @@ export class CommandProcessor {
     };
   }
 
-  private async handleRescheduleAppointment(intent: CommandIntent): Promise<VoiceResponse> {
+  private async handleRescheduleAppointment(_intent: CommandIntent): Promise<VoiceResponse> {
     return {
       message: "I can help you reschedule an appointment. Let me transfer you to our scheduling team who can find the best available time.",
       success: false
@@ -241,7 +241,7 @@ export class CommandProcessor {
     return this.voiceApi.sendIntakeForm(clientEmail, serviceName);
   }
 
-  private async handleCheckIntakeStatus(intent: CommandIntent): Promise<VoiceResponse> {
+  private async handleCheckIntakeStatus(_intent: CommandIntent): Promise<VoiceResponse> {
     return {
       message: "I can help you check intake form status. Let me transfer you to someone who can look that up for you.",
       success: false
@@ -266,10 +266,8 @@ export class CommandProcessor {
   }
 
   private async handleCheckAvailability(intent: CommandIntent): Promise<VoiceResponse> {
-    return {
-      message: "I can help you check availability. Let me transfer you to our scheduling team who can see all available time slots.",
-      success: false
-    };
+    const { date, serviceName, practitionerName } = intent.params;
+    return this.voiceApi.checkAvailability(date, serviceName, practitionerName);
   }
 
   private async handleUnknownCommand(transcript: string): Promise<VoiceResponse> {
@@ -406,6 +404,19 @@ export class CommandProcessor {
   private extractAvailabilityParams(text: string): any {
     const params: any = {};
     params.date = this.extractDateTime(text);
+
+    // Extract practitioner name - "with Dr. Smith"
+    const practitionerMatch = text.match(/with\s+(?:dr\.?\s+)?([a-z]+(?:\s+(?!for\b|on\b|today\b|tomorrow\b|this\b|next\b)[a-z]+)?)/i);
+    if (practitionerMatch) {
+      params.practitionerName = practitionerMatch[1].trim();
+    }
+
+    // Extract service name - "availability for a consultation"
+    const serviceMatch = text.match(/for\s+(?:an?\s+)?([a-z]+(?:\s+[a-z]+)?)(?=\s+(?:on|with|today|tomorrow|this|next)|$)/i);
+    if (serviceMatch) {
+      params.serviceName = serviceMatch[1].trim();
+    }
+
     return params;
   }
 
@@ -1,3 +1,7 @@
+import { AppointmentSlot, BusinessHours } from '../appointment/interfaces';
+
+export { AppointmentSlot };
+
 export interface VoiceResponse {
   /** The message the AI should speak back to the caller */
   message: string;
@@ -66,19 +70,6 @@ export interface BlandWebhookResponse {
   data?: any;
 }
 
-export interface AppointmentSlot {
-  /** Date and time of the slot */
-  dateTime: Date;
-  /** Duration in minutes */
-  duration: number;
-  /** Whether the slot is available */
-  available: boolean;
-  /** Practitioner ID for this slot */
-  practitionerId: string;
-  /** Service ID for this slot */
-  serviceId?: string;
-}
-
 export interface ClientSearchResult {
   /** Whether a client was found */
   found: boolean;
@@ -108,11 +99,24 @@ export interface VoiceConfig {
   /** Default location ID for appointments */
   defaultLocationId?: number;
   /** Business hours for availability checking */
-  businessHours?: {
-    start: string; // "09:00"
-    end: string;   // "17:00"
-    days: number[]; // [1,2,3,4,5] for Mon-Fri
-  };
+  businessHours?: BusinessHours;
+  /** Time zone business hours are in, e.g. America/New_York */
+  timeZone?: string;
+  /** Minutes kept free between appointments when offering times */
+  bufferMinutes?: number;
   /** Phone number for transfers */
   transferNumber?: string;
+  /** Serve practitioners' appointments as calendar feeds at /calendar/<email>.ics */
+  calendarFeed?: CalendarFeedConfig;
+}
+
+export interface CalendarFeedConfig {
+  /** Signs the feed tokens; see calendarFeedToken() */
+  secret: string;
+  /** Show clients by their initials only. Defaults to true */
+  minimalPhi?: boolean;
+  /** Days of past appointments to include. Defaults to 30 */
+  daysBack?: number;
+  /** Days of upcoming appointments to include. Defaults to 90 */
+  daysAhead?: number;
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { IntakeQApi } from '../index';
+import {
+  buildAppointment,
+  buildClient,
+  buildPracticeSeed,
+  toUnix,
+} from '../testing/builders';
+import { IntakeQFake } from '../testing/fake';
+import { CommandProcessor } from './command-processor';
+import { VoiceConfig } from './interfaces';
+import { VoiceAssistantApi } from './voice-assistant-api';
+
+// Monday 3 June 2024, noon in the zone the tests run in
+const NOW = new Date(2024, 5, 3, 12);
+
+function setup(config: Partial<VoiceConfig> = {}) {
+  const seed = buildPracticeSeed();
+  const fake = new IntakeQFake({ seed });
+  const voiceApi = new VoiceAssistantApi(
+    new IntakeQApi('test', { transport: fake }),
+    { transferNumber: '+15550100000', ...config }
+  );
+  return {
+    seed,
+    fake,
+    voiceApi,
+    processor: new CommandProcessor(voiceApi),
+  };
+}
+
+describe('voice assistant', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('finds a client by name', async () => {
+    const { processor, seed } = setup();
+
+    const response = await processor.processCommand('Look up Jane Doe');
+
+    expect(response.success).toBe(true);
+    expect(response.message).toContain(
+      'Found Jane Doe. Their email is jane.doe@example.com'
+    );
+    expect(response.data.nextAppointment.Id).toBe(seed.appointments[0].Id);
+  });
+
+  it('finds a client by email', async () => {
+    const { processor } = setup();
+
+    const response = await processor.processCommand(
+      'Find john.smith@example.com'
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.message).toContain('Found John Smith');
+  });
+
+  it('asks for more when several clients match', async () => {
+    const { processor, fake } = setup();
+    fake.seed({
+      clients: [buildClient({ FirstName: 'Jane', LastName: 'Roe' })],
+    });
+
+    const response = await processor.processCommand('Look up Jane');
+
+    expect(response.success).toBe(false);
+    expect(response.message).toContain('I found 2 clients');
+  });
+
+  it('offers open times', async () => {
+    const { processor } = setup();
+
+    const response = await processor.processCommand(
+      'What is available tomorrow?'
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.data.slots).toHaveLength(3);
+    expect(response.message).toMatch(
+      /^The next available times for Initial Consultation are /
+    );
+  });
+
+  it('reads and says days in the practice time zone', async () => {
+    // Monday evening in UTC is already Tuesday morning in Auckland
+    jest.setSystemTime(new Date('2024-06-03T20:00:00Z'));
+    const { voiceApi } = setup({ timeZone: 'Pacific/Auckland' });
+
+    const response = await voiceApi.checkAvailability('today');
+
+    expect(response.success).toBe(true);
+    expect(response.data.slots[0].dateTime).toEqual(
+      new Date('2024-06-03T21:00:00Z')
+    );
+    expect(response.message).toContain('Tuesday, June 4, 2024 at 9:00 AM');
+  });
+
+  it('cancels an appointment by id', async () => {
+    const { processor, fake, seed } = setup();
+    const [appointment] = seed.appointments;
+
+    const response = await processor.processCommand(
+      `Cancel appointment ${appointment.Id}`
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.message).toContain(
+      "I've canceled the appointment for Jane Doe"
+    );
+    expect(fake.appointments[0].Status).toBe('Canceled');
+  });
+
+  it('sends the intake questionnaire', async () => {
+    const { processor, fake } = setup();
+
+    const response = await processor.processCommand(
+      'Email jane.doe@example.com the questionnaire'
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.message).toContain(
+      "I've sent the New Client Intake intake form to Jane Doe"
+    );
+    expect(
+      fake.requests.map(({ method, path }) => `${method} ${path}`)
+    ).toContain('POST intakes/send');
+  });
+
+  it('answers commands it does not understand', async () => {
+    const { processor } = setup();
+
+    expect((await processor.processCommand('Hello there')).success).toBe(true);
+    expect(await processor.processCommand('Order a pizza')).toMatchObject({
+      success: false,
+      message: expect.stringContaining("I'm not sure how to help with that"),
+    });
+  });
+
+  it('books an appointment', async () => {
+    const { voiceApi, fake } = setup();
+
+    const response = await voiceApi.scheduleAppointment(
+      'John Smith',
+      'tomorrow at 10 am'
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.message).toContain(
+      "Great! I've scheduled John Smith for Initial Consultation"
+    );
+    expect(fake.appointments).toHaveLength(2);
+    expect(response.data.appointment.StartDate).toBe(
+      toUnix(new Date(2024, 5, 4, 10))
+    );
+  });
+
+  it('offers other times when the time is taken', async () => {
+    const { voiceApi, fake, seed } = setup();
+    const [location] = seed.locations;
+    const [service] = seed.services;
+    const [practitioner] = seed.practitioners;
+    fake.seed({
+      appointments: [
+        buildAppointment(
+          { StartDate: toUnix(new Date(2024, 5, 4, 10)) },
+          { client: seed.clients[0], practitioner, service, location }
+        ),
+      ],
+    });
+
+    const response = await voiceApi.scheduleAppointment(
+      'John Smith',
+      'tomorrow at 10 am'
+    );
+
+    expect(response.success).toBe(false);
+    expect(response.message).toMatch(/^That time is already booked/);
+    expect(response.data.conflicts).toHaveLength(1);
+    expect(fake.appointments).toHaveLength(2);
+  });
+
+  it('refuses times outside business hours', async () => {
+    const { voiceApi } = setup();
+
+    const response = await voiceApi.scheduleAppointment(
+      'John Smith',
+      'tomorrow at 8 pm'
+    );
+
+    expect(response.success).toBe(false);
+    expect(response.message).toContain('outside our business hours');
+  });
+});
@@ -1,22 +1,23 @@
 import { IntakeQApi } from '../index';
 import { 
   VoiceResponse, 
-  ClientSearchResult, 
-  AppointmentSlot, 
   VoiceConfig 
 } from './interfaces';
 import { 
-  Client, 
   ClientWithProfile
 } from '../client/interfaces';
 import { 
   Appointment, 
-  CreateAppointmentRequest,
-  AppointmentStatus 
+  CreateAppointmentRequest
 } from '../appointment/interfaces';
+import { NotFoundError, SchedulingConflictError } from '../common/errors';
+import { AvailabilityService } from '../appointment/availability';
+import { formatDate, parseDate } from '../common/query';
+import { toWallTime } from '../common/time-zone';
 
 export class VoiceAssistantApi {
   private config: VoiceConfig;
+  private availability: AvailabilityService;
 
   constructor(
     private intakeQApi: IntakeQApi, 
@@ -30,6 +31,11 @@ export class VoiceAssistantApi {
       },
       ...config
     };
+    this.availability = this.intakeQApi.Appointment.availability({
+      businessHours: this.config.businessHours,
+      timeZone: this.config.timeZone,
+      bufferMinutes: this.config.bufferMinutes
+    });
   }
 
   /**
@@ -211,7 +217,17 @@ export class VoiceAssistantApi {
         ReminderType: 'Email'
       };
 
-      const appointment = await this.intakeQApi.Appointment.create(appointmentRequest);
+      let appointment: Appointment;
+      try {
+        appointment = await this.intakeQApi.Appointment.create(appointmentRequest, {
+          conflictCheck: 'throw',
+          checkClient: true,
+          bufferMinutes: this.config.bufferMinutes
+        });
+      } catch (error) {
+        if (!(error instanceof SchedulingConflictError)) throw error;
+        return this.offerOtherTimes(appointmentDate, practitioner.Id, service.Id, error);
+      }
 
       return {
         message: `Great! I've scheduled ${client.Name} for ${service.Name} with ${practitioner.CompleteName} on ${this.formatDateForSpeech(appointment.StartDateIso)}. A confirmation email will be sent to ${client.Email}.`,
@@ -275,6 +291,77 @@ export class VoiceAssistantApi {
     }
   }
 
+  /**
+   * Offer the next free times, on a given day or over the coming week
+   */
+  async checkAvailability(
+    date?: string,
+    serviceName?: string,
+    practitionerName?: string
+  ): Promise<VoiceResponse> {
+    try {
+      const day = this.parseDay(date || 'today');
+      if (!day) {
+        return {
+          message: "I couldn't understand that date. Could you say it like 'tomorrow' or 'next Monday'?",
+          success: false
+        };
+      }
+
+      const settings = await this.intakeQApi.Appointment.getSettings();
+      const service = serviceName
+        ? settings.Services.find(s => s.Name.toLowerCase().includes(serviceName.toLowerCase()))
+        : this.config.defaultServiceId
+          ? settings.Services.find(s => s.Id === this.config.defaultServiceId)
+          : settings.Services[0];
+      const practitioner = practitionerName
+        ? settings.Practitioners.find(p => p.CompleteName.toLowerCase().includes(practitionerName.toLowerCase()))
+        : undefined;
+
+      if (!service || (practitionerName && !practitioner)) {
+        return {
+          message: `I couldn't find ${service ? 'that practitioner' : 'that service'}. Let me transfer you to someone who can help.`,
+          success: false,
+          transferNumber: this.config.transferNumber
+        };
+      }
+
+      // Without a date, look a week ahead for the next openings
+      const slots = await this.availability.findSlots({
+        startDate: day,
+        endDate: date ? day : this.addDays(day, 6),
+        serviceId: service.Id,
+        practitionerId: practitioner?.Id,
+        limit: 3
+      });
+
+      if (slots.length === 0) {
+        const when = date ? `on ${this.formatDayForSpeech(day)}` : 'in the next week';
+        return {
+          message: `I'm sorry, there are no openings for ${service.Name} ${when}. Would you like to try another day?`,
+          success: true,
+          data: { slots }
+        };
+      }
+
+      const times = slots
+        .map(slot => `${this.formatDateForSpeech(slot.dateTime.toISOString())} with ${slot.practitionerName}`)
+        .join(', ');
+      return {
+        message: `The next available times for ${service.Name} are ${times}. Would you like me to book one of these?`,
+        success: true,
+        data: { slots, service }
+      };
+
+    } catch (error) {
+      return {
+        message: "I'm sorry, I couldn't check availability right now. Let me transfer you to our scheduling team.",
+        success: false,
+        transferNumber: this.config.transferNumber
+      };
+    }
+  }
+
   /**
    * Cancel an appointment
    */
@@ -298,6 +385,13 @@ export class VoiceAssistantApi {
       };
 
     } catch (error) {
+      if (error instanceof NotFoundError) {
+        return {
+          message: "I couldn't find that appointment. Could you provide the appointment ID or client name?",
+          success: false
+        };
+      }
+
       return {
         message: "I'm sorry, I couldn't cancel that appointment. Please try again or contact our office directly.",
         success: false,
@@ -382,6 +476,26 @@ export class VoiceAssistantApi {
 
   // Helper methods
 
+  private async offerOtherTimes(
+    date: Date,
+    practitionerId: string,
+    serviceId: string,
+    conflict: SchedulingConflictError
+  ): Promise<VoiceResponse> {
+    const slots = await this.availability
+      .findSlots({ startDate: date, practitionerId, serviceId, limit: 3 })
+      .catch(() => []);
+    const times = slots.map(slot => this.formatTimeForSpeech(slot.dateTime.toISOString())).join(', ');
+
+    return {
+      message: slots.length
+        ? `That time is already booked. I have ${times} available that day. Would one of those work?`
+        : "That time is already booked and there are no other openings that day. Would you like to try another day?",
+      success: false,
+      data: { conflicts: conflict.conflicts, slots }
+    };
+  }
+
   private async getNextClientAppointment(clientId: number): Promise<Appointment | null> {
     try {
       const appointments = await this.intakeQApi.Appointment.list({
@@ -438,6 +552,36 @@ export class VoiceAssistantApi {
     return null;
   }
 
+  /**
+   * Read a spoken day as a yyyy-MM-dd date, with today taken from the clock
+   * in the practice's time zone
+   */
+  private parseDay(dayStr: string): string | null {
+    const str = dayStr.toLowerCase().trim();
+    const now = toWallTime(new Date(), this.config.timeZone);
+    const today = formatDate(new Date(now.year, now.month - 1, now.day));
+
+    if (str.includes('today')) return today;
+    if (str.includes('tomorrow')) return this.addDays(today, 1);
+
+    // "monday", "next friday": the next one after today
+    const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+    const weekday = weekdays.findIndex(name => str.includes(name));
+    if (weekday >= 0) {
+      return this.addDays(today, (weekday - now.weekday + 7) % 7 || 7);
+    }
+
+    const parsed = parseDate(dayStr) ?? this.parseDateTime(dayStr);
+    return parsed ? formatDate(parsed) : null;
+  }
+
+  /** Move a yyyy-MM-dd day by a number of days */
+  private addDays(day: string, days: number): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+  }
+
   private extractTime(str: string): { hours: number; minutes: number } | null {
     // Extract time patterns like "3 PM", "10:30 AM", "15:30"
     const timeRegex = /(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i;
@@ -501,7 +645,18 @@ export class VoiceAssistantApi {
       day: 'numeric',
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true
+      hour12: true,
+      timeZone: this.config.timeZone
+    });
+  }
+
+  /** Say a yyyy-MM-dd day, which is a date alone and needs no time zone */
+  private formatDayForSpeech(day: string): string {
+    return new Date(`${day}T12:00:00Z`).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC'
     });
   }
 
@@ -510,7 +665,8 @@ export class VoiceAssistantApi {
     return date.toLocaleTimeString('en-US', {
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true
+      hour12: true,
+      timeZone: this.config.timeZone
     });
   }
 }
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TransportRequest, TransportResponse } from '../http/interfaces';
+import { WebhookForwarder } from './forwarder';
+import { FileOutboxStore, MemoryOutboxStore } from './outbox';
+import { WebhookRouter } from './router';
+import { SIGNATURE_HEADER, verifyWebhookSignature } from './signature';
+
+const router = new WebhookRouter();
+
+function intakeEvent(IntakeId = 'intake-1') {
+  return router.parse({ IntakeId, Type: 'Intake Submitted', ClientId: 42 });
+}
+
+function stubTransport(statuses: number[] = []) {
+  const requests: TransportRequest[] = [];
+  return {
+    requests,
+    send: jest.fn(
+      async (request: TransportRequest): Promise<TransportResponse> => {
+        requests.push(request);
+        return { status: statuses.shift() ?? 200, headers: {}, data: null };
+      }
+    ),
+  };
+}
+
+const crm = { name: 'crm', url: 'https://crm.example.com/hooks', secret: 's1' };
+
+describe('WebhookForwarder', () => {
+  it('sends each event once per destination, signed', async () => {
+    const transport = stubTransport();
+    const forwarder = new WebhookForwarder({
+      destinations: [crm, { ...crm, name: 'billing', events: ['InvoicePaid'] }],
+      transport,
+    });
+
+    const added = await forwarder.forward(intakeEvent());
+    const again = await forwarder.forward(intakeEvent());
+    await forwarder.flush();
+
+    expect(added.map(({ destination }) => destination)).toEqual(['crm']);
+    expect(again).toEqual([]);
+    expect(transport.requests).toHaveLength(1);
+    const [request] = transport.requests;
+    expect(
+      verifyWebhookSignature(
+        request.body as string,
+        request.headers[SIGNATURE_HEADER],
+        crm.secret
+      )
+    ).toBe(true);
+    expect((await forwarder.status()).counts).toEqual({
+      pending: 0,
+      delivered: 1,
+      dead: 0,
+    });
+  });
+
+  it('retries failed deliveries and dead-letters rejected ones', async () => {
+    const transport = stubTransport([503, 200, 400]);
+    const forwarder = new WebhookForwarder({
+      destinations: [crm],
+      transport,
+      baseDelayMs: 0,
+    });
+
+    await forwarder.forward(intakeEvent('intake-1'));
+    await forwarder.flush();
+    await forwarder.forward(intakeEvent('intake-2'));
+    await forwarder.flush();
+
+    const { deliveries } = await forwarder.status();
+    const byEntity = Object.fromEntries(
+      deliveries.map((delivery) => [delivery.entityId, delivery])
+    );
+    expect(byEntity['intake-1']).toMatchObject({
+      status: 'delivered',
+      attempts: 2,
+    });
+    expect(byEntity['intake-2']).toMatchObject({
+      status: 'dead',
+      attempts: 1,
+      lastStatus: 400,
+    });
+
+    const redelivered = await forwarder.redeliver(byEntity['intake-2'].id);
+
+    expect(redelivered).toMatchObject({ status: 'delivered', attempts: 1 });
+  });
+
+  it('sends deliveries added while a flush is running', async () => {
+    const transport = stubTransport();
+    let release: () => void;
+    const sending = new Promise<void>((resolve) => (release = resolve));
+    transport.send.mockImplementationOnce(async (request) => {
+      transport.requests.push(request);
+      await sending;
+      return { status: 200, headers: {}, data: null };
+    });
+    const forwarder = new WebhookForwarder({
+      destinations: [crm],
+      transport,
+    });
+
+    await forwarder.forward(intakeEvent('intake-1'));
+    await new Promise((resolve) => setImmediate(resolve));
+    await forwarder.forward(intakeEvent('intake-2'));
+    release();
+    await forwarder.flush();
+
+    expect(transport.requests).toHaveLength(2);
+    expect((await forwarder.status()).counts.delivered).toBe(2);
+  });
+
+  it('keeps pending deliveries in a file outbox across restarts', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intakeq-outbox-'));
+    try {
+      const file = path.join(dir, 'outbox.json');
+      const down = new WebhookForwarder({
+        destinations: [crm],
+        transport: stubTransport([503]),
+        outbox: new FileOutboxStore(file),
+        baseDelayMs: 0,
+      });
+      await down.forward(intakeEvent());
+      await down.flush();
+
+      const up = new WebhookForwarder({
+        destinations: [crm],
+        transport: stubTransport(),
+        outbox: new FileOutboxStore(file),
+      });
+      await up.flush();
+
+      expect((await up.status()).counts).toEqual({
+        pending: 0,
+        delivered: 1,
+        dead: 0,
+      });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MemoryOutboxStore', () => {
+  it('stores copies of deliveries', async () => {
+    const store = new MemoryOutboxStore();
+    const [delivery] = await new WebhookForwarder({
+      destinations: [crm],
+      outbox: store,
+      transport: stubTransport([503]),
+    }).forward(intakeEvent());
+
+    delivery.status = 'dead';
+
+    expect(store.get(delivery.id).status).toBe('pending');
+    expect(store.list({ destination: 'other' })).toEqual([]);
+  });
+
+  it('keeps only the latest maxDelivered deliveries', async () => {
+    const store = new MemoryOutboxStore({ maxDelivered: 1 });
+    const forwarder = new WebhookForwarder({
+      destinations: [crm],
+      outbox: store,
+      transport: stubTransport([200, 200, 503]),
+      maxAttempts: 1,
+    });
+
+    for (const id of ['intake-1', 'intake-2', 'intake-3']) {
+      await forwarder.forward(intakeEvent(id));
+      await forwarder.flush();
+    }
+
+    expect(
+      store.list().map(({ entityId, status }) => [entityId, status])
+    ).toEqual([
+      ['intake-2', 'delivered'],
+      ['intake-3', 'dead'],
+    ]);
+  });
+
+  it('forgets finished deliveries older than maxAgeMs', async () => {
+    const store = new MemoryOutboxStore({ maxAgeMs: 60000 });
+    const old = new Date(Date.now() - 61000).toISOString();
+    const forwarder = new WebhookForwarder({
+      destinations: [crm],
+      outbox: store,
+      transport: stubTransport([503]),
+      maxAttempts: 1,
+    });
+    const [dead] = await forwarder.forward(intakeEvent('intake-1'));
+    await forwarder.flush();
+    const [pending] = await forwarder.forward(intakeEvent('intake-2'));
+
+    store.save({ ...store.get(pending.id), updatedAt: old });
+    store.save({ ...store.get(dead.id), updatedAt: old });
+
+    expect(store.list().map(({ id }) => id)).toEqual([pending.id]);
+  });
+});
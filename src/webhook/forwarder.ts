@@ -0,0 +1,325 @@
+import { RequestHandler } from 'express';
+import {
+  createErrorFromResponse,
+  IntakeQError,
+  NotFoundError,
+} from '../common/errors';
+import { AxiosTransport } from '../http/axios-transport';
+import { RetryOptions, Transport } from '../http/interfaces';
+import { getRetryDelay, isRetryableError } from '../http/retry';
+import {
+  Delivery,
+  DeliveryStatus,
+  DeliveryStatusReport,
+  DeliverySummary,
+  ForwardDestination,
+  OutboxStore,
+  WebhookEvent,
+  WebhookForwarderOptions,
+  WebhookHandler,
+} from './interfaces';
+import { MemoryOutboxStore } from './outbox';
+import { SIGNATURE_HEADER, signWebhookPayload } from './signature';
+import { webhookEntityId, webhookEventKey } from './store';
+
+const DEFAULT_TIMEOUT = 10000;
+
+const STATUSES: DeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+function summarize(delivery: Delivery): DeliverySummary {
+  const summary = { ...delivery };
+  delete summary.payload;
+  return summary;
+}
+
+/**
+ * Forwards received IntakeQ webhooks to downstream systems. Each event is
+ * written to an outbox once per destination, then POSTed with an
+ * `X-IntakeQ-Signature` HMAC header. Failed deliveries are retried with
+ * exponential backoff; 4xx answers other than 408 and 429, and deliveries
+ * that run out of attempts, are dead-lettered.
+ *
+ * ```ts
+ * const forwarder = new WebhookForwarder({
+ *   destinations: [{ name: 'crm', url: 'https://crm.internal/hooks', secret }],
+ *   outbox: new FileOutboxStore('/var/lib/app/outbox.json'),
+ * }).start();
+ *
+ * router.on('*', forwarder.handler());
+ * app.get('/webhook-deliveries', requireAdmin, forwarder.statusHandler());
+ * ```
+ */
+export class WebhookForwarder {
+  private destinations: ForwardDestination[];
+
+  private outbox: OutboxStore;
+
+  private transport: Transport;
+
+  private retry: RetryOptions;
+
+  private timeout: number;
+
+  private timer?: ReturnType<typeof setInterval>;
+
+  private flushing?: Promise<void>;
+
+  /** Set when a flush is asked for while one runs, so it makes another pass */
+  private flushAgain = false;
+
+  constructor(options: WebhookForwarderOptions) {
+    this.destinations = options.destinations;
+    this.outbox = options.outbox ?? new MemoryOutboxStore();
+    this.transport = options.transport ?? new AxiosTransport();
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.retry = {
+      maxRetries: (options.maxAttempts ?? 8) - 1,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      maxDelayMs: options.maxDelayMs ?? 60 * 60 * 1000,
+      retryOnStatus: [408, 429, 500, 502, 503, 504],
+      methods: ['POST'],
+    };
+  }
+
+  /**
+   * A `WebhookRouter` handler that forwards every event it receives. It
+   * returns once the deliveries are in the outbox, without waiting for them
+   * to be sent.
+   */
+  handler(): WebhookHandler {
+    return async (event) => {
+      await this.forward(event);
+    };
+  }
+
+  /**
+   * Add deliveries of an event to the outbox, one per matching destination,
+   * and start sending them. An event already in the outbox for a destination
+   * is not added again.
+   * @param event The received event
+   * @returns The deliveries that were added
+   */
+  async forward(event: WebhookEvent): Promise<Delivery[]> {
+    const eventKey = webhookEventKey(event);
+    const now = new Date().toISOString();
+    const added: Delivery[] = [];
+
+    for (const destination of this.destinations) {
+      if (destination.events && !destination.events.includes(event.type)) {
+        continue;
+      }
+      const id = `${eventKey}:${destination.name}`;
+      if (await this.outbox.get(id)) continue;
+
+      const delivery: Delivery = {
+        id,
+        destination: destination.name,
+        type: event.type,
+        eventKey,
+        entityId: webhookEntityId(event),
+        payload: event.payload,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.outbox.save(delivery);
+      added.push(delivery);
+    }
+
+    if (added.length) this.flush().catch(() => undefined);
+    return added;
+  }
+
+  /**
+   * Attempt every pending delivery that is due. Only one flush runs at a
+   * time; calling this during a flush returns the running one, which then
+   * makes another pass for deliveries added since it started.
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+    } else {
+      this.flushing = this.sendUntilDone().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Flush the outbox on an interval, so retries go out when they are due
+   * @param intervalMs How often to look for due deliveries. Defaults to 5 seconds
+   */
+  start(intervalMs = 5000): this {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.flush().catch(() => undefined);
+    }, intervalMs);
+    this.timer.unref?.();
+    return this;
+  }
+
+  /** Stop flushing on an interval */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Move a dead-lettered delivery back to pending and attempt it now
+   * @param id The delivery id
+   */
+  async redeliver(id: string): Promise<Delivery> {
+    const delivery = await this.outbox.get(id);
+    if (!delivery) throw new NotFoundError(`No delivery with id ${id}`);
+    if (delivery.status === 'dead') {
+      delivery.status = 'pending';
+      delivery.attempts = 0;
+      delivery.nextAttemptAt = new Date().toISOString();
+      delivery.updatedAt = delivery.nextAttemptAt;
+      await this.outbox.save(delivery);
+      await this.flush();
+    }
+    return this.outbox.get(id);
+  }
+
+  /**
+   * Delivery counts and the matching deliveries, without their payloads
+   * @param filter Only list deliveries with this status or destination
+   */
+  async status(
+    filter: { status?: DeliveryStatus; destination?: string } = {}
+  ): Promise<DeliveryStatusReport> {
+    const all = await this.outbox.list({ destination: filter.destination });
+    const counts = { pending: 0, delivered: 0, dead: 0 };
+    all.forEach((delivery) => {
+      counts[delivery.status] += 1;
+    });
+    return {
+      counts,
+      deliveries: all
+        .filter(
+          (delivery) => !filter.status || delivery.status === filter.status
+        )
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(summarize),
+    };
+  }
+
+  /**
+   * Express handler answering with `status()`. Filter with the `status` and
+   * `destination` query parameters, and cap the list with `limit` (default
+   * 100). The handler does no authentication of its own, and the deliveries
+   * name clients' records, so mount it behind your admin auth.
+   */
+  statusHandler(): RequestHandler {
+    return (req, res, next) => {
+      const status = STATUSES.find((value) => value === req.query.status);
+      const destination =
+        typeof req.query.destination === 'string'
+          ? req.query.destination
+          : undefined;
+      const limit = Number(req.query.limit) || 100;
+
+      this.status({ status, destination })
+        .then((report) => {
+          res.json({
+            ...report,
+            deliveries: report.deliveries.slice(0, limit),
+          });
+        })
+        .catch(next);
+    };
+  }
+
+  private async sendUntilDone(): Promise<void> {
+    do {
+      this.flushAgain = false;
+      await this.sendDue();
+    } while (this.flushAgain);
+  }
+
+  private async sendDue(): Promise<void> {
+    const now = Date.now();
+    const due = (await this.outbox.list({ status: 'pending' }))
+      .filter((delivery) => Date.parse(delivery.nextAttemptAt) <= now)
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt));
+
+    for (const delivery of due) {
+      await this.attempt(delivery);
+    }
+  }
+
+  private async attempt(delivery: Delivery): Promise<void> {
+    const destination = this.destinations.find(
+      (d) => d.name === delivery.destination
+    );
+    delivery.attempts += 1;
+    delivery.updatedAt = new Date().toISOString();
+
+    if (!destination) {
+      delivery.status = 'dead';
+      delivery.nextAttemptAt = undefined;
+      delivery.lastError = `Destination ${delivery.destination} is not configured`;
+      await this.outbox.save(delivery);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    let error: IntakeQError | undefined;
+    try {
+      const res = await this.transport.send({
+        method: 'POST',
+        url: destination.url,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-IntakeQ-Event': delivery.type,
+          'X-IntakeQ-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(body, destination.secret),
+          ...destination.headers,
+        },
+        body,
+        timeout: this.timeout,
+      });
+      delivery.lastStatus = res.status;
+      if (res.status < 200 || res.status >= 300) {
+        error = createErrorFromResponse(
+          { status: res.status, headers: res.headers, body: res.data },
+          { endpoint: destination.url, method: 'POST' }
+        );
+      }
+    } catch (cause) {
+      delivery.lastStatus = undefined;
+      error =
+        cause instanceof IntakeQError
+          ? cause
+          : new IntakeQError(cause?.message ?? 'Network error', {
+              endpoint: destination.url,
+              method: 'POST',
+              cause,
+            });
+    }
+
+    if (!error) {
+      delivery.status = 'delivered';
+      delivery.nextAttemptAt = undefined;
+      delivery.lastError = undefined;
+    } else {
+      const delay =
+        delivery.attempts <= this.retry.maxRetries &&
+        isRetryableError(error, this.retry)
+          ? getRetryDelay(delivery.attempts - 1, error, this.retry)
+          : undefined;
+      delivery.lastError = error.message;
+      if (delay === undefined) {
+        delivery.status = 'dead';
+        delivery.nextAttemptAt = undefined;
+      } else {
+        delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      }
+    }
+    await this.outbox.save(delivery);
+  }
+}
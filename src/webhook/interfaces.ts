@@ -0,0 +1,246 @@
+import { AppointmentReceived } from '../appointment/interfaces';
+import { ValidationIssue } from '../common/interfaces';
+import { Transport } from '../http/interfaces';
+import { InvoiceReceived } from '../invoice/interfaces';
+import { IntakeReceived } from '../questionnaire/interfaces';
+
+export type AppointmentEventType = AppointmentReceived['EventType'];
+
+export type InvoiceEventType = InvoiceReceived['EventType'];
+
+/**
+ * Intake webhooks carry no `EventType`, so they are dispatched as
+ * `IntakeSubmitted`
+ */
+export type IntakeEventType = 'IntakeSubmitted';
+
+export type WebhookEventType =
+  | AppointmentEventType
+  | InvoiceEventType
+  | IntakeEventType;
+
+/** The body of a webhook with the given event type */
+export type WebhookPayload<
+  E extends WebhookEventType = WebhookEventType
+> = E extends AppointmentEventType
+  ? AppointmentReceived & { EventType: E }
+  : E extends InvoiceEventType
+  ? InvoiceReceived & { EventType: E }
+  : IntakeReceived;
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface WebhookEvent<E extends WebhookEventType = WebhookEventType> {
+  type: E;
+  payload: WebhookPayload<E>;
+  headers: WebhookHeaders;
+  receivedAt: Date;
+}
+
+export type WebhookHandler<E extends WebhookEventType = WebhookEventType> = (
+  event: WebhookEvent<E>
+) => void | Promise<void>;
+
+export interface WebhookResult {
+  type: WebhookEventType;
+  /** How many handlers ran */
+  handled: number;
+  /** The event key, when a store is used */
+  key?: string;
+  /** The event was already processed, or is being processed, so no handlers ran */
+  duplicate?: boolean;
+}
+
+export interface WebhookRouterOptions {
+  /**
+   * What to do when the appointment, invoice or intake in a webhook does not
+   * match the SDK's schema. A body that is not an IntakeQ event at all is
+   * always rejected.
+   * * report – Pass the issues to `onIssues` and dispatch the event anyway.
+   * * throw – Reject the event with a `WebhookValidationError`.
+   * Defaults to report.
+   */
+  mode?: 'report' | 'throw';
+  /**
+   * Called with the issues of every event that has some. Without it, report
+   * mode drops them.
+   */
+  onIssues?: (type: WebhookEventType, issues: ValidationIssue[]) => void;
+  /** Accept `null` for any field. Defaults to true */
+  allowNull?: boolean;
+  /**
+   * Keep received events here to skip duplicates IntakeQ resends and to
+   * replay failed events. Without a store every delivery is dispatched.
+   */
+  store?: WebhookEventStore;
+  /**
+   * How long a pending event is taken to still be running elsewhere. A
+   * redelivery after this re-runs it, as its process probably died. Defaults
+   * to 5 minutes.
+   */
+  pendingTimeoutMs?: number;
+}
+
+export type ProcessingStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface HandlerRecord {
+  status: ProcessingStatus;
+  attempts: number;
+  /** The message of the last error, when the handler failed */
+  error?: string;
+  /** ISO date of the last attempt */
+  updatedAt: string;
+}
+
+/** A received event and how far its handlers got */
+export interface WebhookEventRecord {
+  /** Event type, entity id and payload hash, e.g. `InvoicePaid:inv-1:9f86d081` */
+  key: string;
+  type: WebhookEventType;
+  /** The appointment, invoice or intake id */
+  entityId: string;
+  /**
+   * * pending – Handlers are running, or the process died while they were.
+   * * succeeded – Every handler succeeded.
+   * * failed – At least one handler failed. Replay to retry it.
+   */
+  status: ProcessingStatus;
+  attempts: number;
+  /** The handlers that ran, by name */
+  handlers: Record<string, HandlerRecord>;
+  payload: WebhookPayload;
+  /** ISO date the event was first received */
+  receivedAt: string;
+  /** ISO date of the last attempt */
+  updatedAt: string;
+}
+
+/**
+ * Where received events are kept for deduplication and replay. Implement this
+ * to share it between processes, e.g. with Redis or a database table.
+ */
+export interface WebhookEventStore {
+  get(
+    key: string
+  ): WebhookEventRecord | undefined | Promise<WebhookEventRecord | undefined>;
+  save(record: WebhookEventRecord): void | Promise<void>;
+  list(filter?: {
+    status?: ProcessingStatus;
+    type?: WebhookEventType;
+  }): WebhookEventRecord[] | Promise<WebhookEventRecord[]>;
+}
+
+/** How long the built-in stores keep events */
+export interface WebhookEventStoreOptions {
+  /**
+   * The most events to keep. The oldest are forgotten first. Defaults to
+   * 10000.
+   */
+  maxEntries?: number;
+  /**
+   * Forget events last attempted longer ago than this, in milliseconds,
+   * failed ones included. Kept until `maxEntries` is reached by default.
+   */
+  maxAgeMs?: number;
+}
+
+export interface WebhookHandlerOptions {
+  /**
+   * Identifies the handler in event records, so a replay only re-runs the
+   * handlers that failed. Defaults to the event type and the handler's
+   * position, e.g. `InvoicePaid#0`.
+   */
+  name?: string;
+}
+
+export interface ForwardDestination {
+  /** Identifies the destination in deliveries and the status endpoint */
+  name: string;
+  url: string;
+  /** The HMAC secret deliveries to this destination are signed with */
+  secret: string;
+  /** Only forward these event types. Defaults to every event */
+  events?: WebhookEventType[];
+  /** Extra headers sent with every delivery */
+  headers?: Record<string, string>;
+}
+
+/**
+ * * pending – Waiting for its first or next attempt.
+ * * delivered – The destination answered with a 2xx status.
+ * * dead – Failed permanently, or ran out of attempts.
+ */
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+/** An event to deliver to one destination */
+export interface Delivery {
+  id: string;
+  destination: string;
+  type: WebhookEventType;
+  /** The key of the forwarded event, see `webhookEventKey()` */
+  eventKey: string;
+  entityId: string;
+  payload: WebhookPayload;
+  status: DeliveryStatus;
+  attempts: number;
+  /** ISO date of the next attempt, while pending */
+  nextAttemptAt?: string;
+  /** The status code of the last attempt, if a response was received */
+  lastStatus?: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A delivery without its payload, for the status endpoint */
+export type DeliverySummary = Omit<Delivery, 'payload'>;
+
+export interface DeliveryStatusReport {
+  counts: Record<DeliveryStatus, number>;
+  /** Most recently updated first */
+  deliveries: DeliverySummary[];
+}
+
+/** Where deliveries are kept until they are delivered or dead-lettered */
+export interface OutboxStore {
+  get(id: string): Delivery | undefined | Promise<Delivery | undefined>;
+  save(delivery: Delivery): void | Promise<void>;
+  list(filter?: {
+    status?: DeliveryStatus;
+    destination?: string;
+  }): Delivery[] | Promise<Delivery[]>;
+}
+
+/**
+ * How long the built-in outboxes keep finished deliveries. Pending deliveries
+ * are always kept. A forgotten delivery no longer stops the same event from
+ * being forwarded again, so keep them longer than IntakeQ may resend it.
+ */
+export interface OutboxStoreOptions {
+  /**
+   * The most delivered deliveries to keep. The oldest are forgotten first.
+   * Defaults to 1000.
+   */
+  maxDelivered?: number;
+  /**
+   * Forget delivered and dead deliveries last attempted longer ago than this,
+   * in milliseconds. Dead letters are kept for redelivery by default.
+   */
+  maxAgeMs?: number;
+}
+
+export interface WebhookForwarderOptions {
+  destinations: ForwardDestination[];
+  /** Defaults to an in-memory outbox, which loses deliveries on restart */
+  outbox?: OutboxStore;
+  /** Sends the deliveries. Defaults to axios */
+  transport?: Transport;
+  /** Attempts before a delivery is dead-lettered. Defaults to 8 */
+  maxAttempts?: number;
+  /** The delay before the first retry, doubled on each attempt. Defaults to 1 second */
+  baseDelayMs?: number;
+  /** The longest wait between attempts. Defaults to 1 hour */
+  maxDelayMs?: number;
+  /** Per-attempt timeout in milliseconds. Defaults to 10 seconds */
+  timeout?: number;
+}
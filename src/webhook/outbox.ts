@@ -0,0 +1,113 @@
+import { JsonFileCollection } from '../common/json-file';
+import {
+  Delivery,
+  DeliveryStatus,
+  OutboxStore,
+  OutboxStoreOptions,
+} from './interfaces';
+
+const DEFAULT_MAX_DELIVERED = 1000;
+
+type DeliveryFilter = { status?: DeliveryStatus; destination?: string };
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function matches(delivery: Delivery, filter: DeliveryFilter = {}) {
+  return (
+    (!filter.status || delivery.status === filter.status) &&
+    (!filter.destination || delivery.destination === filter.destination)
+  );
+}
+
+/**
+ * The ids of the finished deliveries that fall outside the retention options:
+ * delivered ones beyond `maxDelivered`, the oldest first, and delivered or dead
+ * ones not attempted within `maxAgeMs`
+ * @param deliveries Every delivery in the outbox
+ * @param options How long to keep finished deliveries
+ */
+function expiredIds(
+  deliveries: Delivery[],
+  options: OutboxStoreOptions
+): Set<string> {
+  const { maxDelivered = DEFAULT_MAX_DELIVERED, maxAgeMs } = options;
+  const cutoff = maxAgeMs === undefined ? undefined : Date.now() - maxAgeMs;
+  // Latest first; reversed before the stable sort so that, within the same
+  // millisecond, the delivery added last counts as the latest
+  const delivered = deliveries
+    .filter((delivery) => delivery.status === 'delivered')
+    .reverse()
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const ids = new Set(delivered.slice(maxDelivered).map(({ id }) => id));
+  deliveries.forEach((delivery) => {
+    if (
+      delivery.status !== 'pending' &&
+      cutoff !== undefined &&
+      Date.parse(delivery.updatedAt) < cutoff
+    ) {
+      ids.add(delivery.id);
+    }
+  });
+  return ids;
+}
+
+/** An in-memory `OutboxStore`. Pending deliveries are lost on restart. */
+export class MemoryOutboxStore implements OutboxStore {
+  private deliveries = new Map<string, Delivery>();
+
+  /**
+   * @param options How long to keep finished deliveries
+   */
+  constructor(private options: OutboxStoreOptions = {}) {}
+
+  get(id: string): Delivery | undefined {
+    return clone(this.deliveries.get(id));
+  }
+
+  save(delivery: Delivery): void {
+    this.deliveries.set(delivery.id, clone(delivery));
+    expiredIds(
+      Array.from(this.deliveries.values()),
+      this.options
+    ).forEach((id) => this.deliveries.delete(id));
+  }
+
+  list(filter?: DeliveryFilter): Delivery[] {
+    return Array.from(this.deliveries.values())
+      .filter((delivery) => matches(delivery, filter))
+      .map(clone);
+  }
+}
+
+/**
+ * An `OutboxStore` kept in a JSON file, for a single process. The file holds
+ * the event payloads, PHI included, so keep it somewhere protected.
+ */
+export class FileOutboxStore implements OutboxStore {
+  private deliveries: JsonFileCollection<Delivery>;
+
+  /**
+   * @param file The JSON file to use. It is created on the first save.
+   * @param options How long to keep finished deliveries
+   */
+  constructor(file: string, private options: OutboxStoreOptions = {}) {
+    this.deliveries = new JsonFileCollection(file, (delivery) => delivery.id);
+  }
+
+  get(id: string): Promise<Delivery | undefined> {
+    return this.deliveries.get(id);
+  }
+
+  async save(delivery: Delivery): Promise<void> {
+    await this.deliveries.save(delivery);
+    const ids = expiredIds(await this.deliveries.values(), this.options);
+    await this.deliveries.deleteWhere(({ id }) => ids.has(id));
+  }
+
+  async list(filter?: DeliveryFilter): Promise<Delivery[]> {
+    const deliveries = await this.deliveries.values();
+    return deliveries.filter((delivery) => matches(delivery, filter));
+  }
+}
@@ -0,0 +1,139 @@
+import { WebhookValidationError } from '../common/errors';
+import { WebhookRouter } from './router';
+import { MemoryWebhookEventStore } from './store';
+
+const intake = {
+  IntakeId: 'intake-1',
+  Type: 'Intake Submitted',
+  ClientId: 42,
+};
+
+describe('WebhookRouter', () => {
+  it('dispatches to the handlers for the event type', async () => {
+    const submitted = jest.fn();
+    const any = jest.fn();
+    const paid = jest.fn();
+    const router = new WebhookRouter()
+      .on('IntakeSubmitted', submitted)
+      .on('InvoicePaid', paid)
+      .on('*', any);
+
+    const result = await router.handle(JSON.stringify(intake));
+
+    expect(result).toEqual({ type: 'IntakeSubmitted', handled: 2 });
+    expect(submitted.mock.calls[0][0].payload).toEqual(intake);
+    expect(any).toHaveBeenCalledTimes(1);
+    expect(paid).not.toHaveBeenCalled();
+  });
+
+  it('rejects a body that is not an IntakeQ event', async () => {
+    const router = new WebhookRouter();
+
+    await expect(router.handle({ Hello: 'world' })).rejects.toBeInstanceOf(
+      WebhookValidationError
+    );
+    await expect(router.handle('not json')).rejects.toThrow(
+      'Webhook body is not valid JSON'
+    );
+  });
+
+  it('reports fields the schema does not know', async () => {
+    const onIssues = jest.fn();
+    const router = new WebhookRouter({ onIssues });
+
+    const result = await router.handle({ ...intake, FormName: 'Intake' });
+
+    expect(result.handled).toBe(0);
+    expect(onIssues).toHaveBeenCalledWith('IntakeSubmitted', [
+      expect.objectContaining({ type: 'unknown_field', path: '$.FormName' }),
+    ]);
+  });
+
+  it('writes nothing to the console without onIssues', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const result = await new WebhookRouter().handle({
+        ...intake,
+        FormName: 'Intake',
+      });
+
+      expect(result.handled).toBe(0);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('rethrows the error of a failing handler', async () => {
+    const after = jest.fn();
+    const router = new WebhookRouter()
+      .on('IntakeSubmitted', () => {
+        throw new Error('Sync failed');
+      })
+      .on('*', after);
+
+    await expect(router.handle(intake)).rejects.toThrow('Sync failed');
+    expect(after).not.toHaveBeenCalled();
+  });
+  it('does not dispatch a resent event again', async () => {
+    const handler = jest.fn();
+    const router = new WebhookRouter({
+      store: new MemoryWebhookEventStore(),
+    }).on('IntakeSubmitted', handler);
+
+    const first = await router.handle(intake);
+    const resent = await router.handle({ ...intake });
+    const changed = await router.handle({ ...intake, ClientId: 43 });
+
+    expect(first.duplicate).toBeUndefined();
+    expect(resent).toMatchObject({ duplicate: true, handled: 0 });
+    expect(resent.key).toBe(first.key);
+    expect(changed.key).not.toBe(first.key);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips an event that arrives while it is being handled', async () => {
+    let finish: () => void;
+    const handler = jest.fn(
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+    const router = new WebhookRouter({
+      store: new MemoryWebhookEventStore(),
+    }).on('IntakeSubmitted', handler);
+
+    const first = router.handle(intake);
+    const concurrent = await router.handle(intake);
+    await new Promise((resolve) => setImmediate(resolve));
+    finish();
+    await first;
+
+    expect(concurrent.duplicate).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-runs only the failed handlers on replay', async () => {
+    const store = new MemoryWebhookEventStore();
+    const sync = jest.fn();
+    const notify = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Mail server down'))
+      .mockResolvedValue(undefined);
+    const router = new WebhookRouter({ store })
+      .on('IntakeSubmitted', sync, { name: 'sync' })
+      .on('IntakeSubmitted', notify, { name: 'notify' });
+
+    await expect(router.handle(intake)).rejects.toThrow('Mail server down');
+    const [failed] = await store.list({ status: 'failed' });
+    expect(failed.handlers.notify).toMatchObject({
+      status: 'failed',
+      error: 'Mail server down',
+    });
+
+    const [replayed] = await router.replayFailed();
+
+    expect(replayed.status).toBe('succeeded');
+    expect(replayed.handlers.notify.attempts).toBe(2);
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledTimes(2);
+  });
+});
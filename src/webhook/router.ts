@@ -0,0 +1,357 @@
+import { RequestHandler } from 'express';
+import { appointmentReceivedSchema } from '../appointment/schemas';
+import { NotFoundError, WebhookValidationError } from '../common/errors';
+import { ValidationIssue } from '../common/interfaces';
+import { Schema, validate } from '../common/schema';
+import { invoiceReceivedSchema } from '../invoice/schemas';
+import { intakeReceivedSchema } from '../questionnaire/schemas';
+import {
+  WebhookEvent,
+  WebhookEventRecord,
+  WebhookEventType,
+  WebhookHandler,
+  WebhookHandlerOptions,
+  WebhookHeaders,
+  WebhookPayload,
+  WebhookResult,
+  WebhookRouterOptions,
+} from './interfaces';
+import { webhookEntityId, webhookEventKey } from './store';
+
+const DEFAULT_PENDING_TIMEOUT = 5 * 60 * 1000;
+
+interface NamedHandler {
+  name: string;
+  handler: WebhookHandler;
+}
+
+/** Issues with the event itself rather than the record it carries */
+function isEnvelopeIssue(issue: ValidationIssue): boolean {
+  return issue.type !== 'unknown_field' && /^\$\.[^.[]+$/.test(issue.path);
+}
+
+function parseBody(body: unknown): Record<string, unknown> {
+  if (typeof body === 'string' || Buffer.isBuffer(body)) {
+    try {
+      return JSON.parse(body.toString());
+    } catch (error) {
+      throw new WebhookValidationError('Webhook body is not valid JSON', {
+        cause: error,
+      });
+    }
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new WebhookValidationError('Webhook body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Receives IntakeQ webhooks and dispatches them to typed handlers by event
+ * type. Appointment and invoice webhooks use their `EventType`; intake
+ * webhooks are dispatched as `IntakeSubmitted`.
+ *
+ * ```ts
+ * const router = new WebhookRouter()
+ *   .on('AppointmentRescheduled', ({ payload }) => sync(payload.Appointment))
+ *   .on('InvoicePaid', ({ payload }) => markPaid(payload.Invoice.Id));
+ *
+ * app.post('/intakeq-webhook', express.json(), router.middleware());
+ * ```
+ */
+export class WebhookRouter {
+  private handlers = new Map<WebhookEventType | '*', NamedHandler[]>();
+
+  /** Events being processed by this process, by key */
+  private inFlight = new Set<string>();
+
+  constructor(private options: WebhookRouterOptions = {}) {}
+
+  /**
+   * Add a handler for an event type. Handlers run in the order they were
+   * added.
+   * @param type The event type, or `*` for every event
+   * @param handler Called with the parsed event
+   * @param options The name the handler is recorded under
+   */
+  on<E extends WebhookEventType>(
+    type: E,
+    handler: WebhookHandler<E>,
+    options?: WebhookHandlerOptions
+  ): this;
+
+  on(type: '*', handler: WebhookHandler, options?: WebhookHandlerOptions): this;
+
+  on(
+    type: WebhookEventType | '*',
+    handler: WebhookHandler<any>,
+    options: WebhookHandlerOptions = {}
+  ): this {
+    const handlers = this.handlers.get(type) ?? [];
+    const name = options.name ?? `${type}#${handlers.length}`;
+    this.handlers.set(type, [...handlers, { name, handler }]);
+    return this;
+  }
+
+  /**
+   * Parse and validate a webhook body without dispatching it
+   * @param body The raw or JSON-parsed body
+   * @param headers The request headers
+   */
+  parse(body: unknown, headers: WebhookHeaders = {}): WebhookEvent {
+    const payload = parseBody(body);
+
+    let type: WebhookEventType;
+    let schema: Schema;
+    if ('Appointment' in payload) {
+      type = payload.EventType as WebhookEventType;
+      schema = appointmentReceivedSchema;
+    } else if ('Invoice' in payload) {
+      type = payload.EventType as WebhookEventType;
+      schema = invoiceReceivedSchema;
+    } else if ('IntakeId' in payload) {
+      type = 'IntakeSubmitted';
+      schema = intakeReceivedSchema;
+    } else {
+      throw new WebhookValidationError(
+        'Webhook body is not an appointment, invoice or intake event',
+        { body: payload }
+      );
+    }
+
+    const { mode = 'report', onIssues, allowNull } = this.options;
+    const issues = validate(schema, payload, { allowNull });
+    if (issues.some(isEnvelopeIssue) || (issues.length && mode === 'throw')) {
+      throw new WebhookValidationError(
+        `Webhook ${type ?? 'event'} does not match the expected schema`,
+        { body: payload, issues }
+      );
+    }
+    if (issues.length) onIssues?.(type, issues);
+
+    return {
+      type,
+      payload: (payload as unknown) as WebhookPayload,
+      headers,
+      receivedAt: new Date(),
+    };
+  }
+
+  /**
+   * Parse, validate and dispatch a webhook. Throws a
+   * `WebhookValidationError` for a body that is not an IntakeQ event. Every
+   * handler runs even when one fails, then the first error is rethrown.
+   *
+   * With a `store`, an event that already succeeded or is still running is
+   * not dispatched again, and a failed one only re-runs its failed handlers.
+   * @param body The raw or JSON-parsed body
+   * @param headers The request headers
+   */
+  async handle(
+    body: unknown,
+    headers: WebhookHeaders = {}
+  ): Promise<WebhookResult> {
+    const event = this.parse(body, headers);
+    const { store, pendingTimeoutMs = DEFAULT_PENDING_TIMEOUT } = this.options;
+    if (!store) {
+      return { type: event.type, handled: await this.dispatch(event) };
+    }
+
+    const key = webhookEventKey(event);
+    const duplicate = { type: event.type, handled: 0, key, duplicate: true };
+    return this.exclusive(key, duplicate, async () => {
+      const record = await store.get(key);
+      const running =
+        record?.status === 'pending' &&
+        Date.now() - Date.parse(record.updatedAt) < pendingTimeoutMs;
+      if (running || record?.status === 'succeeded') return duplicate;
+      return this.process(event, key, record);
+    });
+  }
+
+  /**
+   * Run the handlers for an already parsed event, without deduplication
+   * @param event The event to dispatch
+   * @returns How many handlers ran
+   */
+  async dispatch(event: WebhookEvent): Promise<number> {
+    const handlers = this.handlersFor(event.type);
+    const errors: unknown[] = [];
+    for (const { handler } of handlers) {
+      await Promise.resolve(handler(event)).catch((error) => {
+        errors.push(error);
+      });
+    }
+    if (errors.length) throw errors[0];
+    return handlers.length;
+  }
+
+  /**
+   * Re-run the handlers that failed for a stored event
+   * @param key The event key
+   */
+  async replay(key: string): Promise<WebhookResult> {
+    const store = this.requireStore();
+    const record = await store.get(key);
+    if (!record) throw new NotFoundError(`No webhook event with key ${key}`);
+    const duplicate = { type: record.type, handled: 0, key, duplicate: true };
+    return this.exclusive(key, duplicate, async () => {
+      const latest = await store.get(key);
+      if (latest.status === 'succeeded') return duplicate;
+      const event: WebhookEvent = {
+        type: latest.type,
+        payload: latest.payload,
+        headers: {},
+        receivedAt: new Date(latest.receivedAt),
+      };
+      return this.process(event, key, latest);
+    });
+  }
+
+  /**
+   * Re-run the failed handlers of every failed event, oldest first. Events
+   * that fail again stay failed and are not rethrown.
+   * @param filter Only replay events of this type
+   * @returns The events after the replay
+   */
+  async replayFailed(
+    filter: { type?: WebhookEventType } = {}
+  ): Promise<WebhookEventRecord[]> {
+    const store = this.requireStore();
+    const failed = await store.list({ ...filter, status: 'failed' });
+    failed.sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+
+    const replayed: WebhookEventRecord[] = [];
+    for (const { key } of failed) {
+      await this.replay(key).catch(() => undefined);
+      replayed.push(await store.get(key));
+    }
+    return replayed;
+  }
+
+  private requireStore() {
+    if (!this.options.store) {
+      throw new Error('Replaying webhook events needs a store');
+    }
+    return this.options.store;
+  }
+
+  /**
+   * Run `fn` unless this process is already working on the event, in which
+   * case `duplicate` is returned
+   */
+  private async exclusive(
+    key: string,
+    duplicate: WebhookResult,
+    fn: () => Promise<WebhookResult>
+  ): Promise<WebhookResult> {
+    if (this.inFlight.has(key)) return duplicate;
+    this.inFlight.add(key);
+    try {
+      return await fn();
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private handlersFor(type: WebhookEventType): NamedHandler[] {
+    return [
+      ...(this.handlers.get(type) ?? []),
+      ...(this.handlers.get('*') ?? []),
+    ];
+  }
+
+  /**
+   * Run the handlers of an event that have not succeeded yet, saving the
+   * progress to the store before and after
+   */
+  private async process(
+    event: WebhookEvent,
+    key: string,
+    existing?: WebhookEventRecord
+  ): Promise<WebhookResult> {
+    const { store } = this.options;
+    const now = () => new Date().toISOString();
+    const record: WebhookEventRecord = existing ?? {
+      key,
+      type: event.type,
+      entityId: webhookEntityId(event),
+      status: 'pending',
+      attempts: 0,
+      handlers: {},
+      payload: event.payload,
+      receivedAt: now(),
+      updatedAt: now(),
+    };
+    record.status = 'pending';
+    record.attempts += 1;
+    record.updatedAt = now();
+
+    await store.save(record);
+
+    let handled = 0;
+    let failure: unknown;
+    for (const { name, handler } of this.handlersFor(event.type)) {
+      const previous = record.handlers[name];
+      if (previous?.status === 'succeeded') continue;
+      const attempts = (previous?.attempts ?? 0) + 1;
+      try {
+        await handler(event);
+        record.handlers[name] = {
+          status: 'succeeded',
+          attempts,
+          updatedAt: now(),
+        };
+        handled += 1;
+      } catch (error) {
+        failure = failure ?? error;
+        record.handlers[name] = {
+          status: 'failed',
+          attempts,
+          error: error instanceof Error ? error.message : String(error),
+          updatedAt: now(),
+        };
+      }
+    }
+
+    record.status = failure === undefined ? 'succeeded' : 'failed';
+    record.updatedAt = now();
+    await store.save(record);
+    if (failure !== undefined) throw failure;
+    return { type: event.type, handled, key };
+  }
+
+  /**
+   * Express middleware that answers 200 once every handler succeeded, 400 for
+   * invalid bodies and passes handler errors to `next` so IntakeQ retries.
+   * Reads the body itself when no body parser ran before it.
+   */
+  middleware(): RequestHandler {
+    return (req, res, next) => {
+      const body: Promise<unknown> =
+        req.body !== undefined
+          ? Promise.resolve(req.body)
+          : new Promise((resolve, reject) => {
+              const chunks: Buffer[] = [];
+              req.on('data', (chunk) => chunks.push(chunk));
+              req.on('end', () => resolve(Buffer.concat(chunks)));
+              req.on('error', reject);
+            });
+
+      body
+        .then((value) => this.handle(value, req.headers))
+        .then((result) => {
+          res.status(200).json({ received: true, ...result });
+        })
+        .catch((error) => {
+          if (error instanceof WebhookValidationError) {
+            res
+              .status(400)
+              .json({ error: error.message, issues: error.issues });
+            return;
+          }
+          next(error);
+        });
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-intakeq-signature';
+
+/** How old a signature may be before it is rejected, in seconds */
+const DEFAULT_TOLERANCE = 5 * 60;
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Sign a forwarded webhook body. The result is the value of the
+ * `X-IntakeQ-Signature` header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of
+ * "<t>.<body>">`.
+ * @param body The exact body that is sent
+ * @param secret The secret shared with the destination
+ * @param timestamp When the body is signed, in Unix seconds. Defaults to now
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Check the `X-IntakeQ-Signature` header of a forwarded webhook, for use by
+ * the systems receiving them
+ * @param body The raw body, exactly as received
+ * @param header The signature header
+ * @param secret The secret shared with the forwarder
+ * @param toleranceSec How old the signature may be. Defaults to 5 minutes
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | undefined,
+  secret: string,
+  toleranceSec = DEFAULT_TOLERANCE
+): boolean {
+  const parts: Record<string, string> = {};
+  (header ?? '').split(',').forEach((part) => {
+    const [key, value] = part.split('=');
+    if (key && value) parts[key.trim()] = value.trim();
+  });
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSec) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebhookEvent, WebhookEventRecord, WebhookPayload } from './interfaces';
+import {
+  FileWebhookEventStore,
+  MemoryWebhookEventStore,
+  webhookEventKey,
+} from './store';
+
+function event(payload: object): WebhookEvent {
+  return {
+    type: 'IntakeSubmitted',
+    payload: payload as WebhookPayload,
+    headers: {},
+    receivedAt: new Date(),
+  };
+}
+
+function record(
+  key: string,
+  overrides: Partial<WebhookEventRecord> = {}
+): WebhookEventRecord {
+  return {
+    key,
+    type: 'IntakeSubmitted',
+    entityId: key,
+    status: 'succeeded',
+    attempts: 1,
+    handlers: {},
+    payload: ({ IntakeId: key } as unknown) as WebhookPayload,
+    receivedAt: '2024-06-03T10:00:00.000Z',
+    updatedAt: '2024-06-03T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('webhookEventKey', () => {
+  it('is the same for a resent payload, whatever its key order', () => {
+    const key = webhookEventKey(
+      event({ IntakeId: 'i1', Type: 'Intake Submitted', ClientId: 1 })
+    );
+
+    expect(key).toMatch(/^IntakeSubmitted:i1:[0-9a-f]{16}$/);
+    expect(
+      webhookEventKey(
+        event({ ClientId: 1, Type: 'Intake Submitted', IntakeId: 'i1' })
+      )
+    ).toBe(key);
+    expect(
+      webhookEventKey(
+        event({ IntakeId: 'i1', Type: 'Intake Submitted', ClientId: 2 })
+      )
+    ).not.toBe(key);
+  });
+});
+
+describe('MemoryWebhookEventStore', () => {
+  it('forgets the oldest events beyond maxEntries', () => {
+    const store = new MemoryWebhookEventStore(2);
+    store.save(record('a'));
+    store.save(record('b'));
+    store.save(record('c'));
+
+    expect(store.get('a')).toBeUndefined();
+    expect(store.list().map(({ key }) => key)).toEqual(['b', 'c']);
+  });
+
+  it('forgets events not attempted within maxAgeMs', () => {
+    const store = new MemoryWebhookEventStore({ maxAgeMs: 60000 });
+    const now = Date.now();
+    store.save(
+      record('old', { updatedAt: new Date(now - 61000).toISOString() })
+    );
+    store.save(record('new', { updatedAt: new Date(now).toISOString() }));
+
+    expect(store.list().map(({ key }) => key)).toEqual(['new']);
+  });
+
+  it('filters by status and hands out copies', () => {
+    const store = new MemoryWebhookEventStore();
+    store.save(record('a'));
+    store.save(record('b', { status: 'failed' }));
+
+    const [failed] = store.list({ status: 'failed' });
+    failed.attempts = 5;
+
+    expect(failed.key).toBe('b');
+    expect(store.get('b').attempts).toBe(1);
+  });
+});
+
+describe('FileWebhookEventStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intakeq-webhooks-'));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('keeps events across restarts', async () => {
+    const file = path.join(dir, 'state', 'webhooks.json');
+    const store = new FileWebhookEventStore(file);
+    await Promise.all([
+      store.save(record('a')),
+      store.save(record('b', { status: 'failed' })),
+    ]);
+
+    const restarted = new FileWebhookEventStore(file);
+
+    expect(await restarted.get('a')).toEqual(record('a'));
+    expect(
+      (await restarted.list({ status: 'failed' })).map(({ key }) => key)
+    ).toEqual(['b']);
+    expect(await fs.readdir(path.dirname(file))).toEqual(['webhooks.json']);
+  });
+
+  it('forgets the oldest and expired events in the file', async () => {
+    const file = path.join(dir, 'webhooks.json');
+    const store = new FileWebhookEventStore(file, {
+      maxEntries: 2,
+      maxAgeMs: 60000,
+    });
+    const now = new Date().toISOString();
+    await store.save(record('expired'));
+    await store.save(record('a', { updatedAt: now }));
+    await store.save(record('b', { updatedAt: now }));
+    await store.save(record('c', { updatedAt: now }));
+
+    const stored: WebhookEventRecord[] = JSON.parse(
+      await fs.readFile(file, 'utf8')
+    );
+    expect(stored.map(({ key }) => key)).toEqual(['b', 'c']);
+    expect(await new FileWebhookEventStore(file).get('a')).toBeUndefined();
+  });
+
+  it('starts empty without a file', async () => {
+    const store = new FileWebhookEventStore(path.join(dir, 'missing.json'));
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+});
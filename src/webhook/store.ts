@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { JsonFileCollection } from '../common/json-file';
+import {
+  ProcessingStatus,
+  WebhookEvent,
+  WebhookEventRecord,
+  WebhookEventStore,
+  WebhookEventStoreOptions,
+  WebhookEventType,
+} from './interfaces';
+
+const DEFAULT_MAX_ENTRIES = 10000;
+
+type RecordFilter = { status?: ProcessingStatus; type?: WebhookEventType };
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** JSON with sorted keys, so equal payloads hash the same */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function matches(record: WebhookEventRecord, filter: RecordFilter = {}) {
+  return (
+    (!filter.status || record.status === filter.status) &&
+    (!filter.type || record.type === filter.type)
+  );
+}
+
+/**
+ * Picks the events that fall outside the retention options: the oldest ones
+ * beyond `maxEntries`, and those not attempted within `maxAgeMs`
+ * @param options How long to keep events
+ */
+function expired(options: WebhookEventStoreOptions) {
+  const { maxEntries = DEFAULT_MAX_ENTRIES, maxAgeMs } = options;
+  const cutoff = maxAgeMs === undefined ? undefined : Date.now() - maxAgeMs;
+  return (record: WebhookEventRecord, index: number, count: number) =>
+    index < count - maxEntries ||
+    (cutoff !== undefined && Date.parse(record.updatedAt) < cutoff);
+}
+
+/** The id of the appointment, invoice or intake an event is about */
+export function webhookEntityId(event: WebhookEvent): string {
+  const payload = event.payload as Record<string, any>;
+  return String(
+    payload.Appointment?.Id ?? payload.Invoice?.Id ?? payload.IntakeId ?? ''
+  );
+}
+
+/**
+ * The deduplication key of an event: its type, entity id and a hash of its
+ * payload. A resent webhook gets the same key, while a later change to the
+ * same record gets a new one.
+ * @param event The parsed event
+ */
+export function webhookEventKey(event: WebhookEvent): string {
+  const hash = createHash('sha256')
+    .update(stableStringify(event.payload))
+    .digest('hex')
+    .slice(0, 16);
+  return `${event.type}:${webhookEntityId(event)}:${hash}`;
+}
+
+/**
+ * An in-memory `WebhookEventStore` that forgets the oldest events once it
+ * holds `maxEntries`. Events are lost on restart, so use a persistent store
+ * where IntakeQ's retries may reach a new process.
+ */
+export class MemoryWebhookEventStore implements WebhookEventStore {
+  private records = new Map<string, WebhookEventRecord>();
+
+  private options: WebhookEventStoreOptions;
+
+  /**
+   * @param options How long to keep events, or the most events to keep
+   */
+  constructor(options: WebhookEventStoreOptions | number = {}) {
+    this.options =
+      typeof options === 'number' ? { maxEntries: options } : options;
+  }
+
+  get(key: string): WebhookEventRecord | undefined {
+    return clone(this.records.get(key));
+  }
+
+  save(record: WebhookEventRecord): void {
+    this.records.set(record.key, clone(record));
+    const isExpired = expired(this.options);
+    Array.from(this.records.values()).forEach((stored, index, all) => {
+      if (isExpired(stored, index, all.length)) {
+        this.records.delete(stored.key);
+      }
+    });
+  }
+
+  list(filter?: RecordFilter): WebhookEventRecord[] {
+    return Array.from(this.records.values())
+      .filter((record) => matches(record, filter))
+      .map(clone);
+  }
+}
+
+/**
+ * A `WebhookEventStore` kept in a JSON file, for a single process. The file
+ * holds the event payloads, PHI included, so keep it somewhere protected.
+ * Like the memory store, it forgets the oldest events beyond `maxEntries`.
+ */
+export class FileWebhookEventStore implements WebhookEventStore {
+  private records: JsonFileCollection<WebhookEventRecord>;
+
+  /**
+   * @param file The JSON file to use. It is created on the first save.
+   * @param options How long to keep events
+   */
+  constructor(file: string, private options: WebhookEventStoreOptions = {}) {
+    this.records = new JsonFileCollection(file, (record) => record.key);
+  }
+
+  get(key: string): Promise<WebhookEventRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async save(record: WebhookEventRecord): Promise<void> {
+    await this.records.save(record);
+    await this.records.deleteWhere(expired(this.options));
+  }
+
+  async list(filter?: RecordFilter): Promise<WebhookEventRecord[]> {
+    const records = await this.records.values();
+    return records.filter((record) => matches(record, filter));
+  }
+}